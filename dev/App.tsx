@@ -1,27 +1,71 @@
 import type {
+  ArrayAnnotation,
   ClassElement,
+  ConditionalAnnotation,
   EnumElement,
   FunctionElement,
+  FunctionSignature,
   FunctionTypeAnnotation,
   GenericDeclaration,
+  HeritageReference,
+  IndexedAccessAnnotation,
+  InferAnnotation,
+  InterfaceElement,
   IntersectionAnnotation,
   JSDocInfo,
-  JSDocTag,
+  JSDocLink,
+  JSDocUnknownTag,
+  MappedAnnotation,
+  NamedTupleMemberAnnotation,
+  NamespaceElement,
+  OptionalAnnotation,
   Parameter,
+  ParenthesizedAnnotation,
   PrimitiveTypeAnnotation,
+  ReferenceIndex,
+  RestAnnotation,
+  SourceLocation,
+  Table,
+  TemplateLiteralAnnotation,
   TupleAnnotation,
   TypeAliasElement,
   TypeAnnotation,
+  TypeElement,
   TypeLiteralAnnotation,
+  TypeOperatorAnnotation,
+  TypeQueryAnnotation,
   TypeReferenceAnnotation,
   UnionAnnotation,
   VariableElement,
 } from '@bigmistqke/readmi'
-import { codeToHtml } from 'shiki'
+import { bundledLanguages, codeToHtml } from 'shiki'
 import type { ComponentProps, JSX, ParentProps } from 'solid-js'
-import { For, Show, Suspense, createResource, splitProps, type Component } from 'solid-js'
+import {
+  For,
+  Show,
+  Suspense,
+  createEffect,
+  createMemo,
+  createResource,
+  createSignal,
+  onCleanup,
+  splitProps,
+  type Component,
+} from 'solid-js'
 import { Dynamic } from 'solid-js/web'
-import data from '../src/data.ts'
+import data, { referencedBy, searchIndex } from '../src/data.ts'
+import {
+  findLinkTargetId,
+  getDisplayName,
+  getMemberTable,
+  getParameterTable,
+  isUrl,
+  printDeclaration,
+  printType,
+  splitExample,
+  splitLinks,
+} from '../src/markdown'
+import { search } from '../src/search'
 
 import styles from './App.module.css'
 
@@ -31,11 +75,26 @@ import styles from './App.module.css'
 /*                                                                                */
 /**********************************************************************************/
 
-const Shiki = (props: { code: string }) => {
+const Shiki = (props: {
+  code: string
+  lang?: string
+  references?: ReadonlyMap<string, string>
+}) => {
   const [html] = createResource(() =>
     codeToHtml(props.code, {
-      lang: 'typescript',
+      lang: !props.lang ? 'typescript' : props.lang in bundledLanguages ? props.lang : 'text',
       theme: 'vitesse-light',
+      transformers: [
+        {
+          // tokens of referenced type names link to the declaration they refer to
+          span(node, _line, _column, _lineElement, token) {
+            const id = props.references?.get(token.content.trim())
+            if (!id) return
+            node.tagName = 'a'
+            node.properties.href = `#${id}`
+          },
+        },
+      ],
     }),
   )
   return (
@@ -59,27 +118,45 @@ const Base = (props: Omit<ComponentProps<'div'>, 'style'> & { style?: JSX.CSSPro
     style={{ display: 'grid', 'grid-template-columns': '1fr', gap: '20px', ...props.style }}
   />
 )
-const Labelled = (props: { label: JSX.Element; children: JSX.Element }) => {
+const Labelled = (props: { id?: string; label: JSX.Element; children: JSX.Element }) => {
   return (
-    <Base style={{ 'grid-template-columns': '100px 1fr' }}>
+    <Base id={props.id} style={{ 'grid-template-columns': '100px 1fr' }}>
       <div style={{ color: 'grey' }}>{props.label}</div>
       <Base>{props.children}</Base>
     </Base>
   )
 }
-const Title = (props: { title: string; type: string }) => (
+const Title = (props: { id?: string; title: string; type: string; source?: SourceLocation }) => (
   <div style={{ display: 'flex', 'align-items': 'center', gap: '20px' }}>
-    <h3 id={props.title}>{props.title}</h3>
+    <h3 id={props.id || props.title}>{props.title}</h3>
     <i>({props.type})</i>
+    <Show when={props.source}>
+      {source => (
+        <code>
+          {source().path}:{source().start.line}:{source().start.column}
+        </code>
+      )}
+    </Show>
   </div>
 )
 const Block = (props: ParentProps<ComponentProps<typeof Title>>) => (
   <Base>
-    <Title title={props.title} type={props.type} />
+    <Title id={props.id} title={props.title} type={props.type} source={props.source} />
     {props.children}
+    <UsedInComponent id={props.id} />
   </Base>
 )
 
+const UsedInComponent = (props: { id?: string }) => (
+  <Show when={props.id !== undefined && (referencedBy as ReferenceIndex)[props.id]}>
+    {locations => (
+      <Labelled label="used in">
+        <For each={locations()}>{location => <a href={`#${location.id}`}>{location.name}</a>}</For>
+      </Labelled>
+    )}
+  </Show>
+)
+
 const LiteralComponent = (props: { literal?: string }) => (
   <Show when={props.literal}>
     {literal => (
@@ -90,7 +167,7 @@ const LiteralComponent = (props: { literal?: string }) => (
   </Show>
 )
 
-const GenericDeclarationComponent = (props: { generics?: GenericDeclaration[] }) => {
+const GenericDeclarationComponent = (props: { generics?: readonly GenericDeclaration[] }) => {
   return (
     <Show when={props.generics}>
       <Labelled label="generics">
@@ -117,7 +194,8 @@ const GenericDeclarationComponent = (props: { generics?: GenericDeclaration[] })
 /*                                                                                */
 /**********************************************************************************/
 
-const JSDocTagComponent = (props: { tag: JSDocTag }) => {
+// Every tag variant is assignable to the unknown tag, which has all optional details.
+const JSDocTagComponent = (props: { tag: JSDocUnknownTag }) => {
   return (
     <Labelled label={`@${props.tag.tagName}`}>
       <Show
@@ -168,6 +246,14 @@ const JSDocComponent = (props: { jsdoc?: JSDocInfo }) => {
             )}
           </For>
           <For each={jsdoc().tags}>{tag => <JSDocTagComponent tag={tag} />}</For>
+          <For each={jsdoc().links}>
+            {link => (
+              <Labelled label={`@${link.kind}`}>
+                <Labelled label="target" children={link.target} />
+                <Show when={link.text}>{text => <Labelled label="text" children={text()} />}</Show>
+              </Labelled>
+            )}
+          </For>
         </Labelled>
       )}
     </Show>
@@ -187,11 +273,21 @@ const TypeReferenceAnnotationComponent = (props: { annotation: TypeReferenceAnno
   return (
     <>
       <Labelled label="name">
-        <a href={`#${props.annotation.name}`}>{props.annotation.name}</a>
+        {/* references to declarations outside the program have no target to link to */}
+        <Show when={props.annotation.targetId} fallback={props.annotation.name}>
+          {targetId => <a href={`#${targetId()}`}>{props.annotation.name}</a>}
+        </Show>
       </Labelled>
-      <Show when={'arguments' in props.annotation && props.annotation}>
-        {node => (
-          <For each={node().parameters}>
+      <Show when={props.annotation.expanded}>
+        {expanded => (
+          <Labelled label="expanded">
+            <TypeAnnotationComponent annotation={expanded()} />
+          </Labelled>
+        )}
+      </Show>
+      <Show when={props.annotation.parameters}>
+        {parameters => (
+          <For each={parameters()}>
             {annotation => (
               <Labelled label="arguments">
                 <TypeAnnotationComponent annotation={annotation} />
@@ -205,21 +301,30 @@ const TypeReferenceAnnotationComponent = (props: { annotation: TypeReferenceAnno
 }
 const TypeLiteralAnnotationComponent = (props: { annotation: TypeLiteralAnnotation }) => {
   return (
-    <Labelled
-      label="properties"
-      children={
-        <For each={props.annotation.members}>
-          {member => (
-            <Labelled label={member.name}>
-              <JSDocComponent jsdoc={member.jsdoc} />
-              <Labelled label="type">
-                <TypeAnnotationComponent annotation={member.typeAnnotation} />
+    <>
+      <Labelled
+        label="properties"
+        children={
+          <For each={props.annotation.members}>
+            {member => (
+              <Labelled id={member.id} label={member.name}>
+                <JSDocComponent jsdoc={member.jsdoc} />
+                <Labelled label="type">
+                  <TypeAnnotationComponent annotation={member.typeAnnotation} />
+                </Labelled>
               </Labelled>
-            </Labelled>
-          )}
-        </For>
-      }
-    />
+            )}
+          </For>
+        }
+      />
+      <Show when={props.annotation.signatures}>
+        {signatures => (
+          <Labelled label="call signatures">
+            <SignaturesComponent signatures={signatures()} />
+          </Labelled>
+        )}
+      </Show>
+    </>
   )
 }
 
@@ -252,20 +357,211 @@ const TupleAnnotationComponent = (props: { annotation: TupleAnnotation }) => {
   )
 }
 
-const FunctionTypeAnnotationComponent = (props: { annotation: FunctionTypeAnnotation }) => {
+const ArrayAnnotationComponent = (props: { annotation: ArrayAnnotation }) => {
+  return (
+    <Labelled label="element">
+      <TypeAnnotationComponent annotation={props.annotation.elementType} />
+    </Labelled>
+  )
+}
+
+const TypeOperatorAnnotationComponent = (props: { annotation: TypeOperatorAnnotation }) => {
+  return (
+    <>
+      <Labelled label="operator" children={props.annotation.operator} />
+      <Labelled label="type">
+        <TypeAnnotationComponent annotation={props.annotation.type} />
+      </Labelled>
+    </>
+  )
+}
+
+const IndexedAccessAnnotationComponent = (props: { annotation: IndexedAccessAnnotation }) => {
+  return (
+    <>
+      <Labelled label="object">
+        <TypeAnnotationComponent annotation={props.annotation.objectType} />
+      </Labelled>
+      <Labelled label="index">
+        <TypeAnnotationComponent annotation={props.annotation.indexType} />
+      </Labelled>
+    </>
+  )
+}
+
+const MappedAnnotationComponent = (props: { annotation: MappedAnnotation }) => {
   return (
     <>
-      <ParametersComponent parameters={props.annotation.parameters} />
-      <GenericDeclarationComponent generics={props.annotation.generics} />
+      <Labelled label="parameter" children={props.annotation.typeParameter} />
+      <Show when={props.annotation.constraint}>
+        {constraint => (
+          <Labelled label="in">
+            <TypeAnnotationComponent annotation={constraint()} />
+          </Labelled>
+        )}
+      </Show>
+      <Show when={props.annotation.nameType}>
+        {nameType => (
+          <Labelled label="as">
+            <TypeAnnotationComponent annotation={nameType()} />
+          </Labelled>
+        )}
+      </Show>
+      <Show when={props.annotation.readonlyModifier}>
+        {modifier => <Labelled label="readonly" children={modifier()} />}
+      </Show>
+      <Show when={props.annotation.optionalModifier}>
+        {modifier => <Labelled label="optional" children={modifier()} />}
+      </Show>
+      <Show when={props.annotation.type}>
+        {type => (
+          <Labelled label="type">
+            <TypeAnnotationComponent annotation={type()} />
+          </Labelled>
+        )}
+      </Show>
+    </>
+  )
+}
+
+const ConditionalAnnotationComponent = (props: { annotation: ConditionalAnnotation }) => {
+  return (
+    <>
+      <Labelled label="check">
+        <TypeAnnotationComponent annotation={props.annotation.checkType} />
+      </Labelled>
+      <Labelled label="extends">
+        <TypeAnnotationComponent annotation={props.annotation.extendsType} />
+      </Labelled>
+      <Labelled label="true">
+        <TypeAnnotationComponent annotation={props.annotation.trueType} />
+      </Labelled>
+      <Labelled label="false">
+        <TypeAnnotationComponent annotation={props.annotation.falseType} />
+      </Labelled>
+    </>
+  )
+}
+
+const InferAnnotationComponent = (props: { annotation: InferAnnotation }) => {
+  return (
+    <>
+      <Labelled label="name" children={props.annotation.name} />
+      <Show when={props.annotation.constraint}>
+        {constraint => (
+          <Labelled label="extends">
+            <TypeAnnotationComponent annotation={constraint()} />
+          </Labelled>
+        )}
+      </Show>
+    </>
+  )
+}
+
+const TemplateLiteralAnnotationComponent = (props: { annotation: TemplateLiteralAnnotation }) => {
+  return (
+    <>
+      <Labelled label="head" children={JSON.stringify(props.annotation.head)} />
+      <For each={props.annotation.spans}>
+        {span => (
+          <Labelled label="span">
+            <TypeAnnotationComponent annotation={span.type} />
+            <Labelled label="text" children={JSON.stringify(span.text)} />
+          </Labelled>
+        )}
+      </For>
+    </>
+  )
+}
+
+const TypeQueryAnnotationComponent = (props: { annotation: TypeQueryAnnotation }) => {
+  return (
+    <>
+      <Labelled label="name" children={props.annotation.name} />
+      <Show when={props.annotation.parameters}>
+        {parameters => (
+          <For each={parameters()}>
+            {annotation => (
+              <Labelled label="arguments">
+                <TypeAnnotationComponent annotation={annotation} />
+              </Labelled>
+            )}
+          </For>
+        )}
+      </Show>
+    </>
+  )
+}
+
+const NamedTupleMemberAnnotationComponent = (props: { annotation: NamedTupleMemberAnnotation }) => {
+  return (
+    <>
+      <Labelled label="name" children={props.annotation.name} />
+      <Show when={props.annotation.isOptional}>
+        <Labelled label="optional" children="true" />
+      </Show>
+      <Show when={props.annotation.isRest}>
+        <Labelled label="rest" children="true" />
+      </Show>
+      <Labelled label="type">
+        <TypeAnnotationComponent annotation={props.annotation.type} />
+      </Labelled>
+    </>
+  )
+}
+
+// Optional and rest tuple members and parenthesized types only wrap a single type.
+const WrappedTypeAnnotationComponent = (props: {
+  annotation: OptionalAnnotation | RestAnnotation | ParenthesizedAnnotation
+}) => {
+  return (
+    <Labelled label="type">
+      <TypeAnnotationComponent annotation={props.annotation.type} />
+    </Labelled>
+  )
+}
+
+const SignatureComponent = (props: { signature: FunctionSignature }) => {
+  return (
+    <>
+      <GenericDeclarationComponent generics={props.signature.generics} />
+      <ParametersComponent parameters={props.signature.parameters} />
       <Labelled label="return">
-        <Show when={props.annotation.returnType} fallback="void">
+        <Show when={props.signature.returnType} fallback="void">
           {returnType => <TypeAnnotationComponent annotation={returnType()} />}
         </Show>
+        <JSDocComponent jsdoc={props.signature.returns} />
       </Labelled>
     </>
   )
 }
 
+const SignaturesComponent = (props: { signatures: readonly FunctionSignature[] }) => {
+  return (
+    <Show
+      when={props.signatures.length > 1}
+      fallback={
+        <Show when={props.signatures[0]}>
+          {signature => <SignatureComponent signature={signature()} />}
+        </Show>
+      }
+    >
+      <For each={props.signatures}>
+        {(signature, index) => (
+          <Labelled label={`overload ${index() + 1}`}>
+            <JSDocComponent jsdoc={signature.jsdoc} />
+            <SignatureComponent signature={signature} />
+          </Labelled>
+        )}
+      </For>
+    </Show>
+  )
+}
+
+const FunctionTypeAnnotationComponent = (props: { annotation: FunctionTypeAnnotation }) => {
+  return <SignaturesComponent signatures={props.annotation.signatures} />
+}
+
 const typeAnnotationComponents = {
   PrimitiveType: PrimitiveTypeAnnotationComponent,
   TypeReference: TypeReferenceAnnotationComponent,
@@ -274,6 +570,18 @@ const typeAnnotationComponents = {
   Intersection: IntersectionAnnotationComponent,
   FunctionType: FunctionTypeAnnotationComponent,
   Tuple: TupleAnnotationComponent,
+  Array: ArrayAnnotationComponent,
+  TypeOperator: TypeOperatorAnnotationComponent,
+  IndexedAccess: IndexedAccessAnnotationComponent,
+  Mapped: MappedAnnotationComponent,
+  Conditional: ConditionalAnnotationComponent,
+  Infer: InferAnnotationComponent,
+  TemplateLiteral: TemplateLiteralAnnotationComponent,
+  TypeQuery: TypeQueryAnnotationComponent,
+  Optional: WrappedTypeAnnotationComponent,
+  Rest: WrappedTypeAnnotationComponent,
+  NamedTupleMember: NamedTupleMemberAnnotationComponent,
+  Parenthesized: WrappedTypeAnnotationComponent,
 }
 
 const TypeAnnotationComponent = (props: { annotation?: TypeAnnotation }) => {
@@ -288,7 +596,11 @@ const TypeAnnotationComponent = (props: { annotation?: TypeAnnotation }) => {
               {literal => <LiteralComponent literal={literal()} />}
             </Show>
             <Dynamic
-              component={typeAnnotationComponents[annotation().kind]}
+              component={
+                typeAnnotationComponents[annotation().kind] as Component<{
+                  annotation: TypeAnnotation
+                }>
+              }
               annotation={annotation()}
             />
           </>
@@ -300,7 +612,7 @@ const TypeAnnotationComponent = (props: { annotation?: TypeAnnotation }) => {
 
 const VariableComponent = (props: { node: VariableElement }) => {
   return (
-    <Block title={props.node.name} type="Variable">
+    <Block id={props.node.id} source={props.node.source} title={props.node.name} type="Variable">
       <LiteralComponent literal={props.node.literal} />
       <JSDocComponent jsdoc={props.node.jsdoc} />
       <Show when={props.node.typeAnnotation}>
@@ -316,15 +628,9 @@ const VariableComponent = (props: { node: VariableElement }) => {
 
 const FunctionComponent = (props: { node: FunctionElement }) => {
   return (
-    <Block title={props.node.name} type="Function">
+    <Block id={props.node.id} source={props.node.source} title={props.node.name} type="Function">
       <JSDocComponent jsdoc={props.node.jsdoc} />
-      <GenericDeclarationComponent generics={props.node.generics} />
-      <ParametersComponent parameters={props.node.parameters} />
-      <Labelled label="return">
-        <Show when={props.node.returnType} fallback="void">
-          {returnType => <TypeAnnotationComponent annotation={returnType()} />}
-        </Show>
-      </Labelled>
+      <SignaturesComponent signatures={props.node.signatures} />
     </Block>
   )
 }
@@ -352,16 +658,70 @@ const ParametersComponent = (props: { parameters: readonly Parameter[] }) => (
 
 const ClassComponent = (props: { node: ClassElement }) => {
   return (
-    <Block title={props.node.name} type="Class">
+    <Block id={props.node.id} source={props.node.source} title={props.node.name} type="Class">
       <JSDocComponent jsdoc={props.node.jsdoc} />
+      <GenericDeclarationComponent generics={props.node.generics} />
+      <Show when={props.node.isAbstract}>
+        <Labelled label="abstract" children="true" />
+      </Show>
+      <Show when={props.node.extends}>
+        {extending => (
+          <Labelled label="extends">
+            <TypeAnnotationComponent annotation={extending()} />
+          </Labelled>
+        )}
+      </Show>
+      <Show when={props.node.implements}>
+        {implementing => (
+          <Labelled label="implements">
+            <For each={implementing()}>
+              {annotation => <TypeAnnotationComponent annotation={annotation} />}
+            </For>
+          </Labelled>
+        )}
+      </Show>
       <Labelled label="members">
         <For each={props.node.members}>
           {member => (
-            <Labelled label={member.name || <i>constructor</i>}>
+            <Labelled id={member.id} label={member.name || <i>{member.kind}</i>}>
+              <Labelled label="kind" children={member.kind} />
+              <Show
+                when={[
+                  member.accessModifier,
+                  member.isStatic && 'static',
+                  member.isAbstract && 'abstract',
+                  member.isOverride && 'override',
+                  member.isReadonly && 'readonly',
+                  member.isOptional && 'optional',
+                ]
+                  .filter(Boolean)
+                  .join(' ')}
+              >
+                {modifiers => <Labelled label="modifiers" children={modifiers()} />}
+              </Show>
+              <HeritageComponent label="inherited from" reference={member.inheritedFrom} />
+              <HeritageComponent label="overrides" reference={member.overrides} />
               <JSDocComponent jsdoc={member.jsdoc} />
-              <Show when={member.parameters}>
+              <Show when={'signatures' in member && member.signatures}>
+                {signatures => <SignaturesComponent signatures={signatures()} />}
+              </Show>
+              <Show when={'parameters' in member && member.parameters}>
                 {parameters => <ParametersComponent parameters={parameters()} />}
               </Show>
+              <Show when={'getter' in member && member.getter}>
+                {getter => (
+                  <Labelled label="get">
+                    <SignatureComponent signature={getter()} />
+                  </Labelled>
+                )}
+              </Show>
+              <Show when={'setter' in member && member.setter}>
+                {setter => (
+                  <Labelled label="set">
+                    <SignatureComponent signature={setter()} />
+                  </Labelled>
+                )}
+              </Show>
               <Show when={member.typeAnnotation}>
                 {typeAnnotation => <TypeAnnotationComponent annotation={typeAnnotation()} />}
               </Show>
@@ -373,13 +733,27 @@ const ClassComponent = (props: { node: ClassElement }) => {
   )
 }
 
+const HeritageComponent = (props: { label: string; reference?: HeritageReference }) => {
+  return (
+    <Show when={props.reference}>
+      {reference => (
+        <Labelled label={props.label}>
+          <Show when={reference().targetId} fallback={reference().name}>
+            {targetId => <a href={`#${targetId()}`}>{reference().name}</a>}
+          </Show>
+        </Labelled>
+      )}
+    </Show>
+  )
+}
+
 const EnumComponent = (props: { node: EnumElement }) => {
   return (
-    <Block title={props.node.name} type="Enum">
+    <Block id={props.node.id} source={props.node.source} title={props.node.name} type="Enum">
       <JSDocComponent jsdoc={props.node.jsdoc} />
       <For each={props.node.members}>
         {member => (
-          <Labelled label={member.name}>
+          <Labelled id={member.id} label={member.name}>
             <JSDocComponent jsdoc={member.jsdoc} />
             <TypeAnnotationComponent annotation={member.typeAnnotation} />
             <Labelled label="value" children={member.value} />
@@ -392,7 +766,7 @@ const EnumComponent = (props: { node: EnumElement }) => {
 
 const TypeAliasComponent = (props: { node: TypeAliasElement }) => {
   return (
-    <Block title={props.node.name} type="TypeAlias">
+    <Block id={props.node.id} source={props.node.source} title={props.node.name} type="TypeAlias">
       <LiteralComponent literal={props.node.literal} />
       <JSDocComponent jsdoc={props.node.jsdoc} />
       <GenericDeclarationComponent generics={props.node.generics} />
@@ -407,18 +781,577 @@ const TypeAliasComponent = (props: { node: TypeAliasElement }) => {
   )
 }
 
-const App: Component = () => {
-  const components = {
-    Variable: VariableComponent,
-    Function: FunctionComponent,
-    Class: ClassComponent,
-    Enum: EnumComponent,
-    TypeAlias: TypeAliasComponent,
+const InterfaceComponent = (props: { node: InterfaceElement }) => {
+  return (
+    <Block id={props.node.id} source={props.node.source} title={props.node.name} type="Interface">
+      <LiteralComponent literal={props.node.literal} />
+      <JSDocComponent jsdoc={props.node.jsdoc} />
+      <GenericDeclarationComponent generics={props.node.generics} />
+      <Show when={props.node.extends}>
+        {extending => (
+          <Labelled label="extends">
+            <For each={extending()}>
+              {annotation => <TypeAnnotationComponent annotation={annotation} />}
+            </For>
+          </Labelled>
+        )}
+      </Show>
+      <Labelled label="members">
+        <For each={props.node.members}>
+          {member => (
+            <Labelled id={member.id} label={member.name || <i>{member.kind}</i>}>
+              <Labelled label="kind" children={member.kind} />
+              <Show when={member.isOptional}>
+                <Labelled label="optional" children="true" />
+              </Show>
+              <Show when={member.isReadonly}>
+                <Labelled label="readonly" children="true" />
+              </Show>
+              <HeritageComponent label="inherited from" reference={member.inheritedFrom} />
+              <HeritageComponent label="overrides" reference={member.overrides} />
+              <JSDocComponent jsdoc={member.jsdoc} />
+              <Show when={'signatures' in member && member.signatures}>
+                {signatures => <SignaturesComponent signatures={signatures()} />}
+              </Show>
+              <Show when={'parameters' in member && member.parameters}>
+                {parameters => <ParametersComponent parameters={parameters()} />}
+              </Show>
+              <Show when={member.typeAnnotation}>
+                {typeAnnotation => (
+                  <Labelled label="type">
+                    <TypeAnnotationComponent annotation={typeAnnotation()} />
+                  </Labelled>
+                )}
+              </Show>
+            </Labelled>
+          )}
+        </For>
+      </Labelled>
+    </Block>
+  )
+}
+
+const NamespaceComponent = (props: { node: NamespaceElement }) => {
+  return (
+    <details open style={{ 'border-left': '1px solid lightgrey', 'padding-left': '20px' }}>
+      <summary style={{ cursor: 'pointer' }}>
+        <Title id={props.node.id} title={props.node.name} type={props.node.declarationKind} />
+      </summary>
+      <Base>
+        <JSDocComponent jsdoc={props.node.jsdoc} />
+        <Labelled label="members">
+          <For each={props.node.members}>{member => <TypeElementComponent node={member} />}</For>
+        </Labelled>
+      </Base>
+    </details>
+  )
+}
+
+const typeElementComponents = {
+  Variable: VariableComponent,
+  Function: FunctionComponent,
+  Class: ClassComponent,
+  Enum: EnumComponent,
+  TypeAlias: TypeAliasComponent,
+  Interface: InterfaceComponent,
+  Namespace: NamespaceComponent,
+}
+
+const TypeElementComponent = (props: { node: TypeElement }) => (
+  <Dynamic
+    component={typeElementComponents[props.node.kind] as Component<{ node: TypeElement }>}
+    node={props.node}
+  />
+)
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                 Docs Components                                */
+/*                                                                                */
+/**********************************************************************************/
+
+const kindTitles: Record<TypeElement['kind'], string> = {
+  Function: 'Function',
+  Class: 'Class',
+  Interface: 'Interface',
+  TypeAlias: 'Type Alias',
+  Enum: 'Enum',
+  Variable: 'Variable',
+  Namespace: 'Namespace',
+}
+
+/** The ID of every element by its qualified name, to resolve the targets of JSDoc links. */
+const elementIds = new Map<string, string>()
+const collectElementIds = (elements: readonly TypeElement[], prefix = '') =>
+  elements.forEach(element => {
+    const name = `${prefix}${getDisplayName(element)}`
+    if (element.id && !elementIds.has(name)) elementIds.set(name, element.id)
+    if (element.kind === 'Namespace') collectElementIds(element.members, `${name}.`)
+  })
+collectElementIds(data as readonly TypeElement[])
+
+/**
+ * Collects the names of the declarations an element references by the ID they refer to, so
+ * they can be linked in its printed declaration. Expanded references belong to their target.
+ */
+function collectReferences(value: unknown, references = new Map<string, string>()) {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectReferences(item, references))
+  } else if (value && typeof value === 'object') {
+    const annotation = value as Partial<TypeReferenceAnnotation>
+    if (annotation.kind === 'TypeReference' && annotation.name && annotation.targetId) {
+      references.set(annotation.name.split('.').pop()!, annotation.targetId)
+    }
+    for (const [key, child] of Object.entries(value)) {
+      if (key !== 'expanded' && key !== 'jsdoc') collectReferences(child, references)
+    }
+  }
+  return references
+}
+
+// the split pattern captures, so every odd part is code
+const InlineComponent = (props: { text: string }) => (
+  <For each={props.text.split(/`([^`]+)`/)}>
+    {(part, index) => (index() % 2 === 1 ? <code>{part}</code> : part)}
+  </For>
+)
+
+const TextComponent = (props: { text: string; links?: readonly JSDocLink[] }) => (
+  <For each={splitLinks(props.text, props.links)}>
+    {part =>
+      typeof part === 'string' ? <InlineComponent text={part} /> : <LinkComponent link={part} />
+    }
+  </For>
+)
+
+const LinkComponent = (props: { link: JSDocLink }) => {
+  const href = () => {
+    if (isUrl(props.link.target)) return props.link.target
+    const id = findLinkTargetId(props.link.target, elementIds)
+    return id && `#${id}`
+  }
+  const label = () =>
+    props.link.kind === 'linkcode' ? (
+      <code>{props.link.text || props.link.target}</code>
+    ) : (
+      props.link.text || props.link.target
+    )
+  return (
+    <Show when={href()} fallback={label()}>
+      {href => <a href={href()}>{label()}</a>}
+    </Show>
+  )
+}
+
+const DescriptionComponent = (props: { jsdoc?: JSDocInfo }) => (
+  <>
+    <For each={props.jsdoc?.tags?.filter(tag => tag.tagName === 'deprecated')}>
+      {tag => (
+        <p style={{ color: 'darkred' }}>
+          <strong>Deprecated</strong> <TextComponent text={tag.comment || ''} links={tag.links} />
+        </p>
+      )}
+    </For>
+    <For each={props.jsdoc?.description?.flatMap(text => text.split(/\n\s*\n/))}>
+      {paragraph => (
+        <p style={{ margin: '0px' }}>
+          <TextComponent text={paragraph} links={props.jsdoc?.links} />
+        </p>
+      )}
+    </For>
+    <For each={props.jsdoc?.tags?.filter(tag => tag.tagName === 'since' && tag.comment)}>
+      {tag => (
+        <p style={{ margin: '0px' }}>
+          <strong>Since</strong> <TextComponent text={tag.comment!} links={tag.links} />
+        </p>
+      )}
+    </For>
+  </>
+)
+
+const ExamplesComponent = (props: { jsdoc?: JSDocInfo; name?: string }) => (
+  <For each={props.jsdoc?.tags?.filter(tag => tag.tagName === 'example' && tag.comment)}>
+    {tag => (
+      <Base style={{ gap: '10px' }}>
+        <strong>
+          Example
+          <Show when={props.name}>{name => <code> {name()}</code>}</Show>
+        </strong>
+        <For each={splitExample(tag.comment!)}>
+          {part =>
+            part.kind === 'code' ? (
+              <Shiki code={part.code} lang={part.lang} />
+            ) : (
+              <p style={{ margin: '0px' }}>
+                <TextComponent text={part.text} links={tag.links} />
+              </p>
+            )
+          }
+        </For>
+      </Base>
+    )}
+  </For>
+)
+
+const TableComponent = (props: { table?: Table }) => (
+  <Show when={props.table && props.table.rows.length > 0 && props.table}>
+    {table => (
+      <>
+        <table style={{ 'border-collapse': 'collapse', 'text-align': 'left' }}>
+          <thead>
+            <tr>
+              <For each={table().header}>
+                {cell => (
+                  <th style={{ padding: '5px', 'border-bottom': '1px solid lightgrey' }}>{cell}</th>
+                )}
+              </For>
+            </tr>
+          </thead>
+          <tbody>
+            <For each={table().rows}>
+              {([name, type, jsdoc], index) => (
+                <tr id={table().ids?.[index()]} style={{ 'vertical-align': 'top' }}>
+                  <td style={{ padding: '5px' }}>
+                    <code>{name}</code>
+                  </td>
+                  <td style={{ padding: '5px' }}>
+                    <Show when={type}>
+                      <code>{type}</code>
+                    </Show>
+                  </td>
+                  <td style={{ padding: '5px' }}>
+                    <TextComponent
+                      text={jsdoc?.description?.join(' ') || ''}
+                      links={jsdoc?.links}
+                    />
+                  </td>
+                </tr>
+              )}
+            </For>
+          </tbody>
+        </table>
+        <For each={table().rows}>
+          {([name, , jsdoc]) => <ExamplesComponent jsdoc={jsdoc} name={name} />}
+        </For>
+      </>
+    )}
+  </Show>
+)
+
+const SignatureDetailsComponent = (props: { signature: FunctionSignature }) => (
+  <>
+    <TableComponent table={getParameterTable(props.signature)} />
+    <Show when={props.signature.returnType || props.signature.returns?.description}>
+      <p style={{ margin: '0px' }}>
+        <strong>Returns</strong> <code>{printType(props.signature.returnType)}</code>
+        <Show when={props.signature.returns?.description}>
+          {description => (
+            <>
+              {' — '}
+              <TextComponent
+                text={description().join(' ')}
+                links={props.signature.returns?.links}
+              />
+            </>
+          )}
+        </Show>
+      </p>
+    </Show>
+  </>
+)
+
+const UsedInDocsComponent = (props: { id?: string }) => (
+  <Show when={props.id !== undefined && (referencedBy as ReferenceIndex)[props.id]}>
+    {locations => (
+      <p style={{ margin: '0px' }}>
+        <strong>Used in</strong>{' '}
+        <For each={locations()}>
+          {(location, index) => (
+            <>
+              {index() > 0 && ', '}
+              <a href={`#${location.id}`}>
+                <code>{location.name}</code>
+              </a>
+            </>
+          )}
+        </For>
+      </p>
+    )}
+  </Show>
+)
+
+const DocsElementComponent = (props: { node: TypeElement }) => {
+  const code = () => printDeclaration(props.node).join('\n')
+  const references = () => collectReferences(props.node)
+  return (
+    <Base
+      id={props.node.id}
+      style={{ gap: '10px', 'padding-bottom': '20px', 'border-bottom': '1px solid whitesmoke' }}
+    >
+      <div style={{ display: 'flex', 'align-items': 'baseline', gap: '10px' }}>
+        <h3 style={{ margin: '0px' }}>
+          <a href={`#${props.node.id}`} style={{ color: 'inherit', 'text-decoration': 'none' }}>
+            {getDisplayName(props.node)}
+          </a>
+        </h3>
+        <i style={{ color: 'grey' }}>{kindTitles[props.node.kind]}</i>
+        <Show when={props.node.source}>
+          {source => (
+            <code style={{ color: 'grey' }}>
+              {source().path}:{source().start.line}
+            </code>
+          )}
+        </Show>
+      </div>
+      <Show
+        when={props.node.kind === 'Namespace' && props.node}
+        fallback={
+          <Show
+            when={props.node.kind === 'Function' && props.node.signatures.length > 1 && props.node}
+            fallback={
+              <>
+                <DescriptionComponent jsdoc={props.node.jsdoc} />
+                <Shiki code={code()} references={references()} />
+                <Show when={props.node.kind === 'Function' && props.node}>
+                  {node => <SignatureDetailsComponent signature={node().signatures[0]} />}
+                </Show>
+                <TableComponent table={getMemberTable(props.node)} />
+                <ExamplesComponent jsdoc={props.node.jsdoc} />
+              </>
+            }
+          >
+            {node => (
+              <>
+                {/* overloads each render their own description */}
+                <Shiki code={code()} references={references()} />
+                <For each={node().signatures}>
+                  {(signature, index) => (
+                    <>
+                      <strong>Overload {index() + 1}</strong>
+                      <DescriptionComponent jsdoc={signature.jsdoc} />
+                      <SignatureDetailsComponent signature={signature} />
+                      <ExamplesComponent jsdoc={signature.jsdoc} />
+                    </>
+                  )}
+                </For>
+              </>
+            )}
+          </Show>
+        }
+      >
+        {node => (
+          <>
+            <DescriptionComponent jsdoc={node().jsdoc} />
+            <div style={{ 'border-left': '1px solid lightgrey', 'padding-left': '20px' }}>
+              <For each={node().members}>{member => <DocsElementComponent node={member} />}</For>
+            </div>
+          </>
+        )}
+      </Show>
+      <UsedInDocsComponent id={props.node.id} />
+    </Base>
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Search                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+const searchKinds = Object.keys(typeElementComponents) as TypeElement['kind'][]
+
+const SearchComponent = () => {
+  let input: HTMLInputElement | undefined
+  let list: HTMLUListElement | undefined
+  const [query, setQuery] = createSignal('')
+  const [kinds, setKinds] = createSignal<TypeElement['kind'][]>([])
+  const [selected, setSelected] = createSignal(0)
+  const results = createMemo(() =>
+    search(searchIndex, query(), { kinds: kinds().length > 0 ? kinds() : undefined }),
+  )
+
+  const toggleKind = (kind: TypeElement['kind']) => {
+    setKinds(kinds =>
+      kinds.includes(kind) ? kinds.filter(other => other !== kind) : [...kinds, kind],
+    )
+    setSelected(0)
+  }
+  const navigate = (id: string) => {
+    location.hash = id
+    setQuery('')
+  }
+  const onKeyDown = (event: KeyboardEvent) => {
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault()
+        return setSelected(index => Math.min(index + 1, results().length - 1))
+      case 'ArrowUp':
+        event.preventDefault()
+        return setSelected(index => Math.max(index - 1, 0))
+      case 'Enter': {
+        const result = results()[selected()]
+        if (result) navigate(result.entry.id)
+        return
+      }
+      case 'Escape':
+        setQuery('')
+        return input?.blur()
+    }
+  }
+
+  // `/` focuses the search box from anywhere on the page
+  const onDocumentKeyDown = (event: KeyboardEvent) => {
+    if (event.key !== '/' || event.target instanceof HTMLInputElement) return
+    event.preventDefault()
+    input?.focus()
   }
+  document.addEventListener('keydown', onDocumentKeyDown)
+  onCleanup(() => document.removeEventListener('keydown', onDocumentKeyDown))
+
+  createEffect(() => list?.children[selected()]?.scrollIntoView({ block: 'nearest' }))
+
+  return (
+    <div role="search" style={{ flex: 1, display: 'grid', gap: '10px' }}>
+      <input
+        ref={input}
+        type="search"
+        placeholder="Search (press / to focus)"
+        value={query()}
+        onInput={event => {
+          setQuery(event.currentTarget.value)
+          setSelected(0)
+        }}
+        onKeyDown={onKeyDown}
+        style={{ padding: '5px', font: 'inherit' }}
+      />
+      <div style={{ display: 'flex', gap: '5px', 'flex-wrap': 'wrap' }}>
+        <For each={searchKinds}>
+          {kind => (
+            <button
+              type="button"
+              aria-pressed={kinds().includes(kind)}
+              onClick={() => toggleKind(kind)}
+              style={{
+                cursor: 'pointer',
+                border: '1px solid lightgrey',
+                'border-radius': '10px',
+                background: kinds().includes(kind) ? 'lightgrey' : 'white',
+              }}
+            >
+              {kind}
+            </button>
+          )}
+        </For>
+      </div>
+      <Show when={query().trim()}>
+        <Show when={results().length > 0} fallback={<i style={{ color: 'grey' }}>no results</i>}>
+          <ul
+            ref={list}
+            role="listbox"
+            style={{ margin: '0px', padding: '0px', 'max-height': '50vh', overflow: 'auto' }}
+          >
+            <For each={results()}>
+              {(result, index) => (
+                <li
+                  role="option"
+                  aria-selected={index() === selected()}
+                  onMouseEnter={() => setSelected(index())}
+                  onClick={() => navigate(result.entry.id)}
+                  style={{
+                    display: 'flex',
+                    gap: '10px',
+                    padding: '5px',
+                    cursor: 'pointer',
+                    'list-style': 'none',
+                    background: index() === selected() ? 'whitesmoke' : 'none',
+                  }}
+                >
+                  <code>
+                    {result.entry.parent ? `${result.entry.parent}.` : ''}
+                    {result.entry.name}
+                  </code>
+                  <i style={{ color: 'grey' }}>({result.entry.memberKind || result.entry.kind})</i>
+                  <span
+                    style={{
+                      color: 'grey',
+                      overflow: 'hidden',
+                      'text-overflow': 'ellipsis',
+                      'white-space': 'nowrap',
+                    }}
+                  >
+                    {result.entry.description?.split('\n')[0]}
+                  </span>
+                </li>
+              )}
+            </For>
+          </ul>
+        </Show>
+      </Show>
+    </div>
+  )
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                       App                                      */
+/*                                                                                */
+/**********************************************************************************/
+
+type View = 'docs' | 'debug'
+
+const ViewToggle = (props: { view: View; onChange: (view: View) => void }) => (
+  <div style={{ display: 'flex', gap: '5px' }}>
+    <For each={['docs', 'debug'] as const}>
+      {view => (
+        <button
+          type="button"
+          aria-pressed={props.view === view}
+          onClick={() => props.onChange(view)}
+          style={{
+            cursor: 'pointer',
+            border: '1px solid lightgrey',
+            background: props.view === view ? 'lightgrey' : 'white',
+          }}
+        >
+          {view === 'docs' ? 'Docs' : 'Debug'}
+        </button>
+      )}
+    </For>
+  </div>
+)
+
+const App: Component = () => {
+  // the structural view is for debugging the parser, the docs view for reading the API
+  const [view, setView] = createSignal<View>(
+    localStorage.getItem('readmi:view') === 'debug' ? 'debug' : 'docs',
+  )
+  createEffect(() => localStorage.setItem('readmi:view', view()))
 
   return (
-    <Base style={{ padding: '20px' }}>
-      <For each={data}>{value => <Dynamic component={components[value.kind]} node={value} />}</For>
+    <Base style={{ padding: '0px 20px 20px' }}>
+      <header
+        style={{
+          position: 'sticky',
+          top: '0px',
+          'z-index': 1,
+          display: 'flex',
+          'align-items': 'flex-start',
+          gap: '20px',
+          padding: '20px 0px',
+          background: 'white',
+          'border-bottom': '1px solid lightgrey',
+        }}
+      >
+        <SearchComponent />
+        <ViewToggle view={view()} onChange={setView} />
+      </header>
+      <Show
+        when={view() === 'docs'}
+        fallback={<For each={data}>{value => <TypeElementComponent node={value} />}</For>}
+      >
+        <For each={data}>{value => <DocsElementComponent node={value} />}</For>
+      </Show>
     </Base>
   )
 }
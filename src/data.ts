@@ -1,4 +1,4 @@
-import type {Type} from "@bigmistqke/readmi";
+import type {ReferenceIndex, SearchIndex, TypeElement} from "@bigmistqke/readmi";
 export default [
   {
     "kind": "TypeAlias",
@@ -28,7 +28,22 @@ export default [
         }
       ]
     },
-    "literal": "TupleType = [\n    \"hello\",\n    \"world\"\n];"
+    "literal": "TupleType = [\n    'hello',\n    'world'\n];",
+    "id": "src/test/test:TypeAlias:TupleType",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 5,
+        "column": 1
+      },
+      "end": {
+        "line": 5,
+        "column": 43
+      }
+    },
+    "exportName": "TupleType",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "TypeAlias",
@@ -55,11 +70,433 @@ export default [
       "types": [
         {
           "kind": "TypeReference",
+          "literal": "T",
+          "name": "T"
+        }
+      ]
+    },
+    "literal": "TupleTypeWithGeneric<T> = [\n    T\n];",
+    "id": "src/test/test:TypeAlias:TupleTypeWithGeneric",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 12,
+        "column": 1
+      },
+      "end": {
+        "line": 12,
+        "column": 42
+      }
+    },
+    "exportName": "TupleTypeWithGeneric",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestNamedTuple",
+    "jsdoc": {
+      "description": [
+        "Tests a tuple with named, optional and rest members."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "typeAnnotation": {
+      "kind": "Tuple",
+      "literal": "TestNamedTuple",
+      "types": [
+        {
+          "kind": "NamedTupleMember",
+          "literal": "name: string",
+          "name": "name",
+          "type": {
+            "kind": "PrimitiveType",
+            "literal": "string"
+          }
+        },
+        {
+          "kind": "NamedTupleMember",
+          "literal": "age?: number",
+          "name": "age",
+          "isOptional": true,
+          "type": {
+            "kind": "PrimitiveType",
+            "literal": "number"
+          }
+        },
+        {
+          "kind": "NamedTupleMember",
+          "literal": "...tags: string[]",
+          "name": "tags",
+          "isRest": true,
+          "type": {
+            "kind": "Array",
+            "literal": "string[]",
+            "elementType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            }
+          }
+        }
+      ]
+    },
+    "literal": "TestNamedTuple = [\n    name: string,\n    age?: number,\n    ...tags: string[]\n];",
+    "id": "src/test/test:TypeAlias:TestNamedTuple",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 18,
+        "column": 1
+      },
+      "end": {
+        "line": 18,
+        "column": 77
+      }
+    },
+    "exportName": "TestNamedTuple",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestOptionalTuple",
+    "jsdoc": {
+      "description": [
+        "Tests a tuple with unnamed optional and rest members."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "typeAnnotation": {
+      "kind": "Tuple",
+      "literal": "TestOptionalTuple",
+      "types": [
+        {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        {
+          "kind": "Optional",
+          "literal": "number?",
+          "type": {
+            "kind": "PrimitiveType",
+            "literal": "number"
+          }
+        },
+        {
+          "kind": "Rest",
+          "literal": "...boolean[]",
+          "type": {
+            "kind": "Array",
+            "literal": "boolean[]",
+            "elementType": {
+              "kind": "PrimitiveType",
+              "literal": "boolean"
+            }
+          }
+        }
+      ]
+    },
+    "literal": "TestOptionalTuple = [\n    string,\n    number?,\n    ...boolean[]\n];",
+    "id": "src/test/test:TypeAlias:TestOptionalTuple",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 24,
+        "column": 1
+      },
+      "end": {
+        "line": 24,
+        "column": 64
+      }
+    },
+    "exportName": "TestOptionalTuple",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestMappedType",
+    "jsdoc": {
+      "description": [
+        "Tests a mapped type over the keys of a type, with modifiers and key remapping."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "generics": [
+      {
+        "name": "T"
+      }
+    ],
+    "typeAnnotation": {
+      "kind": "Mapped",
+      "literal": "TestMappedType<T>",
+      "typeParameter": "K",
+      "constraint": {
+        "kind": "TypeOperator",
+        "literal": "keyof T",
+        "operator": "keyof",
+        "type": {
+          "kind": "TypeReference",
+          "literal": "T",
           "name": "T"
         }
+      },
+      "nameType": {
+        "kind": "TemplateLiteral",
+        "literal": "`get${Capitalize<K & string>}`",
+        "head": "get",
+        "spans": [
+          {
+            "type": {
+              "kind": "TypeReference",
+              "literal": "Capitalize<K & string>",
+              "name": "Capitalize",
+              "parameters": [
+                {
+                  "kind": "Intersection",
+                  "literal": "K & string",
+                  "types": [
+                    {
+                      "kind": "TypeReference",
+                      "literal": "K",
+                      "name": "K"
+                    },
+                    {
+                      "kind": "PrimitiveType",
+                      "literal": "string"
+                    }
+                  ]
+                }
+              ]
+            },
+            "text": ""
+          }
+        ]
+      },
+      "type": {
+        "kind": "FunctionType",
+        "literal": "() => T[K]",
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "IndexedAccess",
+              "literal": "T[K]",
+              "objectType": {
+                "kind": "TypeReference",
+                "literal": "T",
+                "name": "T"
+              },
+              "indexType": {
+                "kind": "TypeReference",
+                "literal": "K",
+                "name": "K"
+              }
+            }
+          }
+        ]
+      },
+      "readonlyModifier": "-",
+      "optionalModifier": "+"
+    },
+    "literal": "TestMappedType<T> = {\n    -readonly [K in keyof T as `get${Capitalize<K & string>}`]+?: () => T[K];\n};",
+    "id": "src/test/test:TypeAlias:TestMappedType",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 30,
+        "column": 1
+      },
+      "end": {
+        "line": 32,
+        "column": 2
+      }
+    },
+    "exportName": "TestMappedType",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestConditionalType",
+    "jsdoc": {
+      "description": [
+        "Tests a conditional type that infers the element of an array."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "generics": [
+      {
+        "name": "T"
+      }
+    ],
+    "typeAnnotation": {
+      "kind": "Conditional",
+      "literal": "TestConditionalType<T>",
+      "checkType": {
+        "kind": "TypeReference",
+        "literal": "T",
+        "name": "T"
+      },
+      "extendsType": {
+        "kind": "TypeOperator",
+        "literal": "readonly U[]",
+        "operator": "readonly",
+        "type": {
+          "kind": "Array",
+          "literal": "readonly U[]",
+          "elementType": {
+            "kind": "Parenthesized",
+            "literal": "(infer U extends string)",
+            "type": {
+              "kind": "Infer",
+              "literal": "infer U extends string",
+              "name": "U",
+              "constraint": {
+                "kind": "PrimitiveType",
+                "literal": "string"
+              }
+            }
+          }
+        }
+      },
+      "trueType": {
+        "kind": "TypeReference",
+        "literal": "U",
+        "name": "U"
+      },
+      "falseType": {
+        "kind": "PrimitiveType",
+        "literal": "never"
+      }
+    },
+    "literal": "TestConditionalType<T> = T extends readonly (infer U extends string)[] ? U : never;",
+    "id": "src/test/test:TypeAlias:TestConditionalType",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 38,
+        "column": 1
+      },
+      "end": {
+        "line": 38,
+        "column": 95
+      }
+    },
+    "exportName": "TestConditionalType",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestTemplateLiteralType",
+    "jsdoc": {
+      "description": [
+        "Tests a template literal type."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "typeAnnotation": {
+      "kind": "TemplateLiteral",
+      "literal": "\"readmi-start\" | \"readmi-end\"",
+      "head": "readmi-",
+      "spans": [
+        {
+          "type": {
+            "kind": "Union",
+            "literal": "\"start\" | \"end\"",
+            "types": [
+              {
+                "kind": "PrimitiveType",
+                "literal": "\"start\""
+              },
+              {
+                "kind": "PrimitiveType",
+                "literal": "\"end\""
+              }
+            ]
+          },
+          "text": ""
+        }
+      ]
+    },
+    "literal": "TestTemplateLiteralType = `readmi-${'start' | 'end'}`;",
+    "id": "src/test/test:TypeAlias:TestTemplateLiteralType",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 44,
+        "column": 1
+      },
+      "end": {
+        "line": 44,
+        "column": 66
+      }
+    },
+    "exportName": "TestTemplateLiteralType",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestTypeQuery",
+    "jsdoc": {
+      "description": [
+        "Tests a type query of a value."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
       ]
     },
-    "literal": "TupleTypeWithGeneric<T> = [\n    T\n];"
+    "typeAnnotation": {
+      "kind": "TypeQuery",
+      "literal": "typeof testSimpleNumericType",
+      "name": "testSimpleNumericType"
+    },
+    "literal": "TestTypeQuery = typeof testSimpleNumericType;",
+    "id": "src/test/test:TypeAlias:TestTypeQuery",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 50,
+        "column": 1
+      },
+      "end": {
+        "line": 50,
+        "column": 57
+      }
+    },
+    "exportName": "TestTypeQuery",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Variable",
@@ -79,7 +516,51 @@ export default [
     "typeAnnotation": {
       "kind": "PrimitiveType",
       "literal": "number"
-    }
+    },
+    "id": "src/test/test:Variable:testSimpleNumericType",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 56,
+        "column": 14
+      },
+      "end": {
+        "line": 56,
+        "column": 48
+      }
+    },
+    "exportName": "testSimpleNumericType",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Variable",
+    "name": "testConstInitializer",
+    "jsdoc": {
+      "description": [
+        "Tests a `const` declaration without a type annotation, whose literal type is resolved by the checker."
+      ]
+    },
+    "literal": "testConstInitializer: \"readmi\"",
+    "typeAnnotation": {
+      "kind": "PrimitiveType",
+      "literal": "\"readmi\""
+    },
+    "id": "src/test/test:Variable:testConstInitializer",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 61,
+        "column": 14
+      },
+      "end": {
+        "line": 61,
+        "column": 45
+      }
+    },
+    "exportName": "testConstInitializer",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Variable",
@@ -122,7 +603,19 @@ export default [
             "description": [
               "Ensures string types are handled correctly."
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 71,
+              "column": 5
+            },
+            "end": {
+              "line": 71,
+              "column": 16
+            }
+          },
+          "id": "src/test/test:Variable:testObjectWithJSDocProperties#property:id"
         },
         {
           "name": "isActive",
@@ -134,10 +627,37 @@ export default [
             "description": [
               "Validates boolean type parsing."
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 72,
+              "column": 5
+            },
+            "end": {
+              "line": 72,
+              "column": 23
+            }
+          },
+          "id": "src/test/test:Variable:testObjectWithJSDocProperties#property:isActive"
         }
       ]
-    }
+    },
+    "id": "src/test/test:Variable:testObjectWithJSDocProperties",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 70,
+        "column": 14
+      },
+      "end": {
+        "line": 73,
+        "column": 2
+      }
+    },
+    "exportName": "testObjectWithJSDocProperties",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Variable",
@@ -168,7 +688,19 @@ export default [
             "description": [
               "Describes the name of a product"
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 82,
+              "column": 3
+            },
+            "end": {
+              "line": 82,
+              "column": 15
+            }
+          },
+          "id": "src/test/test:Variable:testObjectWithInlinedJSDoc#property:name"
         },
         {
           "name": "price",
@@ -180,10 +712,37 @@ export default [
             "description": [
               "Specifies the price of the product"
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 84,
+              "column": 3
+            },
+            "end": {
+              "line": 84,
+              "column": 16
+            }
+          },
+          "id": "src/test/test:Variable:testObjectWithInlinedJSDoc#property:price"
         }
       ]
-    }
+    },
+    "id": "src/test/test:Variable:testObjectWithInlinedJSDoc",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 80,
+        "column": 14
+      },
+      "end": {
+        "line": 88,
+        "column": 2
+      }
+    },
+    "exportName": "testObjectWithInlinedJSDoc",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "TypeAlias",
@@ -206,17 +765,44 @@ export default [
           "name": "id",
           "typeAnnotation": {
             "kind": "TypeReference",
+            "literal": "T",
             "name": "T"
           },
           "jsdoc": {
             "description": [
               "Property id is of type T"
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 97,
+              "column": 3
+            },
+            "end": {
+              "line": 97,
+              "column": 8
+            }
+          },
+          "id": "src/test/test:TypeAlias:ObjectTypeWithGeneric#property:id"
         }
       ]
     },
-    "literal": "ObjectTypeWithGeneric<T> = {\n    id: T;\n};"
+    "literal": "type ObjectTypeWithGeneric<T> = {\n    id: T;\n};",
+    "id": "src/test/test:TypeAlias:ObjectTypeWithGeneric",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 93,
+        "column": 1
+      },
+      "end": {
+        "line": 98,
+        "column": 2
+      }
+    },
+    "visibility": "internal",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Variable",
@@ -224,14 +810,49 @@ export default [
     "literal": "testObjectWithGeneric: ObjectTypeWithGeneric<string>",
     "typeAnnotation": {
       "kind": "TypeReference",
+      "literal": "ObjectTypeWithGeneric<string>",
       "name": "ObjectTypeWithGeneric",
+      "targetId": "src/test/test:TypeAlias:ObjectTypeWithGeneric",
       "parameters": [
         {
           "kind": "PrimitiveType",
           "literal": "string"
         }
-      ]
-    }
+      ],
+      "expanded": {
+        "kind": "TypeLiteral",
+        "literal": "{ id: string; }",
+        "members": [
+          {
+            "name": "id",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Property id is of type T"
+              ]
+            }
+          }
+        ]
+      }
+    },
+    "id": "src/test/test:Variable:testObjectWithGeneric",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 100,
+        "column": 14
+      },
+      "end": {
+        "line": 102,
+        "column": 2
+      }
+    },
+    "exportName": "testObjectWithGeneric",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Variable",
@@ -297,7 +918,19 @@ export default [
               "Describes the name of a product, verifying inline comment parsing.",
               "Describes the name of a product"
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 120,
+              "column": 3
+            },
+            "end": {
+              "line": 120,
+              "column": 15
+            }
+          },
+          "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:name"
         },
         {
           "name": "price",
@@ -320,7 +953,19 @@ export default [
               "Specifies the price of the product, demonstrating how numeric types are documented.",
               "Specifies the price of the product"
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 127,
+              "column": 3
+            },
+            "end": {
+              "line": 127,
+              "column": 16
+            }
+          },
+          "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:price"
         },
         {
           "name": "id",
@@ -332,7 +977,19 @@ export default [
             "description": [
               "Ensures string types are handled correctly through explicit JSDoc tags."
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 128,
+              "column": 3
+            },
+            "end": {
+              "line": 128,
+              "column": 13
+            }
+          },
+          "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:id"
         },
         {
           "name": "isActive",
@@ -344,24 +1001,333 @@ export default [
             "description": [
               "Validates boolean type parsing with explicit JSDoc tags."
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 129,
+              "column": 3
+            },
+            "end": {
+              "line": 129,
+              "column": 20
+            }
+          },
+          "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:isActive"
         }
       ]
-    }
+    },
+    "id": "src/test/test:Variable:testCombinedObjectJSDoc",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 113,
+        "column": 14
+      },
+      "end": {
+        "line": 135,
+        "column": 2
+      }
+    },
+    "exportName": "testCombinedObjectJSDoc",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Variable",
+    "name": "testPropertyTags",
+    "jsdoc": {
+      "description": [
+        "Tests `@property` tags with union types, optional and defaulted names, nested paths and comments\nwithout a hyphen."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        },
+        {
+          "tagName": "property",
+          "comment": "The identifier of the request.",
+          "name": "id",
+          "literal": "string | number"
+        },
+        {
+          "tagName": "property",
+          "comment": "How often the request is retried.",
+          "name": "retries",
+          "literal": "number",
+          "isOptional": true,
+          "defaultValue": "3"
+        },
+        {
+          "tagName": "property",
+          "comment": "The options of the request.",
+          "name": "options",
+          "literal": "Object"
+        },
+        {
+          "tagName": "property",
+          "comment": "The timeout in milliseconds.",
+          "name": "options.timeout",
+          "literal": "number",
+          "isOptional": true
+        }
+      ]
+    },
+    "literal": "testPropertyTags: {\n    id: string | number;\n    retries?: number;\n    options: {\n        timeout?: number;\n    };\n}",
+    "typeAnnotation": {
+      "kind": "TypeLiteral",
+      "literal": "{ id: string | number; retries?: number; options: { timeout?: number; }; }",
+      "members": [
+        {
+          "name": "id",
+          "typeAnnotation": {
+            "kind": "Union",
+            "literal": "string | number",
+            "types": [
+              {
+                "kind": "PrimitiveType",
+                "literal": "string"
+              },
+              {
+                "kind": "PrimitiveType",
+                "literal": "number"
+              }
+            ]
+          },
+          "jsdoc": {
+            "description": [
+              "The identifier of the request."
+            ]
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 147,
+              "column": 3
+            },
+            "end": {
+              "line": 147,
+              "column": 22
+            }
+          },
+          "id": "src/test/test:Variable:testPropertyTags#property:id"
+        },
+        {
+          "name": "retries",
+          "typeAnnotation": {
+            "kind": "PrimitiveType",
+            "literal": "number"
+          },
+          "jsdoc": {
+            "description": [
+              "How often the request is retried."
+            ]
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 148,
+              "column": 3
+            },
+            "end": {
+              "line": 148,
+              "column": 19
+            }
+          },
+          "id": "src/test/test:Variable:testPropertyTags#property:retries"
+        },
+        {
+          "name": "options",
+          "typeAnnotation": {
+            "kind": "TypeLiteral",
+            "literal": "{ timeout?: number; }",
+            "members": [
+              {
+                "name": "timeout",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "number"
+                },
+                "jsdoc": {
+                  "description": [
+                    "The timeout in milliseconds."
+                  ]
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 150,
+                    "column": 5
+                  },
+                  "end": {
+                    "line": 150,
+                    "column": 21
+                  }
+                },
+                "id": "src/test/test:Variable:testPropertyTags#property:options.property:timeout"
+              }
+            ]
+          },
+          "jsdoc": {
+            "description": [
+              "The options of the request."
+            ]
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 149,
+              "column": 3
+            },
+            "end": {
+              "line": 151,
+              "column": 4
+            }
+          },
+          "id": "src/test/test:Variable:testPropertyTags#property:options"
+        }
+      ]
+    },
+    "id": "src/test/test:Variable:testPropertyTags",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 146,
+        "column": 14
+      },
+      "end": {
+        "line": 155,
+        "column": 2
+      }
+    },
+    "exportName": "testPropertyTags",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Variable",
     "name": "destructuringProperty",
     "jsdoc": {
       "description": [
-        "Tests destructuring assignments where the object being destructured has its own JSDoc comments.\nVerifies whether the comments are maintained or lost upon destructuring."
+        "Tests destructuring assignments where the object being destructured has its own JSDoc comments.\nVerifies whether the comments are maintained or lost upon destructuring.\n\nThe property that is being destructured."
       ]
     },
     "literal": "destructuringProperty: string",
     "typeAnnotation": {
       "kind": "PrimitiveType",
       "literal": "string"
-    }
+    },
+    "id": "src/test/test:Variable:destructuringProperty",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 166,
+        "column": 14
+      },
+      "end": {
+        "line": 166,
+        "column": 43
+      }
+    },
+    "exportName": "destructuringProperty",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Function",
+    "name": "testDestructuredGetter",
+    "signatures": [
+      {
+        "parameters": [],
+        "returnType": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "jsdoc": {
+          "description": [
+            "Tests array destructuring, where every bound identifier is documented as its own declaration."
+          ]
+        }
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests array destructuring, where every bound identifier is documented as its own declaration."
+      ]
+    },
+    "id": "src/test/test:Function:testDestructuredGetter",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 171,
+        "column": 15
+      },
+      "end": {
+        "line": 171,
+        "column": 51
+      }
+    },
+    "exportName": "testDestructuredGetter",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Function",
+    "name": "testDestructuredSetter",
+    "signatures": [
+      {
+        "parameters": [
+          {
+            "name": "value",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 171,
+                "column": 64
+              },
+              "end": {
+                "line": 173,
+                "column": 17
+              }
+            }
+          }
+        ],
+        "returnType": {
+          "kind": "PrimitiveType",
+          "literal": "void"
+        },
+        "jsdoc": {
+          "description": [
+            "Tests array destructuring, where every bound identifier is documented as its own declaration."
+          ]
+        }
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests array destructuring, where every bound identifier is documented as its own declaration."
+      ]
+    },
+    "id": "src/test/test:Function:testDestructuredSetter",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 171,
+        "column": 39
+      },
+      "end": {
+        "line": 173,
+        "column": 26
+      }
+    },
+    "exportName": "testDestructuredSetter",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "TypeAlias",
@@ -380,7 +1346,19 @@ export default [
             "description": [
               "Documents a product's name within a type alias"
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 180,
+              "column": 3
+            },
+            "end": {
+              "line": 180,
+              "column": 15
+            }
+          },
+          "id": "src/test/test:TypeAlias:Product#property:name"
         },
         {
           "name": "price",
@@ -392,11 +1370,37 @@ export default [
             "description": [
               "Documents a product's price within a type alias"
             ]
-          }
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 182,
+              "column": 3
+            },
+            "end": {
+              "line": 182,
+              "column": 16
+            }
+          },
+          "id": "src/test/test:TypeAlias:Product#property:price"
         }
       ]
     },
-    "literal": "Product = {\n    name: string;\n    price: number;\n};"
+    "literal": "type Product = {\n    name: string;\n    price: number;\n};",
+    "id": "src/test/test:TypeAlias:Product",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 178,
+        "column": 1
+      },
+      "end": {
+        "line": 183,
+        "column": 2
+      }
+    },
+    "visibility": "internal",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Variable",
@@ -415,14 +1419,73 @@ export default [
     "literal": "testProductTypeAlias: Product",
     "typeAnnotation": {
       "kind": "TypeReference",
-      "name": "Product"
-    }
+      "literal": "Product",
+      "name": "Product",
+      "targetId": "src/test/test:TypeAlias:Product",
+      "expanded": {
+        "kind": "TypeLiteral",
+        "literal": "{ name: string; price: number; }",
+        "members": [
+          {
+            "name": "name",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Documents a product's name within a type alias"
+              ]
+            }
+          },
+          {
+            "name": "price",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "number"
+            },
+            "jsdoc": {
+              "description": [
+                "Documents a product's price within a type alias"
+              ]
+            }
+          }
+        ]
+      }
+    },
+    "id": "src/test/test:Variable:testProductTypeAlias",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 190,
+        "column": 14
+      },
+      "end": {
+        "line": 193,
+        "column": 2
+      }
+    },
+    "exportName": "testProductTypeAlias",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
-    "kind": "Function",
-    "name": "testCreatingSimpleObject",
-    "arguments": [],
-    "returnType": {
+    "kind": "TypeAlias",
+    "name": "SimpleObject",
+    "jsdoc": {
+      "description": [
+        "Tests constructing a type alias from a `@typedef` tag and its `@property` tags."
+      ],
+      "tags": [
+        {
+          "tagName": "property",
+          "comment": "The property of the simple object.",
+          "name": "property",
+          "literal": "string"
+        }
+      ]
+    },
+    "typeAnnotation": {
       "kind": "TypeLiteral",
       "literal": "{ property: string; }",
       "members": [
@@ -431,12 +1494,144 @@ export default [
           "typeAnnotation": {
             "kind": "PrimitiveType",
             "literal": "string"
-          }
+          },
+          "jsdoc": {
+            "description": [
+              "The property of the simple object."
+            ]
+          },
+          "id": "src/test/test:TypeAlias:SimpleObject#property:property"
         }
       ]
     },
-    "jsdoc": {
-      "description": [
+    "literal": "type SimpleObject = { property: string; }",
+    "id": "src/test/test:TypeAlias:SimpleObject",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 197,
+        "column": 4
+      },
+      "end": {
+        "line": 199,
+        "column": 2
+      }
+    },
+    "exportName": "SimpleObject",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestCallback",
+    "jsdoc": {
+      "description": [
+        "Tests constructing a function type alias from a `@callback` tag."
+      ]
+    },
+    "typeAnnotation": {
+      "kind": "FunctionType",
+      "literal": "(value: string) => boolean",
+      "signatures": [
+        {
+          "parameters": [
+            {
+              "name": "value",
+              "typeAnnotation": {
+                "kind": "PrimitiveType",
+                "literal": "string"
+              },
+              "jsdoc": {
+                "description": [
+                  "The value passed to the callback."
+                ]
+              }
+            }
+          ],
+          "returnType": {
+            "kind": "PrimitiveType",
+            "literal": "boolean"
+          },
+          "returns": {
+            "description": [
+              "Whether the value was accepted."
+            ]
+          }
+        }
+      ]
+    },
+    "literal": "type TestCallback = (value: string) => boolean",
+    "id": "src/test/test:TypeAlias:TestCallback",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 203,
+        "column": 4
+      },
+      "end": {
+        "line": 206,
+        "column": 2
+      }
+    },
+    "exportName": "TestCallback",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Function",
+    "name": "testCreatingSimpleObject",
+    "signatures": [
+      {
+        "parameters": [],
+        "returnType": {
+          "kind": "TypeLiteral",
+          "literal": "{ property: string; }",
+          "members": [
+            {
+              "name": "property",
+              "typeAnnotation": {
+                "kind": "PrimitiveType",
+                "literal": "string"
+              },
+              "source": {
+                "path": "src/test/test.ts",
+                "start": {
+                  "line": 217,
+                  "column": 5
+                },
+                "end": {
+                  "line": 217,
+                  "column": 22
+                }
+              }
+            }
+          ]
+        },
+        "returns": {
+          "description": [
+            "Demonstrates returning a structured object with predefined typedef."
+          ]
+        },
+        "jsdoc": {
+          "description": [
+            "Tests defining and returning a custom object type using a function with a JSDoc `@returns` tag.\nThis case checks the correct application of typedefs in function return types."
+          ],
+          "tags": [
+            {
+              "tagName": "tag",
+              "comment": "test-case"
+            },
+            {
+              "tagName": "returns",
+              "comment": "Demonstrates returning a structured object with predefined typedef.",
+              "literal": "SimpleObject"
+            }
+          ]
+        }
+      }
+    ],
+    "jsdoc": {
+      "description": [
         "Tests defining and returning a custom object type using a function with a JSDoc `@returns` tag.\nThis case checks the correct application of typedefs in function return types."
       ],
       "tags": [
@@ -450,11 +1645,72 @@ export default [
           "literal": "SimpleObject"
         }
       ]
-    }
+    },
+    "id": "src/test/test:Function:testCreatingSimpleObject",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 214,
+        "column": 1
+      },
+      "end": {
+        "line": 218,
+        "column": 2
+      }
+    },
+    "exportName": "testCreatingSimpleObject",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
-    "kind": "Variable",
+    "kind": "Function",
     "name": "testGenericTypeInference",
+    "signatures": [
+      {
+        "generics": [
+          {
+            "name": "T"
+          }
+        ],
+        "parameters": [
+          {
+            "name": "value",
+            "typeAnnotation": {
+              "kind": "TypeReference",
+              "literal": "T",
+              "name": "T"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 225,
+                "column": 45
+              },
+              "end": {
+                "line": 225,
+                "column": 53
+              }
+            }
+          }
+        ],
+        "returnType": {
+          "kind": "TypeReference",
+          "literal": "T",
+          "name": "T"
+        },
+        "jsdoc": {
+          "description": [
+            "Tests generic type parameter inference within a scoped function that declares a local generic type.\nThis tests the scope handling and type inference capabilities of generics in nested contexts."
+          ],
+          "tags": [
+            {
+              "tagName": "tag",
+              "comment": "test-case"
+            }
+          ]
+        }
+      }
+    ],
     "jsdoc": {
       "description": [
         "Tests generic type parameter inference within a scoped function that declares a local generic type.\nThis tests the scope handling and type inference capabilities of generics in nested contexts."
@@ -466,222 +1722,507 @@ export default [
         }
       ]
     },
-    "literal": "testGenericTypeInference: <T>(value: T) => T",
-    "typeAnnotation": {
-      "kind": "FunctionType",
-      "literal": "<T>(value: T) => T",
-      "arguments": [
-        {
-          "name": "value",
-          "typeAnnotation": {
-            "kind": "TypeReference",
-            "name": "T"
-          }
-        }
-      ],
-      "returnType": {
-        "kind": "TypeReference",
-        "name": "T"
+    "id": "src/test/test:Function:testGenericTypeInference",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 225,
+        "column": 14
       },
-      "generics": [
-        {
-          "name": "T"
-        }
-      ]
-    }
+      "end": {
+        "line": 227,
+        "column": 2
+      }
+    },
+    "exportName": "testGenericTypeInference",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
-    "kind": "Variable",
+    "kind": "Function",
     "name": "testFunctionWithComplexParams",
-    "jsdoc": {
-      "description": [
-        "Tests complex configuration objects with callbacks, focusing on inlined JSDoc comments for deeply\n nested object properties and functions. This ensures detailed documentation within nested structures is parsed and represented accurately."
-      ],
-      "tags": [
-        {
-          "tagName": "tag",
-          "comment": "test-case"
-        }
-      ]
-    },
-    "literal": "testFunctionWithComplexParams: (config: {\n    key: string;\n    value: number;\n    callback: (userInfo: {\n        name: string;\n        age: number;\n    }, settings: Settings) => void;\n}, settings: Settings) => void",
-    "typeAnnotation": {
-      "kind": "FunctionType",
-      "literal": "(config: { key: string; value: number; callback: (userInfo: { name: string; age: number; }, settings: Settings) => void; }, settings: Settings) => void",
-      "arguments": [
-        {
-          "name": "config",
-          "typeAnnotation": {
-            "kind": "TypeLiteral",
-            "literal": "{ key: string; value: number; callback: (userInfo: { name: string; age: number; }, settings: Settings) => void; }",
-            "members": [
-              {
-                "name": "key",
-                "typeAnnotation": {
-                  "kind": "PrimitiveType",
-                  "literal": "string"
+    "signatures": [
+      {
+        "parameters": [
+          {
+            "name": "config",
+            "typeAnnotation": {
+              "kind": "TypeLiteral",
+              "literal": "{ key: string; value: number; callback: (userInfo: { name: string; age: number; }, settings: Settings) => void; }",
+              "members": [
+                {
+                  "name": "key",
+                  "typeAnnotation": {
+                    "kind": "PrimitiveType",
+                    "literal": "string"
+                  },
+                  "jsdoc": {
+                    "description": [
+                      "Key in the configuration object"
+                    ]
+                  },
+                  "source": {
+                    "path": "src/test/test.ts",
+                    "start": {
+                      "line": 237,
+                      "column": 5
+                    },
+                    "end": {
+                      "line": 237,
+                      "column": 16
+                    }
+                  }
                 },
-                "jsdoc": {
-                  "description": [
-                    "Key in the configuration object"
-                  ]
-                }
-              },
-              {
-                "name": "value",
-                "typeAnnotation": {
-                  "kind": "PrimitiveType",
-                  "literal": "number"
+                {
+                  "name": "value",
+                  "typeAnnotation": {
+                    "kind": "PrimitiveType",
+                    "literal": "number"
+                  },
+                  "jsdoc": {
+                    "description": [
+                      "Value associated with the key"
+                    ]
+                  },
+                  "source": {
+                    "path": "src/test/test.ts",
+                    "start": {
+                      "line": 239,
+                      "column": 5
+                    },
+                    "end": {
+                      "line": 239,
+                      "column": 18
+                    }
+                  }
                 },
-                "jsdoc": {
-                  "description": [
-                    "Value associated with the key"
-                  ]
-                }
-              },
-              {
-                "name": "callback",
-                "typeAnnotation": {
-                  "kind": "FunctionType",
-                  "literal": "(userInfo: { name: string; age: number; }, settings: Settings) => void",
-                  "arguments": [
-                    {
-                      "name": "userInfo",
-                      "typeAnnotation": {
-                        "kind": "TypeLiteral",
-                        "literal": "{ name: string; age: number; }",
-                        "members": [
+                {
+                  "name": "callback",
+                  "typeAnnotation": {
+                    "kind": "FunctionType",
+                    "literal": "(userInfo: { name: string; age: number; }, settings: Settings) => void",
+                    "signatures": [
+                      {
+                        "parameters": [
                           {
-                            "name": "name",
-                            "typeAnnotation": {
-                              "kind": "PrimitiveType",
-                              "literal": "string"
-                            },
+                            "name": "userInfo",
                             "jsdoc": {
                               "description": [
-                                "Name of the user"
+                                "User details."
+                              ]
+                            },
+                            "typeAnnotation": {
+                              "kind": "TypeLiteral",
+                              "literal": "{ name: string; age: number; }",
+                              "members": [
+                                {
+                                  "name": "name",
+                                  "typeAnnotation": {
+                                    "kind": "PrimitiveType",
+                                    "literal": "string"
+                                  },
+                                  "jsdoc": {
+                                    "description": [
+                                      "Name of the user"
+                                    ]
+                                  },
+                                  "source": {
+                                    "path": "src/test/test.ts",
+                                    "start": {
+                                      "line": 248,
+                                      "column": 9
+                                    },
+                                    "end": {
+                                      "line": 248,
+                                      "column": 21
+                                    }
+                                  }
+                                },
+                                {
+                                  "name": "age",
+                                  "typeAnnotation": {
+                                    "kind": "PrimitiveType",
+                                    "literal": "number"
+                                  },
+                                  "jsdoc": {
+                                    "description": [
+                                      "Age of the user"
+                                    ]
+                                  },
+                                  "source": {
+                                    "path": "src/test/test.ts",
+                                    "start": {
+                                      "line": 250,
+                                      "column": 9
+                                    },
+                                    "end": {
+                                      "line": 250,
+                                      "column": 20
+                                    }
+                                  }
+                                }
                               ]
+                            },
+                            "source": {
+                              "path": "src/test/test.ts",
+                              "start": {
+                                "line": 246,
+                                "column": 7
+                              },
+                              "end": {
+                                "line": 251,
+                                "column": 8
+                              }
                             }
                           },
                           {
-                            "name": "age",
-                            "typeAnnotation": {
-                              "kind": "PrimitiveType",
-                              "literal": "number"
-                            },
+                            "name": "settings",
                             "jsdoc": {
                               "description": [
-                                "Age of the user"
+                                "User specific settings."
                               ]
+                            },
+                            "typeAnnotation": {
+                              "kind": "TypeReference",
+                              "literal": "Settings",
+                              "name": "Settings",
+                              "targetId": "src/test/test:TypeAlias:Settings",
+                              "expanded": {
+                                "kind": "TypeLiteral",
+                                "literal": "{ theme: string; layout: string; }",
+                                "members": [
+                                  {
+                                    "name": "theme",
+                                    "typeAnnotation": {
+                                      "kind": "PrimitiveType",
+                                      "literal": "string"
+                                    },
+                                    "jsdoc": {
+                                      "description": [
+                                        "Theme setting of the application"
+                                      ]
+                                    }
+                                  },
+                                  {
+                                    "name": "layout",
+                                    "typeAnnotation": {
+                                      "kind": "PrimitiveType",
+                                      "literal": "string"
+                                    },
+                                    "jsdoc": {
+                                      "description": [
+                                        "Layout setting of the application"
+                                      ]
+                                    }
+                                  }
+                                ]
+                              }
+                            },
+                            "source": {
+                              "path": "src/test/test.ts",
+                              "start": {
+                                "line": 252,
+                                "column": 7
+                              },
+                              "end": {
+                                "line": 252,
+                                "column": 25
+                              }
                             }
                           }
-                        ]
+                        ],
+                        "returnType": {
+                          "kind": "PrimitiveType",
+                          "literal": "void"
+                        }
                       }
-                    },
-                    {
-                      "name": "settings",
-                      "typeAnnotation": {
-                        "kind": "TypeReference",
-                        "name": "Settings"
+                    ]
+                  },
+                  "jsdoc": {
+                    "tags": [
+                      {
+                        "tagName": "param",
+                        "comment": "User details.",
+                        "name": "userInfo",
+                        "literal": "{ name: string, age: number }"
+                      },
+                      {
+                        "tagName": "param",
+                        "comment": "User specific settings.",
+                        "name": "settings",
+                        "literal": "Settings"
                       }
+                    ],
+                    "description": [
+                      "Callback function within the configuration object."
+                    ]
+                  },
+                  "source": {
+                    "path": "src/test/test.ts",
+                    "start": {
+                      "line": 245,
+                      "column": 5
+                    },
+                    "end": {
+                      "line": 253,
+                      "column": 14
                     }
-                  ],
-                  "returnType": {
-                    "kind": "PrimitiveType",
-                    "literal": "void"
                   }
-                },
-                "jsdoc": {
-                  "tags": [
-                    {
-                      "tagName": "param",
-                      "comment": "User details.",
-                      "name": "userInfo",
-                      "literal": "{ name: string, age: number }"
+                }
+              ]
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 235,
+                "column": 3
+              },
+              "end": {
+                "line": 254,
+                "column": 4
+              }
+            }
+          },
+          {
+            "name": "settings",
+            "typeAnnotation": {
+              "kind": "TypeReference",
+              "literal": "Settings",
+              "name": "Settings",
+              "targetId": "src/test/test:TypeAlias:Settings",
+              "expanded": {
+                "kind": "TypeLiteral",
+                "literal": "{ theme: string; layout: string; }",
+                "members": [
+                  {
+                    "name": "theme",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "string"
                     },
-                    {
-                      "tagName": "param",
-                      "comment": "User specific settings.",
-                      "name": "settings",
-                      "literal": "Settings"
+                    "jsdoc": {
+                      "description": [
+                        "Theme setting of the application"
+                      ]
                     }
-                  ],
-                  "description": [
-                    "Callback function within the configuration object."
-                  ]
-                }
+                  },
+                  {
+                    "name": "layout",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "string"
+                    },
+                    "jsdoc": {
+                      "description": [
+                        "Layout setting of the application"
+                      ]
+                    }
+                  }
+                ]
               }
-            ]
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 255,
+                "column": 3
+              },
+              "end": {
+                "line": 255,
+                "column": 21
+              }
+            }
           }
+        ],
+        "returnType": {
+          "kind": "PrimitiveType",
+          "literal": "void"
         },
-        {
-          "name": "settings",
-          "typeAnnotation": {
-            "kind": "TypeReference",
-            "name": "Settings"
-          }
+        "jsdoc": {
+          "description": [
+            "Tests complex configuration objects with callbacks, focusing on inlined JSDoc comments for deeply\n nested object properties and functions. This ensures detailed documentation within nested structures is parsed and represented accurately."
+          ],
+          "tags": [
+            {
+              "tagName": "tag",
+              "comment": "test-case"
+            }
+          ]
         }
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests complex configuration objects with callbacks, focusing on inlined JSDoc comments for deeply\n nested object properties and functions. This ensures detailed documentation within nested structures is parsed and represented accurately."
       ],
-      "returnType": {
-        "kind": "PrimitiveType",
-        "literal": "void"
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "id": "src/test/test:Function:testFunctionWithComplexParams",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 234,
+        "column": 14
+      },
+      "end": {
+        "line": 258,
+        "column": 2
       }
-    }
+    },
+    "exportName": "testFunctionWithComplexParams",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
     "kind": "Function",
     "name": "testTraditionalFunctionSyntax",
-    "arguments": [
+    "signatures": [
       {
-        "name": "config",
-        "jsdoc": {
-          "description": [
-            "Inlined jsdoc comment for config"
-          ]
-        },
-        "typeAnnotation": {
-          "kind": "TypeLiteral",
-          "literal": "{ key: string; value: number; }",
-          "members": [
-            {
-              "name": "key",
-              "typeAnnotation": {
-                "kind": "PrimitiveType",
-                "literal": "string"
-              },
-              "jsdoc": {
-                "description": [
-                  "Inlined jsdoc comment for key"
+        "parameters": [
+          {
+            "name": "config",
+            "jsdoc": {
+              "description": [
+                "Inlined jsdoc comment for config"
+              ]
+            },
+            "typeAnnotation": {
+              "kind": "TypeLiteral",
+              "literal": "{ key: string; value: number; }",
+              "members": [
+                {
+                  "name": "key",
+                  "typeAnnotation": {
+                    "kind": "PrimitiveType",
+                    "literal": "string"
+                  },
+                  "jsdoc": {
+                    "description": [
+                      "Inlined jsdoc comment for key"
+                    ]
+                  },
+                  "source": {
+                    "path": "src/test/test.ts",
+                    "start": {
+                      "line": 269,
+                      "column": 5
+                    },
+                    "end": {
+                      "line": 269,
+                      "column": 16
+                    }
+                  }
+                },
+                {
+                  "name": "value",
+                  "typeAnnotation": {
+                    "kind": "PrimitiveType",
+                    "literal": "number"
+                  },
+                  "jsdoc": {
+                    "description": [
+                      "Inlined jsdoc comment for value"
+                    ]
+                  },
+                  "source": {
+                    "path": "src/test/test.ts",
+                    "start": {
+                      "line": 271,
+                      "column": 5
+                    },
+                    "end": {
+                      "line": 271,
+                      "column": 18
+                    }
+                  }
+                }
+              ]
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 267,
+                "column": 3
+              },
+              "end": {
+                "line": 272,
+                "column": 4
+              }
+            }
+          },
+          {
+            "name": "settings",
+            "typeAnnotation": {
+              "kind": "TypeReference",
+              "literal": "Settings",
+              "name": "Settings",
+              "targetId": "src/test/test:TypeAlias:Settings",
+              "expanded": {
+                "kind": "TypeLiteral",
+                "literal": "{ theme: string; layout: string; }",
+                "members": [
+                  {
+                    "name": "theme",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "string"
+                    },
+                    "jsdoc": {
+                      "description": [
+                        "Theme setting of the application"
+                      ]
+                    }
+                  },
+                  {
+                    "name": "layout",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "string"
+                    },
+                    "jsdoc": {
+                      "description": [
+                        "Layout setting of the application"
+                      ]
+                    }
+                  }
                 ]
               }
             },
-            {
-              "name": "value",
-              "typeAnnotation": {
-                "kind": "PrimitiveType",
-                "literal": "number"
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 273,
+                "column": 3
               },
-              "jsdoc": {
-                "description": [
-                  "Inlined jsdoc comment for value"
-                ]
+              "end": {
+                "line": 273,
+                "column": 21
               }
             }
+          }
+        ],
+        "returnType": {
+          "kind": "PrimitiveType",
+          "literal": "void"
+        },
+        "jsdoc": {
+          "description": [
+            "Tests the declaration and implementation of a function using traditional syntax, focusing on parameter\nhandling and JSDoc integration within a conventional function declaration."
+          ],
+          "tags": [
+            {
+              "tagName": "tag",
+              "comment": "test-case-traditional-function-syntax"
+            }
           ]
         }
-      },
-      {
-        "name": "settings",
-        "typeAnnotation": {
-          "kind": "TypeReference",
-          "name": "Settings"
-        }
       }
     ],
-    "returnType": {
-      "kind": "PrimitiveType",
-      "literal": "void"
-    },
     "jsdoc": {
       "description": [
         "Tests the declaration and implementation of a function using traditional syntax, focusing on parameter\nhandling and JSDoc integration within a conventional function declaration."
@@ -692,132 +2233,105 @@ export default [
           "comment": "test-case-traditional-function-syntax"
         }
       ]
-    }
-  },
-  {
-    "kind": "TypeAlias",
-    "name": "Settings",
-    "jsdoc": {
-      "description": [
-        "Tests the documentation of settings using a type alias, emphasizing the detailed property JSDoc within\na type structure to ensure types are not only parsed correctly but also thoroughly documented."
-      ],
-      "tags": [
-        {
-          "tagName": "tag",
-          "comment": "test-case"
-        }
-      ]
     },
-    "typeAnnotation": {
-      "kind": "TypeLiteral",
-      "literal": "Settings",
-      "members": [
-        {
-          "name": "theme",
-          "typeAnnotation": {
-            "kind": "PrimitiveType",
-            "literal": "string"
-          },
-          "jsdoc": {
-            "description": [
-              "Theme setting of the application"
-            ]
-          }
-        },
-        {
-          "name": "layout",
-          "typeAnnotation": {
-            "kind": "PrimitiveType",
-            "literal": "string"
-          },
-          "jsdoc": {
-            "description": [
-              "Layout setting of the application"
-            ]
-          }
-        }
-      ]
+    "id": "src/test/test:Function:testTraditionalFunctionSyntax",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 265,
+        "column": 1
+      },
+      "end": {
+        "line": 276,
+        "column": 2
+      }
     },
-    "literal": "Settings = {\n    theme: string;\n    layout: string;\n};"
+    "exportName": "testTraditionalFunctionSyntax",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
-    "kind": "Class",
-    "name": "TestClassWithPropertiesAndMethods",
-    "isAbstract": false,
-    "members": [
-      {
-        "kind": "Property",
-        "name": "firstName",
-        "jsdoc": {
-          "description": [
-            "Publicly accessible first name of the user"
-          ]
-        },
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "string"
-        }
-      },
+    "kind": "Function",
+    "name": "testOverloadedFunction",
+    "signatures": [
       {
-        "kind": "Constructor",
-        "jsdoc": {
-          "description": [
-            "Constructor that initializes user details."
-          ]
-        },
-        "typeAnnotation": {
+        "parameters": [
+          {
+            "name": "value",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 282,
+                "column": 40
+              },
+              "end": {
+                "line": 282,
+                "column": 53
+              }
+            }
+          }
+        ],
+        "returnType": {
           "kind": "PrimitiveType",
-          "literal": "any"
+          "literal": "number"
         },
-        "parameters": []
-      },
-      {
-        "kind": "Method",
-        "name": "greet",
         "jsdoc": {
           "description": [
-            "Method that greets the user, demonstrating return type documentation."
+            "Tests function overloads: parses a string into a number."
+          ],
+          "tags": [
+            {
+              "tagName": "tag",
+              "comment": "test-case"
+            }
           ]
-        },
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "() => string"
-        },
-        "parameters": []
+        }
       },
       {
-        "kind": "Property",
-        "name": "logDetails",
-        "jsdoc": {
-          "description": [
-            "A private method demonstrating privacy within classes.\nThis method logs a private message."
-          ]
-        },
-        "typeAnnotation": {
+        "parameters": [
+          {
+            "name": "value",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "number"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 287,
+                "column": 40
+              },
+              "end": {
+                "line": 287,
+                "column": 53
+              }
+            }
+          }
+        ],
+        "returnType": {
           "kind": "PrimitiveType",
-          "literal": "any"
+          "literal": "string"
         },
-        "accessModifier": "private"
-      },
-      {
-        "kind": "Method",
-        "name": "getDetails",
         "jsdoc": {
           "description": [
-            "A protected method showing how protected members are handled.\nThis method returns the details in a formatted string."
+            "Tests function overloads: formats a number into a string."
+          ],
+          "tags": [
+            {
+              "tagName": "tag",
+              "comment": "test-case"
+            }
           ]
-        },
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "() => string"
-        },
-        "parameters": [],
-        "accessModifier": "protected"
+        }
       }
     ],
     "jsdoc": {
       "description": [
-        "Tests class declaration capabilities with private and public properties, constructor parameters,\nand method annotations. This test verifies that access modifiers and privacy settings are respected\nand documented accurately."
+        "Tests function overloads: parses a string into a number."
       ],
       "tags": [
         {
@@ -825,175 +2339,4129 @@ export default [
           "comment": "test-case"
         }
       ]
-    }
+    },
+    "id": "src/test/test:Function:testOverloadedFunction",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 282,
+        "column": 1
+      },
+      "end": {
+        "line": 282,
+        "column": 62
+      }
+    },
+    "exportName": "testOverloadedFunction",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
-    "kind": "Class",
-    "name": "AbstractUser",
-    "isAbstract": true,
-    "members": [
-      {
-        "kind": "Property",
-        "name": "name",
-        "jsdoc": {
-          "description": [
-            "The name of the user"
-          ]
-        },
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "string"
-        }
-      },
+    "kind": "Function",
+    "name": "testTypedJsDocTags",
+    "signatures": [
       {
-        "kind": "Constructor",
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "any"
-        },
         "parameters": [
           {
-            "name": "name",
+            "name": "value",
+            "jsdoc": {
+              "description": [
+                "The value to parse, see {@link https://example.com | the spec}."
+              ],
+              "links": [
+                {
+                  "kind": "link",
+                  "target": "https://example.com",
+                  "text": "the spec",
+                  "literal": "{@link https://example.com | the spec}"
+                }
+              ]
+            },
             "typeAnnotation": {
               "kind": "PrimitiveType",
               "literal": "string"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 309,
+                "column": 36
+              },
+              "end": {
+                "line": 309,
+                "column": 49
+              }
+            }
+          },
+          {
+            "name": "radix",
+            "jsdoc": {
+              "description": [
+                "The base of the number."
+              ]
+            },
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "number"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 309,
+                "column": 51
+              },
+              "end": {
+                "line": 309,
+                "column": 65
+              }
             }
           }
-        ]
-      },
-      {
-        "kind": "Method",
-        "name": "greet",
-        "jsdoc": {
-          "description": [
-            "Abstract method to be implemented by subclasses. Must return a greeting message."
-          ]
-        },
-        "typeAnnotation": {
+        ],
+        "returnType": {
           "kind": "PrimitiveType",
-          "literal": "() => string"
+          "literal": "number"
         },
-        "parameters": []
-      },
-      {
-        "kind": "Method",
-        "name": "getName",
-        "jsdoc": {
+        "returns": {
           "description": [
-            "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+            "The parsed number."
           ]
         },
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "() => string"
-        },
-        "parameters": []
-      }
-    ]
-  },
-  {
-    "kind": "Class",
-    "name": "ConcreteUser",
-    "isAbstract": false,
-    "extends": "AbstractUser",
-    "members": [
-      {
-        "kind": "Constructor",
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "any"
-        },
-        "parameters": [
-          {
-            "name": "name",
-            "typeAnnotation": {
-              "kind": "PrimitiveType",
-              "literal": "string"
-            }
-          }
-        ]
-      },
-      {
-        "kind": "Method",
-        "name": "greet",
         "jsdoc": {
           "description": [
-            "Implementation of the abstract greet method."
+            "Tests the typed JSDoc tags, linking to {@link testOverloadedFunction} and\n{@linkcode TestNamespace.version | the namespace version}."
+          ],
+          "tags": [
+            {
+              "tagName": "tag",
+              "comment": "test-case"
+            },
+            {
+              "tagName": "param",
+              "comment": "The value to parse, see {@link https://example.com | the spec}.",
+              "links": [
+                {
+                  "kind": "link",
+                  "target": "https://example.com",
+                  "text": "the spec",
+                  "literal": "{@link https://example.com | the spec}"
+                }
+              ],
+              "name": "value"
+            },
+            {
+              "tagName": "param",
+              "comment": "The base of the number.",
+              "name": "radix",
+              "isOptional": true
+            },
+            {
+              "tagName": "returns",
+              "comment": "The parsed number."
+            },
+            {
+              "tagName": "example",
+              "comment": "Parses a hexadecimal value:\n```ts\ntestTypedJsDocTags('ff', 16)\n```"
+            },
+            {
+              "tagName": "throws",
+              "comment": "When the value is not a number.",
+              "literal": "RangeError"
+            },
+            {
+              "tagName": "deprecated",
+              "comment": "Use {@link testOverloadedFunction} instead.",
+              "links": [
+                {
+                  "kind": "link",
+                  "target": "testOverloadedFunction",
+                  "literal": "{@link testOverloadedFunction}"
+                }
+              ]
+            },
+            {
+              "tagName": "since",
+              "comment": "0.2.0"
+            },
+            {
+              "tagName": "see",
+              "name": "testTraditionalFunctionSyntax"
+            }
+          ],
+          "links": [
+            {
+              "kind": "link",
+              "target": "testOverloadedFunction",
+              "literal": "{@link testOverloadedFunction}"
+            },
+            {
+              "kind": "linkcode",
+              "target": "TestNamespace.version",
+              "text": "the namespace version",
+              "literal": "{@linkcode TestNamespace.version | the namespace version}"
+            }
           ]
-        },
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "() => string"
-        },
-        "parameters": []
+        }
       }
     ],
     "jsdoc": {
       "description": [
-        "Concrete class extending an abstract class, implementing the required abstract method."
+        "Tests the typed JSDoc tags, linking to {@link testOverloadedFunction} and\n{@linkcode TestNamespace.version | the namespace version}."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        },
+        {
+          "tagName": "param",
+          "comment": "The value to parse, see {@link https://example.com | the spec}.",
+          "links": [
+            {
+              "kind": "link",
+              "target": "https://example.com",
+              "text": "the spec",
+              "literal": "{@link https://example.com | the spec}"
+            }
+          ],
+          "name": "value"
+        },
+        {
+          "tagName": "param",
+          "comment": "The base of the number.",
+          "name": "radix",
+          "isOptional": true
+        },
+        {
+          "tagName": "returns",
+          "comment": "The parsed number."
+        },
+        {
+          "tagName": "example",
+          "comment": "Parses a hexadecimal value:\n```ts\ntestTypedJsDocTags('ff', 16)\n```"
+        },
+        {
+          "tagName": "throws",
+          "comment": "When the value is not a number.",
+          "literal": "RangeError"
+        },
+        {
+          "tagName": "deprecated",
+          "comment": "Use {@link testOverloadedFunction} instead.",
+          "links": [
+            {
+              "kind": "link",
+              "target": "testOverloadedFunction",
+              "literal": "{@link testOverloadedFunction}"
+            }
+          ]
+        },
+        {
+          "tagName": "since",
+          "comment": "0.2.0"
+        },
+        {
+          "tagName": "see",
+          "name": "testTraditionalFunctionSyntax"
+        }
+      ],
+      "links": [
+        {
+          "kind": "link",
+          "target": "testOverloadedFunction",
+          "literal": "{@link testOverloadedFunction}"
+        },
+        {
+          "kind": "linkcode",
+          "target": "TestNamespace.version",
+          "text": "the namespace version",
+          "literal": "{@linkcode TestNamespace.version | the namespace version}"
+        }
       ]
-    }
+    },
+    "id": "src/test/test:Function:testTypedJsDocTags",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 309,
+        "column": 1
+      },
+      "end": {
+        "line": 313,
+        "column": 2
+      }
+    },
+    "exportName": "testTypedJsDocTags",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
-    "kind": "Enum",
-    "name": "TestLogLevel",
-    "members": [
+    "kind": "Function",
+    "name": "testSeeTagWithoutComment",
+    "signatures": [
       {
-        "name": "ERROR",
-        "value": 0,
-        "typeAnnotation": {
+        "parameters": [],
+        "returnType": {
           "kind": "PrimitiveType",
-          "literal": "number"
+          "literal": "void"
+        },
+        "jsdoc": {
+          "description": [
+            "Tests a `@see` tag with a name only, followed by another tag."
+          ],
+          "tags": [
+            {
+              "tagName": "see",
+              "name": "testTypedJsDocTags"
+            },
+            {
+              "tagName": "since",
+              "comment": "0.3.0"
+            }
+          ]
         }
-      },
-      {
-        "name": "WARN",
-        "value": 1,
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "number"
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests a `@see` tag with a name only, followed by another tag."
+      ],
+      "tags": [
+        {
+          "tagName": "see",
+          "name": "testTypedJsDocTags"
+        },
+        {
+          "tagName": "since",
+          "comment": "0.3.0"
         }
+      ]
+    },
+    "id": "src/test/test:Function:testSeeTagWithoutComment",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 320,
+        "column": 1
       },
-      {
-        "name": "INFO",
-        "value": 2,
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "number"
+      "end": {
+        "line": 320,
+        "column": 46
+      }
+    },
+    "exportName": "testSeeTagWithoutComment",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "TypeAlias",
+    "name": "TestOverloadedCallSignatures",
+    "jsdoc": {
+      "description": [
+        "Tests a type literal consisting of overloaded call signatures."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
         }
-      },
-      {
-        "name": "DEBUG",
-        "value": 3,
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "number"
+      ]
+    },
+    "typeAnnotation": {
+      "kind": "FunctionType",
+      "literal": "TestOverloadedCallSignatures",
+      "signatures": [
+        {
+          "parameters": [
+            {
+              "name": "value",
+              "typeAnnotation": {
+                "kind": "PrimitiveType",
+                "literal": "string"
+              },
+              "source": {
+                "path": "src/test/test.ts",
+                "start": {
+                  "line": 328,
+                  "column": 4
+                },
+                "end": {
+                  "line": 328,
+                  "column": 17
+                }
+              }
+            }
+          ],
+          "returnType": {
+            "kind": "PrimitiveType",
+            "literal": "string"
+          },
+          "jsdoc": {
+            "description": [
+              "Called with a string"
+            ]
+          }
+        },
+        {
+          "parameters": [
+            {
+              "name": "value",
+              "typeAnnotation": {
+                "kind": "PrimitiveType",
+                "literal": "number"
+              },
+              "source": {
+                "path": "src/test/test.ts",
+                "start": {
+                  "line": 330,
+                  "column": 4
+                },
+                "end": {
+                  "line": 330,
+                  "column": 17
+                }
+              }
+            }
+          ],
+          "returnType": {
+            "kind": "PrimitiveType",
+            "literal": "number"
+          },
+          "jsdoc": {
+            "description": [
+              "Called with a number"
+            ]
+          }
         }
+      ]
+    },
+    "literal": "TestOverloadedCallSignatures = {\n    (value: string): string;\n    (value: number): number;\n};",
+    "id": "src/test/test:TypeAlias:TestOverloadedCallSignatures",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 326,
+        "column": 1
+      },
+      "end": {
+        "line": 331,
+        "column": 2
       }
-    ]
+    },
+    "exportName": "TestOverloadedCallSignatures",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
   },
   {
-    "kind": "Function",
-    "name": "testFunctionUsingEnum",
-    "arguments": [
-      {
-        "name": "level",
-        "typeAnnotation": {
-          "kind": "TypeReference",
-          "name": "TestLogLevel"
+    "kind": "TypeAlias",
+    "name": "Settings",
+    "jsdoc": {
+      "description": [
+        "Tests the documentation of settings using a type alias, emphasizing the detailed property JSDoc within\na type structure to ensure types are not only parsed correctly but also thoroughly documented."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
         }
-      },
-      {
-        "name": "message",
-        "typeAnnotation": {
-          "kind": "PrimitiveType",
-          "literal": "string"
+      ]
+    },
+    "typeAnnotation": {
+      "kind": "TypeLiteral",
+      "literal": "Settings",
+      "members": [
+        {
+          "name": "theme",
+          "typeAnnotation": {
+            "kind": "PrimitiveType",
+            "literal": "string"
+          },
+          "jsdoc": {
+            "description": [
+              "Theme setting of the application"
+            ]
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 340,
+              "column": 3
+            },
+            "end": {
+              "line": 340,
+              "column": 16
+            }
+          },
+          "id": "src/test/test:TypeAlias:Settings#property:theme"
+        },
+        {
+          "name": "layout",
+          "typeAnnotation": {
+            "kind": "PrimitiveType",
+            "literal": "string"
+          },
+          "jsdoc": {
+            "description": [
+              "Layout setting of the application"
+            ]
+          },
+          "source": {
+            "path": "src/test/test.ts",
+            "start": {
+              "line": 342,
+              "column": 3
+            },
+            "end": {
+              "line": 342,
+              "column": 17
+            }
+          },
+          "id": "src/test/test:TypeAlias:Settings#property:layout"
         }
+      ]
+    },
+    "literal": "Settings = {\n    theme: string;\n    layout: string;\n};",
+    "id": "src/test/test:TypeAlias:Settings",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 338,
+        "column": 1
+      },
+      "end": {
+        "line": 343,
+        "column": 2
       }
-    ],
-    "returnType": {
-      "kind": "PrimitiveType",
-      "literal": "void"
-    }
+    },
+    "exportName": "Settings",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Interface",
+    "name": "TestBaseInterface",
+    "jsdoc": {
+      "description": [
+        "Base interface to test the heritage clauses of interface declarations."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "members": [
+      {
+        "kind": "Property",
+        "name": "createdAt",
+        "jsdoc": {
+          "description": [
+            "Timestamp of creation"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 351,
+            "column": 3
+          },
+          "end": {
+            "line": 351,
+            "column": 20
+          }
+        },
+        "id": "src/test/test:Interface:TestBaseInterface#property:createdAt"
+      }
+    ],
+    "literal": "TestBaseInterface {\n    createdAt: number;\n}",
+    "id": "src/test/test:Interface:TestBaseInterface",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 349,
+        "column": 1
+      },
+      "end": {
+        "line": 352,
+        "column": 2
+      }
+    },
+    "exportName": "TestBaseInterface",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Interface",
+    "name": "TestInterfaceWithMembers",
+    "jsdoc": {
+      "description": [
+        "Tests interface declarations with generics, heritage clauses and every kind of member:\nproperties, methods, call signatures, construct signatures and index signatures."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "generics": [
+      {
+        "name": "T"
+      }
+    ],
+    "extends": [
+      {
+        "kind": "TypeReference",
+        "literal": "TestBaseInterface",
+        "name": "TestBaseInterface",
+        "targetId": "src/test/test:Interface:TestBaseInterface"
+      }
+    ],
+    "members": [
+      {
+        "kind": "Property",
+        "name": "id",
+        "jsdoc": {
+          "description": [
+            "Readonly identifier of the entry"
+          ]
+        },
+        "isReadonly": true,
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 361,
+            "column": 3
+          },
+          "end": {
+            "line": 361,
+            "column": 22
+          }
+        },
+        "id": "src/test/test:Interface:TestInterfaceWithMembers#property:id"
+      },
+      {
+        "kind": "Property",
+        "name": "label",
+        "jsdoc": {
+          "description": [
+            "Optional label of the entry"
+          ]
+        },
+        "isOptional": true,
+        "typeAnnotation": {
+          "kind": "TypeReference",
+          "literal": "T",
+          "name": "T"
+        },
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 363,
+            "column": 3
+          },
+          "end": {
+            "line": 363,
+            "column": 12
+          }
+        },
+        "id": "src/test/test:Interface:TestInterfaceWithMembers#property:label"
+      },
+      {
+        "kind": "Method",
+        "name": "getLabel",
+        "jsdoc": {
+          "description": [
+            "Method signature returning the label of the entry."
+          ],
+          "tags": [
+            {
+              "tagName": "param",
+              "comment": "Returned when no label is set.",
+              "name": "fallback"
+            }
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "fallback",
+                "jsdoc": {
+                  "description": [
+                    "Returned when no label is set."
+                  ]
+                },
+                "typeAnnotation": {
+                  "kind": "TypeReference",
+                  "literal": "T",
+                  "name": "T"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 368,
+                    "column": 12
+                  },
+                  "end": {
+                    "line": 368,
+                    "column": 23
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "TypeReference",
+              "literal": "T",
+              "name": "T"
+            },
+            "jsdoc": {
+              "description": [
+                "Method signature returning the label of the entry."
+              ],
+              "tags": [
+                {
+                  "tagName": "param",
+                  "comment": "Returned when no label is set.",
+                  "name": "fallback"
+                }
+              ]
+            }
+          }
+        ],
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 368,
+            "column": 3
+          },
+          "end": {
+            "line": 368,
+            "column": 27
+          }
+        },
+        "id": "src/test/test:Interface:TestInterfaceWithMembers#method:getLabel"
+      },
+      {
+        "kind": "CallSignature",
+        "jsdoc": {
+          "description": [
+            "Call signature of the interface"
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "TypeReference",
+                  "literal": "T",
+                  "name": "T"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 370,
+                    "column": 4
+                  },
+                  "end": {
+                    "line": 370,
+                    "column": 12
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "void"
+            },
+            "jsdoc": {
+              "description": [
+                "Call signature of the interface"
+              ]
+            }
+          }
+        ],
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 370,
+            "column": 3
+          },
+          "end": {
+            "line": 370,
+            "column": 19
+          }
+        },
+        "id": "src/test/test:Interface:TestInterfaceWithMembers#callSignature"
+      },
+      {
+        "kind": "ConstructSignature",
+        "jsdoc": {
+          "description": [
+            "Construct signature of the interface"
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "TypeReference",
+                  "literal": "T",
+                  "name": "T"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 372,
+                    "column": 8
+                  },
+                  "end": {
+                    "line": 372,
+                    "column": 16
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "TypeReference",
+              "literal": "TestInterfaceWithMembers<T>",
+              "name": "TestInterfaceWithMembers",
+              "targetId": "src/test/test:Interface:TestInterfaceWithMembers",
+              "parameters": [
+                {
+                  "kind": "TypeReference",
+                  "literal": "T",
+                  "name": "T"
+                }
+              ],
+              "expanded": {
+                "kind": "TypeLiteral",
+                "literal": "{ id: string; label?: T; getLabel: (fallback: T) => T; createdAt: number; }",
+                "members": [
+                  {
+                    "name": "id",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "string"
+                    },
+                    "jsdoc": {
+                      "description": [
+                        "Readonly identifier of the entry"
+                      ]
+                    }
+                  },
+                  {
+                    "name": "label",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "T"
+                    },
+                    "jsdoc": {
+                      "description": [
+                        "Optional label of the entry"
+                      ]
+                    }
+                  },
+                  {
+                    "name": "getLabel",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "(fallback: T) => T"
+                    },
+                    "jsdoc": {
+                      "description": [
+                        "Method signature returning the label of the entry."
+                      ],
+                      "tags": [
+                        {
+                          "tagName": "param",
+                          "comment": "Returned when no label is set.",
+                          "name": "fallback"
+                        }
+                      ]
+                    }
+                  },
+                  {
+                    "name": "createdAt",
+                    "typeAnnotation": {
+                      "kind": "PrimitiveType",
+                      "literal": "number"
+                    },
+                    "jsdoc": {
+                      "description": [
+                        "Timestamp of creation"
+                      ]
+                    }
+                  }
+                ]
+              }
+            },
+            "jsdoc": {
+              "description": [
+                "Construct signature of the interface"
+              ]
+            }
+          }
+        ],
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 372,
+            "column": 3
+          },
+          "end": {
+            "line": 372,
+            "column": 46
+          }
+        },
+        "id": "src/test/test:Interface:TestInterfaceWithMembers#constructSignature"
+      },
+      {
+        "kind": "IndexSignature",
+        "jsdoc": {
+          "description": [
+            "Index signature of the interface"
+          ]
+        },
+        "parameters": [
+          {
+            "name": "key",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 374,
+                "column": 4
+              },
+              "end": {
+                "line": 374,
+                "column": 15
+              }
+            }
+          }
+        ],
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "unknown"
+        },
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 374,
+            "column": 3
+          },
+          "end": {
+            "line": 374,
+            "column": 25
+          }
+        },
+        "id": "src/test/test:Interface:TestInterfaceWithMembers#indexSignature:string"
+      },
+      {
+        "kind": "Property",
+        "name": "createdAt",
+        "jsdoc": {
+          "description": [
+            "Timestamp of creation"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 351,
+            "column": 3
+          },
+          "end": {
+            "line": 351,
+            "column": 20
+          }
+        },
+        "inheritedFrom": {
+          "name": "TestBaseInterface",
+          "targetId": "src/test/test:Interface:TestBaseInterface"
+        },
+        "id": "src/test/test:Interface:TestInterfaceWithMembers#property:createdAt"
+      }
+    ],
+    "literal": "TestInterfaceWithMembers<T> extends TestBaseInterface {\n    readonly id: string;\n    label?: T;\n    getLabel(fallback: T): T;\n    (value: T): void;\n    new (value: T): TestInterfaceWithMembers<T>;\n    [key: string]: unknown;\n}",
+    "id": "src/test/test:Interface:TestInterfaceWithMembers",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 359,
+        "column": 1
+      },
+      "end": {
+        "line": 375,
+        "column": 2
+      }
+    },
+    "exportName": "TestInterfaceWithMembers",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Interface",
+    "name": "TestMergedInterface",
+    "jsdoc": {
+      "description": [
+        "Tests merged interface declarations, which are documented as one interface.",
+        "The docs of the second declaration are added to the docs of the first."
+      ]
+    },
+    "members": [
+      {
+        "kind": "Property",
+        "name": "first",
+        "jsdoc": {
+          "description": [
+            "Declared in the first declaration"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 382,
+            "column": 3
+          },
+          "end": {
+            "line": 382,
+            "column": 16
+          }
+        },
+        "id": "src/test/test:Interface:TestMergedInterface#property:first"
+      },
+      {
+        "kind": "Method",
+        "name": "format",
+        "jsdoc": {
+          "description": [
+            "Formats the value."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "string"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 384,
+                    "column": 10
+                  },
+                  "end": {
+                    "line": 384,
+                    "column": 23
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Formats the value."
+              ]
+            }
+          },
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "number"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 394,
+                    "column": 10
+                  },
+                  "end": {
+                    "line": 394,
+                    "column": 23
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Formats a number."
+              ]
+            }
+          }
+        ],
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 384,
+            "column": 3
+          },
+          "end": {
+            "line": 384,
+            "column": 32
+          }
+        },
+        "id": "src/test/test:Interface:TestMergedInterface#method:format"
+      },
+      {
+        "kind": "Property",
+        "name": "second",
+        "jsdoc": {
+          "description": [
+            "Declared in the second declaration"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 392,
+            "column": 3
+          },
+          "end": {
+            "line": 392,
+            "column": 17
+          }
+        },
+        "id": "src/test/test:Interface:TestMergedInterface#property:second"
+      }
+    ],
+    "literal": "TestMergedInterface {\n    first: string;\n    format(value: string): string;\n    second: number;\n    format(value: number): string;\n}",
+    "id": "src/test/test:Interface:TestMergedInterface",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 380,
+        "column": 1
+      },
+      "end": {
+        "line": 385,
+        "column": 2
+      }
+    },
+    "exportName": "TestMergedInterface",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Namespace",
+    "name": "TestNamespace",
+    "declarationKind": "namespace",
+    "jsdoc": {
+      "description": [
+        "Tests namespace declarations, verifying that the declarations it contains are extracted\nrecursively together with their own JSDoc."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "members": [
+      {
+        "kind": "Variable",
+        "name": "version",
+        "jsdoc": {
+          "description": [
+            "Version of the namespace"
+          ]
+        },
+        "literal": "version: string",
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "id": "src/test/test:Variable:TestNamespace.version",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 404,
+            "column": 16
+          },
+          "end": {
+            "line": 404,
+            "column": 41
+          }
+        },
+        "visibility": "exported"
+      },
+      {
+        "kind": "TypeAlias",
+        "name": "Options",
+        "jsdoc": {
+          "description": [
+            "Options declared inside a namespace"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "TypeLiteral",
+          "literal": "Options",
+          "members": [
+            {
+              "name": "enabled",
+              "typeAnnotation": {
+                "kind": "PrimitiveType",
+                "literal": "boolean"
+              },
+              "jsdoc": {
+                "description": [
+                  "Whether the namespace is enabled"
+                ]
+              },
+              "source": {
+                "path": "src/test/test.ts",
+                "start": {
+                  "line": 409,
+                  "column": 5
+                },
+                "end": {
+                  "line": 409,
+                  "column": 21
+                }
+              },
+              "id": "src/test/test:TypeAlias:TestNamespace.Options#property:enabled"
+            }
+          ]
+        },
+        "literal": "type Options = {\n    enabled: boolean;\n};",
+        "id": "src/test/test:TypeAlias:TestNamespace.Options",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 407,
+            "column": 3
+          },
+          "end": {
+            "line": 410,
+            "column": 4
+          }
+        },
+        "visibility": "exported"
+      },
+      {
+        "kind": "Namespace",
+        "name": "Nested",
+        "declarationKind": "namespace",
+        "jsdoc": {
+          "description": [
+            "Tests a namespace nested inside another namespace."
+          ]
+        },
+        "members": [
+          {
+            "kind": "Function",
+            "name": "helper",
+            "signatures": [
+              {
+                "parameters": [
+                  {
+                    "name": "options",
+                    "typeAnnotation": {
+                      "kind": "TypeReference",
+                      "literal": "Options",
+                      "name": "Options",
+                      "targetId": "src/test/test:TypeAlias:TestNamespace.Options",
+                      "expanded": {
+                        "kind": "TypeLiteral",
+                        "literal": "{ enabled: boolean; }",
+                        "members": [
+                          {
+                            "name": "enabled",
+                            "typeAnnotation": {
+                              "kind": "PrimitiveType",
+                              "literal": "boolean"
+                            },
+                            "jsdoc": {
+                              "description": [
+                                "Whether the namespace is enabled"
+                              ]
+                            }
+                          }
+                        ]
+                      }
+                    },
+                    "source": {
+                      "path": "src/test/test.ts",
+                      "start": {
+                        "line": 417,
+                        "column": 28
+                      },
+                      "end": {
+                        "line": 417,
+                        "column": 44
+                      }
+                    }
+                  }
+                ],
+                "returnType": {
+                  "kind": "PrimitiveType",
+                  "literal": "string"
+                },
+                "jsdoc": {
+                  "description": [
+                    "Function declared inside a nested namespace"
+                  ]
+                }
+              }
+            ],
+            "jsdoc": {
+              "description": [
+                "Function declared inside a nested namespace"
+              ]
+            },
+            "id": "src/test/test:Function:TestNamespace.Nested.helper",
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 417,
+                "column": 5
+              },
+              "end": {
+                "line": 419,
+                "column": 6
+              }
+            },
+            "visibility": "exported"
+          }
+        ],
+        "id": "src/test/test:Namespace:TestNamespace.Nested",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 415,
+            "column": 3
+          },
+          "end": {
+            "line": 420,
+            "column": 4
+          }
+        },
+        "visibility": "exported"
+      }
+    ],
+    "id": "src/test/test:Namespace:TestNamespace",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 402,
+        "column": 1
+      },
+      "end": {
+        "line": 421,
+        "column": 2
+      }
+    },
+    "exportName": "TestNamespace",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Class",
+    "name": "TestClassWithPropertiesAndMethods",
+    "isAbstract": false,
+    "members": [
+      {
+        "kind": "Property",
+        "name": "firstName",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 431,
+            "column": 10
+          },
+          "end": {
+            "line": 431,
+            "column": 36
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Publicly accessible first name of the user"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#property:firstName"
+      },
+      {
+        "kind": "Constructor",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 442,
+            "column": 5
+          },
+          "end": {
+            "line": 442,
+            "column": 19
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Constructor that initializes user details."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "jsdoc": {
+              "description": [
+                "Constructor that initializes user details."
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#constructor"
+      },
+      {
+        "kind": "Method",
+        "name": "greet",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 446,
+            "column": 3
+          },
+          "end": {
+            "line": 446,
+            "column": 19
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Method that greets the user, demonstrating return type documentation."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Method that greets the user, demonstrating return type documentation."
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#method:greet"
+      },
+      {
+        "kind": "Method",
+        "name": "format",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 453,
+            "column": 3
+          },
+          "end": {
+            "line": 453,
+            "column": 33
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Overloaded method formatting a string."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "string"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 453,
+                    "column": 10
+                  },
+                  "end": {
+                    "line": 453,
+                    "column": 23
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Overloaded method formatting a string."
+              ]
+            }
+          },
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "number"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 457,
+                    "column": 10
+                  },
+                  "end": {
+                    "line": 457,
+                    "column": 23
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Overloaded method formatting a number."
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#method:format"
+      },
+      {
+        "kind": "Property",
+        "name": "logDetails",
+        "accessModifier": "private",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 466,
+            "column": 3
+          },
+          "end": {
+            "line": 466,
+            "column": 22
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "A private method demonstrating privacy within classes.\nThis method logs a private message."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "any"
+        },
+        "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#property:logDetails"
+      },
+      {
+        "kind": "Method",
+        "name": "getDetails",
+        "accessModifier": "protected",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 474,
+            "column": 3
+          },
+          "end": {
+            "line": 474,
+            "column": 34
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "A protected method showing how protected members are handled.\nThis method returns the details in a formatted string."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "A protected method showing how protected members are handled.\nThis method returns the details in a formatted string."
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#method:getDetails"
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests class declaration capabilities with private and public properties, constructor parameters,\nand method annotations. This test verifies that access modifiers and privacy settings are respected\nand documented accurately."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 429,
+        "column": 1
+      },
+      "end": {
+        "line": 477,
+        "column": 2
+      }
+    },
+    "exportName": "TestClassWithPropertiesAndMethods",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Class",
+    "name": "AbstractUser",
+    "isAbstract": true,
+    "members": [
+      {
+        "kind": "Property",
+        "name": "name",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 485,
+            "column": 10
+          },
+          "end": {
+            "line": 485,
+            "column": 22
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The name of the user"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "id": "src/test/test:Class:AbstractUser#property:name"
+      },
+      {
+        "kind": "Constructor",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 487,
+            "column": 3
+          },
+          "end": {
+            "line": 487,
+            "column": 29
+          }
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "name",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "string"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 487,
+                    "column": 15
+                  },
+                  "end": {
+                    "line": 487,
+                    "column": 27
+                  }
+                }
+              }
+            ]
+          }
+        ],
+        "id": "src/test/test:Class:AbstractUser#constructor"
+      },
+      {
+        "kind": "Method",
+        "name": "greet",
+        "isAbstract": true,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 494,
+            "column": 3
+          },
+          "end": {
+            "line": 494,
+            "column": 28
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Abstract method to be implemented by subclasses. Must return a greeting message."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Abstract method to be implemented by subclasses. Must return a greeting message."
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:AbstractUser#method:greet"
+      },
+      {
+        "kind": "Method",
+        "name": "getName",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 500,
+            "column": 10
+          },
+          "end": {
+            "line": 500,
+            "column": 28
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:AbstractUser#method:getName"
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Abstract class to demonstrate inheritance and method overriding."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "id": "src/test/test:Class:AbstractUser",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 483,
+        "column": 1
+      },
+      "end": {
+        "line": 503,
+        "column": 2
+      }
+    },
+    "visibility": "internal",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Class",
+    "name": "ConcreteUser",
+    "isAbstract": false,
+    "extends": {
+      "kind": "TypeReference",
+      "literal": "AbstractUser",
+      "name": "AbstractUser",
+      "targetId": "src/test/test:Class:AbstractUser"
+    },
+    "members": [
+      {
+        "kind": "Constructor",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 509,
+            "column": 3
+          },
+          "end": {
+            "line": 509,
+            "column": 29
+          }
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "name",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "string"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 509,
+                    "column": 15
+                  },
+                  "end": {
+                    "line": 509,
+                    "column": 27
+                  }
+                }
+              }
+            ]
+          }
+        ],
+        "id": "src/test/test:Class:ConcreteUser#constructor"
+      },
+      {
+        "kind": "Method",
+        "name": "greet",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 516,
+            "column": 3
+          },
+          "end": {
+            "line": 516,
+            "column": 19
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Implementation of the abstract greet method."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Implementation of the abstract greet method."
+              ]
+            }
+          }
+        ],
+        "overrides": {
+          "name": "AbstractUser",
+          "targetId": "src/test/test:Class:AbstractUser#method:greet"
+        },
+        "id": "src/test/test:Class:ConcreteUser#method:greet"
+      },
+      {
+        "kind": "Property",
+        "name": "name",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 485,
+            "column": 10
+          },
+          "end": {
+            "line": 485,
+            "column": 22
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The name of the user"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "inheritedFrom": {
+          "name": "AbstractUser",
+          "targetId": "src/test/test:Class:AbstractUser"
+        },
+        "id": "src/test/test:Class:ConcreteUser#property:name"
+      },
+      {
+        "kind": "Method",
+        "name": "getName",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 500,
+            "column": 10
+          },
+          "end": {
+            "line": 500,
+            "column": 28
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+              ]
+            }
+          }
+        ],
+        "inheritedFrom": {
+          "name": "AbstractUser",
+          "targetId": "src/test/test:Class:AbstractUser"
+        },
+        "id": "src/test/test:Class:ConcreteUser#method:getName"
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Concrete class extending an abstract class, implementing the required abstract method."
+      ]
+    },
+    "id": "src/test/test:Class:ConcreteUser",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 508,
+        "column": 1
+      },
+      "end": {
+        "line": 519,
+        "column": 2
+      }
+    },
+    "exportName": "ConcreteUser",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Class",
+    "name": "TestGenericBase",
+    "isAbstract": false,
+    "generics": [
+      {
+        "name": "T"
+      }
+    ],
+    "members": [
+      {
+        "kind": "Property",
+        "name": "value",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 527,
+            "column": 3
+          },
+          "end": {
+            "line": 527,
+            "column": 11
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The value of the base."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "TypeReference",
+          "literal": "T",
+          "name": "T"
+        },
+        "id": "src/test/test:Class:TestGenericBase#property:value"
+      },
+      {
+        "kind": "Property",
+        "name": "secret",
+        "accessModifier": "private",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 529,
+            "column": 3
+          },
+          "end": {
+            "line": 529,
+            "column": 21
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Only visible to the base."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "any"
+        },
+        "id": "src/test/test:Class:TestGenericBase#property:secret"
+      },
+      {
+        "kind": "Constructor",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 532,
+            "column": 3
+          },
+          "end": {
+            "line": 532,
+            "column": 25
+          }
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "TypeReference",
+                  "literal": "T",
+                  "name": "T"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 532,
+                    "column": 15
+                  },
+                  "end": {
+                    "line": 532,
+                    "column": 23
+                  }
+                }
+              }
+            ]
+          }
+        ],
+        "id": "src/test/test:Class:TestGenericBase#constructor"
+      },
+      {
+        "kind": "Method",
+        "name": "get",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 537,
+            "column": 3
+          },
+          "end": {
+            "line": 537,
+            "column": 12
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Returns the value."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "TypeReference",
+              "literal": "T",
+              "name": "T"
+            },
+            "jsdoc": {
+              "description": [
+                "Returns the value."
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:TestGenericBase#method:get"
+      },
+      {
+        "kind": "Method",
+        "name": "map",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 545,
+            "column": 3
+          },
+          "end": {
+            "line": 545,
+            "column": 38
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Transforms the value."
+          ],
+          "tags": [
+            {
+              "tagName": "param",
+              "comment": "The transform.",
+              "name": "transform"
+            }
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "transform",
+                "jsdoc": {
+                  "description": [
+                    "The transform."
+                  ]
+                },
+                "typeAnnotation": {
+                  "kind": "FunctionType",
+                  "literal": "(value: T) => T",
+                  "signatures": [
+                    {
+                      "parameters": [
+                        {
+                          "name": "value",
+                          "typeAnnotation": {
+                            "kind": "TypeReference",
+                            "literal": "T",
+                            "name": "T"
+                          },
+                          "source": {
+                            "path": "src/test/test.ts",
+                            "start": {
+                              "line": 545,
+                              "column": 19
+                            },
+                            "end": {
+                              "line": 545,
+                              "column": 27
+                            }
+                          }
+                        }
+                      ],
+                      "returnType": {
+                        "kind": "TypeReference",
+                        "literal": "T",
+                        "name": "T"
+                      }
+                    }
+                  ]
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 545,
+                    "column": 7
+                  },
+                  "end": {
+                    "line": 545,
+                    "column": 33
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "TypeReference",
+              "literal": "T",
+              "name": "T"
+            },
+            "jsdoc": {
+              "description": [
+                "Transforms the value."
+              ],
+              "tags": [
+                {
+                  "tagName": "param",
+                  "comment": "The transform.",
+                  "name": "transform"
+                }
+              ]
+            }
+          }
+        ],
+        "id": "src/test/test:Class:TestGenericBase#method:map"
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests a generic base class, whose members are inherited with its type arguments substituted."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "id": "src/test/test:Class:TestGenericBase",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 525,
+        "column": 1
+      },
+      "end": {
+        "line": 548,
+        "column": 2
+      }
+    },
+    "exportName": "TestGenericBase",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Class",
+    "name": "TestInstantiatedSubclass",
+    "isAbstract": false,
+    "extends": {
+      "kind": "TypeReference",
+      "literal": "TestGenericBase<number>",
+      "name": "TestGenericBase",
+      "targetId": "src/test/test:Class:TestGenericBase",
+      "parameters": [
+        {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        }
+      ]
+    },
+    "members": [
+      {
+        "kind": "Method",
+        "name": "map",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 556,
+            "column": 12
+          },
+          "end": {
+            "line": 556,
+            "column": 62
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Transforms the value, overriding the base."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "transform",
+                "typeAnnotation": {
+                  "kind": "FunctionType",
+                  "literal": "(value: number) => number",
+                  "signatures": [
+                    {
+                      "parameters": [
+                        {
+                          "name": "value",
+                          "typeAnnotation": {
+                            "kind": "PrimitiveType",
+                            "literal": "number"
+                          },
+                          "source": {
+                            "path": "src/test/test.ts",
+                            "start": {
+                              "line": 556,
+                              "column": 28
+                            },
+                            "end": {
+                              "line": 556,
+                              "column": 41
+                            }
+                          }
+                        }
+                      ],
+                      "returnType": {
+                        "kind": "PrimitiveType",
+                        "literal": "number"
+                      }
+                    }
+                  ]
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 556,
+                    "column": 16
+                  },
+                  "end": {
+                    "line": 556,
+                    "column": 52
+                  }
+                }
+              }
+            ],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "number"
+            },
+            "jsdoc": {
+              "description": [
+                "Transforms the value, overriding the base."
+              ]
+            }
+          }
+        ],
+        "overrides": {
+          "name": "TestGenericBase",
+          "targetId": "src/test/test:Class:TestGenericBase#method:map"
+        },
+        "id": "src/test/test:Class:TestInstantiatedSubclass#method:map"
+      },
+      {
+        "kind": "Property",
+        "name": "value",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 527,
+            "column": 3
+          },
+          "end": {
+            "line": 527,
+            "column": 11
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The value of the base."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "inheritedFrom": {
+          "name": "TestGenericBase",
+          "targetId": "src/test/test:Class:TestGenericBase"
+        },
+        "id": "src/test/test:Class:TestInstantiatedSubclass#property:value"
+      },
+      {
+        "kind": "Constructor",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 532,
+            "column": 3
+          },
+          "end": {
+            "line": 532,
+            "column": 25
+          }
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "value",
+                "typeAnnotation": {
+                  "kind": "PrimitiveType",
+                  "literal": "number"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 532,
+                    "column": 15
+                  },
+                  "end": {
+                    "line": 532,
+                    "column": 23
+                  }
+                }
+              }
+            ]
+          }
+        ],
+        "inheritedFrom": {
+          "name": "TestGenericBase",
+          "targetId": "src/test/test:Class:TestGenericBase"
+        },
+        "id": "src/test/test:Class:TestInstantiatedSubclass#constructor"
+      },
+      {
+        "kind": "Method",
+        "name": "get",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 537,
+            "column": 3
+          },
+          "end": {
+            "line": 537,
+            "column": 12
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Returns the value."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "number"
+            },
+            "jsdoc": {
+              "description": [
+                "Returns the value."
+              ]
+            }
+          }
+        ],
+        "inheritedFrom": {
+          "name": "TestGenericBase",
+          "targetId": "src/test/test:Class:TestGenericBase"
+        },
+        "id": "src/test/test:Class:TestInstantiatedSubclass#method:get"
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests inheriting from an instantiated generic base class."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "id": "src/test/test:Class:TestInstantiatedSubclass",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 554,
+        "column": 1
+      },
+      "end": {
+        "line": 559,
+        "column": 2
+      }
+    },
+    "exportName": "TestInstantiatedSubclass",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Class",
+    "name": "TestGenericClass",
+    "isAbstract": false,
+    "generics": [
+      {
+        "name": "T",
+        "extends": "string"
+      }
+    ],
+    "extends": {
+      "kind": "TypeReference",
+      "literal": "ConcreteUser",
+      "name": "ConcreteUser",
+      "targetId": "src/test/test:Class:ConcreteUser"
+    },
+    "implements": [
+      {
+        "kind": "TypeReference",
+        "literal": "TestBaseInterface",
+        "name": "TestBaseInterface",
+        "targetId": "src/test/test:Interface:TestBaseInterface"
+      }
+    ],
+    "members": [
+      {
+        "kind": "IndexSignature",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 567,
+            "column": 3
+          },
+          "end": {
+            "line": 567,
+            "column": 25
+          }
+        },
+        "parameters": [
+          {
+            "name": "key",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 567,
+                "column": 4
+              },
+              "end": {
+                "line": 567,
+                "column": 15
+              }
+            }
+          }
+        ],
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "unknown"
+        },
+        "id": "src/test/test:Class:TestGenericClass#indexSignature:string"
+      },
+      {
+        "kind": "Property",
+        "name": "count",
+        "isStatic": true,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 570,
+            "column": 3
+          },
+          "end": {
+            "line": 570,
+            "column": 19
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The number of created instances."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "id": "src/test/test:Class:TestGenericClass#static-property:count"
+      },
+      {
+        "kind": "Property",
+        "name": "id",
+        "isReadonly": true,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 573,
+            "column": 3
+          },
+          "end": {
+            "line": 573,
+            "column": 17
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The identifier of the instance."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "TypeReference",
+          "literal": "T",
+          "name": "T"
+        },
+        "id": "src/test/test:Class:TestGenericClass#property:id"
+      },
+      {
+        "kind": "Property",
+        "name": "label",
+        "isOptional": true,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 576,
+            "column": 3
+          },
+          "end": {
+            "line": 576,
+            "column": 17
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "An optional label."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "id": "src/test/test:Class:TestGenericClass#property:label"
+      },
+      {
+        "kind": "Property",
+        "name": "createdAt",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 579,
+            "column": 3
+          },
+          "end": {
+            "line": 579,
+            "column": 25
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Timestamp of creation"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "id": "src/test/test:Class:TestGenericClass#property:createdAt"
+      },
+      {
+        "kind": "Constructor",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 587,
+            "column": 3
+          },
+          "end": {
+            "line": 587,
+            "column": 22
+          }
+        },
+        "signatures": [
+          {
+            "parameters": [
+              {
+                "name": "id",
+                "typeAnnotation": {
+                  "kind": "TypeReference",
+                  "literal": "T",
+                  "name": "T"
+                },
+                "source": {
+                  "path": "src/test/test.ts",
+                  "start": {
+                    "line": 587,
+                    "column": 15
+                  },
+                  "end": {
+                    "line": 587,
+                    "column": 20
+                  }
+                }
+              }
+            ]
+          }
+        ],
+        "id": "src/test/test:Class:TestGenericClass#constructor"
+      },
+      {
+        "kind": "Accessor",
+        "name": "value",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 594,
+            "column": 3
+          },
+          "end": {
+            "line": 596,
+            "column": 4
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The current value."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "getter": {
+          "parameters": [],
+          "returnType": {
+            "kind": "PrimitiveType",
+            "literal": "number"
+          },
+          "jsdoc": {
+            "description": [
+              "The current value."
+            ]
+          }
+        },
+        "setter": {
+          "parameters": [
+            {
+              "name": "value",
+              "typeAnnotation": {
+                "kind": "PrimitiveType",
+                "literal": "number"
+              },
+              "source": {
+                "path": "src/test/test.ts",
+                "start": {
+                  "line": 597,
+                  "column": 13
+                },
+                "end": {
+                  "line": 597,
+                  "column": 26
+                }
+              }
+            }
+          ]
+        },
+        "id": "src/test/test:Class:TestGenericClass#accessor:value"
+      },
+      {
+        "kind": "Accessor",
+        "name": "upperId",
+        "isReadonly": true,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 602,
+            "column": 3
+          },
+          "end": {
+            "line": 604,
+            "column": 4
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The identifier in upper case."
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "getter": {
+          "parameters": [],
+          "returnType": {
+            "kind": "PrimitiveType",
+            "literal": "string"
+          },
+          "jsdoc": {
+            "description": [
+              "The identifier in upper case."
+            ]
+          }
+        },
+        "id": "src/test/test:Class:TestGenericClass#accessor:upperId"
+      },
+      {
+        "kind": "Method",
+        "name": "greet",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 609,
+            "column": 12
+          },
+          "end": {
+            "line": 609,
+            "column": 28
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "Greets with the identifier."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "Greets with the identifier."
+              ]
+            }
+          }
+        ],
+        "overrides": {
+          "name": "ConcreteUser",
+          "targetId": "src/test/test:Class:ConcreteUser#method:greet"
+        },
+        "id": "src/test/test:Class:TestGenericClass#method:greet"
+      },
+      {
+        "kind": "Property",
+        "name": "name",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 485,
+            "column": 10
+          },
+          "end": {
+            "line": 485,
+            "column": 22
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "The name of the user"
+          ]
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "string"
+        },
+        "inheritedFrom": {
+          "name": "AbstractUser",
+          "targetId": "src/test/test:Class:AbstractUser"
+        },
+        "id": "src/test/test:Class:TestGenericClass#property:name"
+      },
+      {
+        "kind": "Method",
+        "name": "getName",
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 500,
+            "column": 10
+          },
+          "end": {
+            "line": 500,
+            "column": 28
+          }
+        },
+        "jsdoc": {
+          "description": [
+            "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+          ]
+        },
+        "signatures": [
+          {
+            "parameters": [],
+            "returnType": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "jsdoc": {
+              "description": [
+                "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+              ]
+            }
+          }
+        ],
+        "inheritedFrom": {
+          "name": "AbstractUser",
+          "targetId": "src/test/test:Class:AbstractUser"
+        },
+        "id": "src/test/test:Class:TestGenericClass#method:getName"
+      }
+    ],
+    "jsdoc": {
+      "description": [
+        "Tests a generic class implementing an interface, with static, readonly, optional and overriding\nmembers, accessors and an index signature."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "id": "src/test/test:Class:TestGenericClass",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 566,
+        "column": 1
+      },
+      "end": {
+        "line": 612,
+        "column": 2
+      }
+    },
+    "exportName": "TestGenericClass",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Enum",
+    "name": "TestLogLevel",
+    "jsdoc": {
+      "description": [
+        "Tests the implementation and documentation of an enumeration with explicit values,\nensuring enums are not only declared but also their values are correctly set and utilized in\nfunction parameters."
+      ],
+      "tags": [
+        {
+          "tagName": "tag",
+          "comment": "test-case"
+        }
+      ]
+    },
+    "members": [
+      {
+        "name": "ERROR",
+        "value": 0,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 621,
+            "column": 3
+          },
+          "end": {
+            "line": 621,
+            "column": 12
+          }
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "id": "src/test/test:Enum:TestLogLevel#member:ERROR"
+      },
+      {
+        "name": "WARN",
+        "value": 1,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 622,
+            "column": 3
+          },
+          "end": {
+            "line": 622,
+            "column": 11
+          }
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "id": "src/test/test:Enum:TestLogLevel#member:WARN"
+      },
+      {
+        "name": "INFO",
+        "value": 2,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 623,
+            "column": 3
+          },
+          "end": {
+            "line": 623,
+            "column": 11
+          }
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "id": "src/test/test:Enum:TestLogLevel#member:INFO"
+      },
+      {
+        "name": "DEBUG",
+        "value": 3,
+        "source": {
+          "path": "src/test/test.ts",
+          "start": {
+            "line": 624,
+            "column": 3
+          },
+          "end": {
+            "line": 624,
+            "column": 12
+          }
+        },
+        "typeAnnotation": {
+          "kind": "PrimitiveType",
+          "literal": "number"
+        },
+        "id": "src/test/test:Enum:TestLogLevel#member:DEBUG"
+      }
+    ],
+    "id": "src/test/test:Enum:TestLogLevel",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 620,
+        "column": 1
+      },
+      "end": {
+        "line": 625,
+        "column": 2
+      }
+    },
+    "visibility": "internal",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Function",
+    "name": "testFunctionUsingEnum",
+    "signatures": [
+      {
+        "parameters": [
+          {
+            "name": "level",
+            "typeAnnotation": {
+              "kind": "TypeReference",
+              "literal": "TestLogLevel",
+              "name": "TestLogLevel",
+              "targetId": "src/test/test:Enum:TestLogLevel"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 627,
+                "column": 39
+              },
+              "end": {
+                "line": 627,
+                "column": 58
+              }
+            }
+          },
+          {
+            "name": "message",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 627,
+                "column": 60
+              },
+              "end": {
+                "line": 627,
+                "column": 75
+              }
+            }
+          }
+        ],
+        "returnType": {
+          "kind": "PrimitiveType",
+          "literal": "void"
+        }
+      }
+    ],
+    "id": "src/test/test:Function:testFunctionUsingEnum",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 627,
+        "column": 1
+      },
+      "end": {
+        "line": 629,
+        "column": 2
+      }
+    },
+    "exportName": "testFunctionUsingEnum",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  },
+  {
+    "kind": "Function",
+    "name": "testFunctionUsingEnum",
+    "signatures": [
+      {
+        "parameters": [
+          {
+            "name": "level",
+            "typeAnnotation": {
+              "kind": "TypeReference",
+              "literal": "TestLogLevel",
+              "name": "TestLogLevel",
+              "targetId": "src/test/test:Enum:TestLogLevel"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 627,
+                "column": 39
+              },
+              "end": {
+                "line": 627,
+                "column": 58
+              }
+            }
+          },
+          {
+            "name": "message",
+            "typeAnnotation": {
+              "kind": "PrimitiveType",
+              "literal": "string"
+            },
+            "source": {
+              "path": "src/test/test.ts",
+              "start": {
+                "line": 627,
+                "column": 60
+              },
+              "end": {
+                "line": 627,
+                "column": 75
+              }
+            }
+          }
+        ],
+        "returnType": {
+          "kind": "PrimitiveType",
+          "literal": "void"
+        }
+      }
+    ],
+    "id": "src/test/test:Function:testFunctionAlias",
+    "source": {
+      "path": "src/test/test.ts",
+      "start": {
+        "line": 627,
+        "column": 1
+      },
+      "end": {
+        "line": 629,
+        "column": 2
+      }
+    },
+    "exportName": "testFunctionAlias",
+    "visibility": "exported",
+    "fileName": "src/test/test.ts"
+  }
+] as const satisfies readonly TypeElement[]
+export const referencedBy = {
+  "src/test/test:TypeAlias:ObjectTypeWithGeneric": [
+    {
+      "id": "src/test/test:Variable:testObjectWithGeneric",
+      "name": "testObjectWithGeneric"
+    }
+  ],
+  "src/test/test:TypeAlias:Product": [
+    {
+      "id": "src/test/test:Variable:testProductTypeAlias",
+      "name": "testProductTypeAlias"
+    }
+  ],
+  "src/test/test:TypeAlias:Settings": [
+    {
+      "id": "src/test/test:Function:testFunctionWithComplexParams",
+      "name": "testFunctionWithComplexParams"
+    },
+    {
+      "id": "src/test/test:Function:testTraditionalFunctionSyntax",
+      "name": "testTraditionalFunctionSyntax"
+    }
+  ],
+  "src/test/test:Interface:TestBaseInterface": [
+    {
+      "id": "src/test/test:Interface:TestInterfaceWithMembers",
+      "name": "TestInterfaceWithMembers"
+    },
+    {
+      "id": "src/test/test:Class:TestGenericClass",
+      "name": "TestGenericClass"
+    }
+  ],
+  "src/test/test:TypeAlias:TestNamespace.Options": [
+    {
+      "id": "src/test/test:Function:TestNamespace.Nested.helper",
+      "name": "TestNamespace.Nested.helper"
+    }
+  ],
+  "src/test/test:Class:AbstractUser": [
+    {
+      "id": "src/test/test:Class:ConcreteUser",
+      "name": "ConcreteUser"
+    }
+  ],
+  "src/test/test:Class:TestGenericBase": [
+    {
+      "id": "src/test/test:Class:TestInstantiatedSubclass",
+      "name": "TestInstantiatedSubclass"
+    }
+  ],
+  "src/test/test:Class:ConcreteUser": [
+    {
+      "id": "src/test/test:Class:TestGenericClass",
+      "name": "TestGenericClass"
+    }
+  ],
+  "src/test/test:Enum:TestLogLevel": [
+    {
+      "id": "src/test/test:Function:testFunctionUsingEnum",
+      "name": "testFunctionUsingEnum"
+    },
+    {
+      "id": "src/test/test:Function:testFunctionAlias",
+      "name": "testFunctionAlias"
+    }
+  ]
+} as const satisfies ReferenceIndex
+export const searchIndex = [
+  {
+    "id": "src/test/test:TypeAlias:TupleType",
+    "name": "TupleType",
+    "kind": "TypeAlias",
+    "description": "Represents a simple tuple of string literals.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TupleTypeWithGeneric",
+    "name": "TupleTypeWithGeneric",
+    "kind": "TypeAlias",
+    "description": "Defines a tuple type that incorporates a generic type parameter.\nThis allows the tuple to hold a value of any specified type.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestNamedTuple",
+    "name": "TestNamedTuple",
+    "kind": "TypeAlias",
+    "description": "Tests a tuple with named, optional and rest members.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestOptionalTuple",
+    "name": "TestOptionalTuple",
+    "kind": "TypeAlias",
+    "description": "Tests a tuple with unnamed optional and rest members.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestMappedType",
+    "name": "TestMappedType",
+    "kind": "TypeAlias",
+    "description": "Tests a mapped type over the keys of a type, with modifiers and key remapping.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestConditionalType",
+    "name": "TestConditionalType",
+    "kind": "TypeAlias",
+    "description": "Tests a conditional type that infers the element of an array.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestTemplateLiteralType",
+    "name": "TestTemplateLiteralType",
+    "kind": "TypeAlias",
+    "description": "Tests a template literal type.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestTypeQuery",
+    "name": "TestTypeQuery",
+    "kind": "TypeAlias",
+    "description": "Tests a type query of a value.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testSimpleNumericType",
+    "name": "testSimpleNumericType",
+    "kind": "Variable",
+    "description": "Tests the parsing of a simple numeric type to ensure basic type annotations are correctly interpreted.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testConstInitializer",
+    "name": "testConstInitializer",
+    "kind": "Variable",
+    "description": "Tests a `const` declaration without a type annotation, whose literal type is resolved by the checker."
+  },
+  {
+    "id": "src/test/test:Variable:testObjectWithJSDocProperties",
+    "name": "testObjectWithJSDocProperties",
+    "kind": "Variable",
+    "description": "Tests object parsing with explicit JSDoc tags for properties. This test checks the extraction and\nlinking of property types and descriptions from JSDoc to TypeScript objects.",
+    "tags": [
+      "tag",
+      "property"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testObjectWithJSDocProperties#property:id",
+    "name": "id",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testObjectWithJSDocProperties",
+    "description": "Ensures string types are handled correctly."
+  },
+  {
+    "id": "src/test/test:Variable:testObjectWithJSDocProperties#property:isActive",
+    "name": "isActive",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testObjectWithJSDocProperties",
+    "description": "Validates boolean type parsing."
+  },
+  {
+    "id": "src/test/test:Variable:testObjectWithInlinedJSDoc",
+    "name": "testObjectWithInlinedJSDoc",
+    "kind": "Variable",
+    "description": "Tests the handling of inlined JSDoc comments within a TypeScript object type declaration.\nThis test verifies that property descriptions are maintained alongside their type annotations.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testObjectWithInlinedJSDoc#property:name",
+    "name": "name",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testObjectWithInlinedJSDoc",
+    "description": "Describes the name of a product"
+  },
+  {
+    "id": "src/test/test:Variable:testObjectWithInlinedJSDoc#property:price",
+    "name": "price",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testObjectWithInlinedJSDoc",
+    "description": "Specifies the price of the product"
+  },
+  {
+    "id": "src/test/test:TypeAlias:ObjectTypeWithGeneric",
+    "name": "ObjectTypeWithGeneric",
+    "kind": "TypeAlias",
+    "description": "Tests type with generic"
+  },
+  {
+    "id": "src/test/test:TypeAlias:ObjectTypeWithGeneric#property:id",
+    "name": "id",
+    "kind": "TypeAlias",
+    "memberKind": "Property",
+    "parent": "ObjectTypeWithGeneric",
+    "description": "Property id is of type T"
+  },
+  {
+    "id": "src/test/test:Variable:testObjectWithGeneric",
+    "name": "testObjectWithGeneric",
+    "kind": "Variable"
+  },
+  {
+    "id": "src/test/test:Variable:testCombinedObjectJSDoc",
+    "name": "testCombinedObjectJSDoc",
+    "kind": "Variable",
+    "description": "Tests the handling of both explicit JSDoc tags and inlined JSDoc comments within a TypeScript object type declaration.\nThis test ensures that both types of documentation are maintained and correctly parsed alongside the TypeScript types.",
+    "tags": [
+      "tag",
+      "property"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:name",
+    "name": "name",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testCombinedObjectJSDoc",
+    "description": "Describes the name of a product, verifying inline comment parsing. Describes the name of a product",
+    "tags": [
+      "tag",
+      "example"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:price",
+    "name": "price",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testCombinedObjectJSDoc",
+    "description": "Specifies the price of the product, demonstrating how numeric types are documented. Specifies the price of the product",
+    "tags": [
+      "tag",
+      "example"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:id",
+    "name": "id",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testCombinedObjectJSDoc",
+    "description": "Ensures string types are handled correctly through explicit JSDoc tags."
+  },
+  {
+    "id": "src/test/test:Variable:testCombinedObjectJSDoc#property:isActive",
+    "name": "isActive",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testCombinedObjectJSDoc",
+    "description": "Validates boolean type parsing with explicit JSDoc tags."
+  },
+  {
+    "id": "src/test/test:Variable:testPropertyTags",
+    "name": "testPropertyTags",
+    "kind": "Variable",
+    "description": "Tests `@property` tags with union types, optional and defaulted names, nested paths and comments\nwithout a hyphen.",
+    "tags": [
+      "tag",
+      "property"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:testPropertyTags#property:id",
+    "name": "id",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testPropertyTags",
+    "description": "The identifier of the request."
+  },
+  {
+    "id": "src/test/test:Variable:testPropertyTags#property:retries",
+    "name": "retries",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testPropertyTags",
+    "description": "How often the request is retried."
+  },
+  {
+    "id": "src/test/test:Variable:testPropertyTags#property:options",
+    "name": "options",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testPropertyTags",
+    "description": "The options of the request."
+  },
+  {
+    "id": "src/test/test:Variable:testPropertyTags#property:options.property:timeout",
+    "name": "timeout",
+    "kind": "Variable",
+    "memberKind": "Property",
+    "parent": "testPropertyTags.options",
+    "description": "The timeout in milliseconds."
+  },
+  {
+    "id": "src/test/test:Variable:destructuringProperty",
+    "name": "destructuringProperty",
+    "kind": "Variable",
+    "description": "Tests destructuring assignments where the object being destructured has its own JSDoc comments.\nVerifies whether the comments are maintained or lost upon destructuring.\n\nThe property that is being destructured."
+  },
+  {
+    "id": "src/test/test:Function:testDestructuredGetter",
+    "name": "testDestructuredGetter",
+    "kind": "Function",
+    "description": "Tests array destructuring, where every bound identifier is documented as its own declaration."
+  },
+  {
+    "id": "src/test/test:Function:testDestructuredSetter",
+    "name": "testDestructuredSetter",
+    "kind": "Function",
+    "description": "Tests array destructuring, where every bound identifier is documented as its own declaration."
+  },
+  {
+    "id": "src/test/test:TypeAlias:Product",
+    "name": "Product",
+    "kind": "TypeAlias"
+  },
+  {
+    "id": "src/test/test:TypeAlias:Product#property:name",
+    "name": "name",
+    "kind": "TypeAlias",
+    "memberKind": "Property",
+    "parent": "Product",
+    "description": "Documents a product's name within a type alias"
+  },
+  {
+    "id": "src/test/test:TypeAlias:Product#property:price",
+    "name": "price",
+    "kind": "TypeAlias",
+    "memberKind": "Property",
+    "parent": "Product",
+    "description": "Documents a product's price within a type alias"
+  },
+  {
+    "id": "src/test/test:Variable:testProductTypeAlias",
+    "name": "testProductTypeAlias",
+    "kind": "Variable",
+    "description": "Tests referencing a type alias in an object declaration to verify that type aliases are resolved\nand applied correctly in object contexts.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:SimpleObject",
+    "name": "SimpleObject",
+    "kind": "TypeAlias",
+    "description": "Tests constructing a type alias from a `@typedef` tag and its `@property` tags.",
+    "tags": [
+      "property"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:SimpleObject#property:property",
+    "name": "property",
+    "kind": "TypeAlias",
+    "memberKind": "Property",
+    "parent": "SimpleObject",
+    "description": "The property of the simple object."
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestCallback",
+    "name": "TestCallback",
+    "kind": "TypeAlias",
+    "description": "Tests constructing a function type alias from a `@callback` tag."
+  },
+  {
+    "id": "src/test/test:Function:testCreatingSimpleObject",
+    "name": "testCreatingSimpleObject",
+    "kind": "Function",
+    "description": "Tests defining and returning a custom object type using a function with a JSDoc `@returns` tag.\nThis case checks the correct application of typedefs in function return types.",
+    "tags": [
+      "tag",
+      "returns"
+    ]
+  },
+  {
+    "id": "src/test/test:Function:testGenericTypeInference",
+    "name": "testGenericTypeInference",
+    "kind": "Function",
+    "description": "Tests generic type parameter inference within a scoped function that declares a local generic type.\nThis tests the scope handling and type inference capabilities of generics in nested contexts.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Function:testFunctionWithComplexParams",
+    "name": "testFunctionWithComplexParams",
+    "kind": "Function",
+    "description": "Tests complex configuration objects with callbacks, focusing on inlined JSDoc comments for deeply\n nested object properties and functions. This ensures detailed documentation within nested structures is parsed and represented accurately.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Function:testTraditionalFunctionSyntax",
+    "name": "testTraditionalFunctionSyntax",
+    "kind": "Function",
+    "description": "Tests the declaration and implementation of a function using traditional syntax, focusing on parameter\nhandling and JSDoc integration within a conventional function declaration.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Function:testOverloadedFunction",
+    "name": "testOverloadedFunction",
+    "kind": "Function",
+    "description": "Tests function overloads: parses a string into a number.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Function:testTypedJsDocTags",
+    "name": "testTypedJsDocTags",
+    "kind": "Function",
+    "description": "Tests the typed JSDoc tags, linking to {@link testOverloadedFunction} and\n{@linkcode TestNamespace.version | the namespace version}.",
+    "tags": [
+      "tag",
+      "param",
+      "returns",
+      "example",
+      "throws",
+      "deprecated",
+      "since",
+      "see"
+    ]
+  },
+  {
+    "id": "src/test/test:Function:testSeeTagWithoutComment",
+    "name": "testSeeTagWithoutComment",
+    "kind": "Function",
+    "description": "Tests a `@see` tag with a name only, followed by another tag.",
+    "tags": [
+      "see",
+      "since"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestOverloadedCallSignatures",
+    "name": "TestOverloadedCallSignatures",
+    "kind": "TypeAlias",
+    "description": "Tests a type literal consisting of overloaded call signatures.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:Settings",
+    "name": "Settings",
+    "kind": "TypeAlias",
+    "description": "Tests the documentation of settings using a type alias, emphasizing the detailed property JSDoc within\na type structure to ensure types are not only parsed correctly but also thoroughly documented.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:TypeAlias:Settings#property:theme",
+    "name": "theme",
+    "kind": "TypeAlias",
+    "memberKind": "Property",
+    "parent": "Settings",
+    "description": "Theme setting of the application"
+  },
+  {
+    "id": "src/test/test:TypeAlias:Settings#property:layout",
+    "name": "layout",
+    "kind": "TypeAlias",
+    "memberKind": "Property",
+    "parent": "Settings",
+    "description": "Layout setting of the application"
+  },
+  {
+    "id": "src/test/test:Interface:TestBaseInterface",
+    "name": "TestBaseInterface",
+    "kind": "Interface",
+    "description": "Base interface to test the heritage clauses of interface declarations.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Interface:TestBaseInterface#property:createdAt",
+    "name": "createdAt",
+    "kind": "Interface",
+    "memberKind": "Property",
+    "parent": "TestBaseInterface",
+    "description": "Timestamp of creation"
+  },
+  {
+    "id": "src/test/test:Interface:TestInterfaceWithMembers",
+    "name": "TestInterfaceWithMembers",
+    "kind": "Interface",
+    "description": "Tests interface declarations with generics, heritage clauses and every kind of member:\nproperties, methods, call signatures, construct signatures and index signatures.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Interface:TestInterfaceWithMembers#property:id",
+    "name": "id",
+    "kind": "Interface",
+    "memberKind": "Property",
+    "parent": "TestInterfaceWithMembers",
+    "description": "Readonly identifier of the entry"
+  },
+  {
+    "id": "src/test/test:Interface:TestInterfaceWithMembers#property:label",
+    "name": "label",
+    "kind": "Interface",
+    "memberKind": "Property",
+    "parent": "TestInterfaceWithMembers",
+    "description": "Optional label of the entry"
+  },
+  {
+    "id": "src/test/test:Interface:TestInterfaceWithMembers#method:getLabel",
+    "name": "getLabel",
+    "kind": "Interface",
+    "memberKind": "Method",
+    "parent": "TestInterfaceWithMembers",
+    "description": "Method signature returning the label of the entry.",
+    "tags": [
+      "param"
+    ]
+  },
+  {
+    "id": "src/test/test:Interface:TestInterfaceWithMembers#callSignature",
+    "name": "callSignature",
+    "kind": "Interface",
+    "memberKind": "CallSignature",
+    "parent": "TestInterfaceWithMembers",
+    "description": "Call signature of the interface"
+  },
+  {
+    "id": "src/test/test:Interface:TestInterfaceWithMembers#constructSignature",
+    "name": "constructSignature",
+    "kind": "Interface",
+    "memberKind": "ConstructSignature",
+    "parent": "TestInterfaceWithMembers",
+    "description": "Construct signature of the interface"
+  },
+  {
+    "id": "src/test/test:Interface:TestInterfaceWithMembers#indexSignature:string",
+    "name": "indexSignature",
+    "kind": "Interface",
+    "memberKind": "IndexSignature",
+    "parent": "TestInterfaceWithMembers",
+    "description": "Index signature of the interface"
+  },
+  {
+    "id": "src/test/test:Interface:TestMergedInterface",
+    "name": "TestMergedInterface",
+    "kind": "Interface",
+    "description": "Tests merged interface declarations, which are documented as one interface. The docs of the second declaration are added to the docs of the first."
+  },
+  {
+    "id": "src/test/test:Interface:TestMergedInterface#property:first",
+    "name": "first",
+    "kind": "Interface",
+    "memberKind": "Property",
+    "parent": "TestMergedInterface",
+    "description": "Declared in the first declaration"
+  },
+  {
+    "id": "src/test/test:Interface:TestMergedInterface#method:format",
+    "name": "format",
+    "kind": "Interface",
+    "memberKind": "Method",
+    "parent": "TestMergedInterface",
+    "description": "Formats the value."
+  },
+  {
+    "id": "src/test/test:Interface:TestMergedInterface#property:second",
+    "name": "second",
+    "kind": "Interface",
+    "memberKind": "Property",
+    "parent": "TestMergedInterface",
+    "description": "Declared in the second declaration"
+  },
+  {
+    "id": "src/test/test:Namespace:TestNamespace",
+    "name": "TestNamespace",
+    "kind": "Namespace",
+    "description": "Tests namespace declarations, verifying that the declarations it contains are extracted\nrecursively together with their own JSDoc.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Variable:TestNamespace.version",
+    "name": "TestNamespace.version",
+    "kind": "Variable",
+    "description": "Version of the namespace"
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestNamespace.Options",
+    "name": "TestNamespace.Options",
+    "kind": "TypeAlias",
+    "description": "Options declared inside a namespace"
+  },
+  {
+    "id": "src/test/test:TypeAlias:TestNamespace.Options#property:enabled",
+    "name": "enabled",
+    "kind": "TypeAlias",
+    "memberKind": "Property",
+    "parent": "TestNamespace.Options",
+    "description": "Whether the namespace is enabled"
+  },
+  {
+    "id": "src/test/test:Namespace:TestNamespace.Nested",
+    "name": "TestNamespace.Nested",
+    "kind": "Namespace",
+    "description": "Tests a namespace nested inside another namespace."
+  },
+  {
+    "id": "src/test/test:Function:TestNamespace.Nested.helper",
+    "name": "TestNamespace.Nested.helper",
+    "kind": "Function",
+    "description": "Function declared inside a nested namespace"
+  },
+  {
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods",
+    "name": "TestClassWithPropertiesAndMethods",
+    "kind": "Class",
+    "description": "Tests class declaration capabilities with private and public properties, constructor parameters,\nand method annotations. This test verifies that access modifiers and privacy settings are respected\nand documented accurately.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#property:firstName",
+    "name": "firstName",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestClassWithPropertiesAndMethods",
+    "description": "Publicly accessible first name of the user"
+  },
+  {
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#constructor",
+    "name": "constructor",
+    "kind": "Class",
+    "memberKind": "Constructor",
+    "parent": "TestClassWithPropertiesAndMethods",
+    "description": "Constructor that initializes user details."
+  },
+  {
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#method:greet",
+    "name": "greet",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "TestClassWithPropertiesAndMethods",
+    "description": "Method that greets the user, demonstrating return type documentation."
+  },
+  {
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#method:format",
+    "name": "format",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "TestClassWithPropertiesAndMethods",
+    "description": "Overloaded method formatting a string."
+  },
+  {
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#property:logDetails",
+    "name": "logDetails",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestClassWithPropertiesAndMethods",
+    "description": "A private method demonstrating privacy within classes.\nThis method logs a private message."
+  },
+  {
+    "id": "src/test/test:Class:TestClassWithPropertiesAndMethods#method:getDetails",
+    "name": "getDetails",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "TestClassWithPropertiesAndMethods",
+    "description": "A protected method showing how protected members are handled.\nThis method returns the details in a formatted string."
+  },
+  {
+    "id": "src/test/test:Class:AbstractUser",
+    "name": "AbstractUser",
+    "kind": "Class",
+    "description": "Abstract class to demonstrate inheritance and method overriding.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Class:AbstractUser#property:name",
+    "name": "name",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "AbstractUser",
+    "description": "The name of the user"
+  },
+  {
+    "id": "src/test/test:Class:AbstractUser#constructor",
+    "name": "constructor",
+    "kind": "Class",
+    "memberKind": "Constructor",
+    "parent": "AbstractUser"
+  },
+  {
+    "id": "src/test/test:Class:AbstractUser#method:greet",
+    "name": "greet",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "AbstractUser",
+    "description": "Abstract method to be implemented by subclasses. Must return a greeting message."
+  },
+  {
+    "id": "src/test/test:Class:AbstractUser#method:getName",
+    "name": "getName",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "AbstractUser",
+    "description": "A public method accessible to instances of subclasses.\nThis method returns the name of the user."
+  },
+  {
+    "id": "src/test/test:Class:ConcreteUser",
+    "name": "ConcreteUser",
+    "kind": "Class",
+    "description": "Concrete class extending an abstract class, implementing the required abstract method."
+  },
+  {
+    "id": "src/test/test:Class:ConcreteUser#constructor",
+    "name": "constructor",
+    "kind": "Class",
+    "memberKind": "Constructor",
+    "parent": "ConcreteUser"
+  },
+  {
+    "id": "src/test/test:Class:ConcreteUser#method:greet",
+    "name": "greet",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "ConcreteUser",
+    "description": "Implementation of the abstract greet method."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericBase",
+    "name": "TestGenericBase",
+    "kind": "Class",
+    "description": "Tests a generic base class, whose members are inherited with its type arguments substituted.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Class:TestGenericBase#property:value",
+    "name": "value",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestGenericBase",
+    "description": "The value of the base."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericBase#property:secret",
+    "name": "secret",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestGenericBase",
+    "description": "Only visible to the base."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericBase#constructor",
+    "name": "constructor",
+    "kind": "Class",
+    "memberKind": "Constructor",
+    "parent": "TestGenericBase"
+  },
+  {
+    "id": "src/test/test:Class:TestGenericBase#method:get",
+    "name": "get",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "TestGenericBase",
+    "description": "Returns the value."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericBase#method:map",
+    "name": "map",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "TestGenericBase",
+    "description": "Transforms the value.",
+    "tags": [
+      "param"
+    ]
+  },
+  {
+    "id": "src/test/test:Class:TestInstantiatedSubclass",
+    "name": "TestInstantiatedSubclass",
+    "kind": "Class",
+    "description": "Tests inheriting from an instantiated generic base class.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Class:TestInstantiatedSubclass#method:map",
+    "name": "map",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "TestInstantiatedSubclass",
+    "description": "Transforms the value, overriding the base."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass",
+    "name": "TestGenericClass",
+    "kind": "Class",
+    "description": "Tests a generic class implementing an interface, with static, readonly, optional and overriding\nmembers, accessors and an index signature.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#indexSignature:string",
+    "name": "indexSignature",
+    "kind": "Class",
+    "memberKind": "IndexSignature",
+    "parent": "TestGenericClass"
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#static-property:count",
+    "name": "count",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestGenericClass",
+    "description": "The number of created instances."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#property:id",
+    "name": "id",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestGenericClass",
+    "description": "The identifier of the instance."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#property:label",
+    "name": "label",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestGenericClass",
+    "description": "An optional label."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#property:createdAt",
+    "name": "createdAt",
+    "kind": "Class",
+    "memberKind": "Property",
+    "parent": "TestGenericClass",
+    "description": "Timestamp of creation"
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#constructor",
+    "name": "constructor",
+    "kind": "Class",
+    "memberKind": "Constructor",
+    "parent": "TestGenericClass"
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#accessor:value",
+    "name": "value",
+    "kind": "Class",
+    "memberKind": "Accessor",
+    "parent": "TestGenericClass",
+    "description": "The current value."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#accessor:upperId",
+    "name": "upperId",
+    "kind": "Class",
+    "memberKind": "Accessor",
+    "parent": "TestGenericClass",
+    "description": "The identifier in upper case."
+  },
+  {
+    "id": "src/test/test:Class:TestGenericClass#method:greet",
+    "name": "greet",
+    "kind": "Class",
+    "memberKind": "Method",
+    "parent": "TestGenericClass",
+    "description": "Greets with the identifier."
+  },
+  {
+    "id": "src/test/test:Enum:TestLogLevel",
+    "name": "TestLogLevel",
+    "kind": "Enum",
+    "description": "Tests the implementation and documentation of an enumeration with explicit values,\nensuring enums are not only declared but also their values are correctly set and utilized in\nfunction parameters.",
+    "tags": [
+      "tag"
+    ]
+  },
+  {
+    "id": "src/test/test:Enum:TestLogLevel#member:ERROR",
+    "name": "ERROR",
+    "kind": "Enum",
+    "memberKind": "Member",
+    "parent": "TestLogLevel"
+  },
+  {
+    "id": "src/test/test:Enum:TestLogLevel#member:WARN",
+    "name": "WARN",
+    "kind": "Enum",
+    "memberKind": "Member",
+    "parent": "TestLogLevel"
+  },
+  {
+    "id": "src/test/test:Enum:TestLogLevel#member:INFO",
+    "name": "INFO",
+    "kind": "Enum",
+    "memberKind": "Member",
+    "parent": "TestLogLevel"
+  },
+  {
+    "id": "src/test/test:Enum:TestLogLevel#member:DEBUG",
+    "name": "DEBUG",
+    "kind": "Enum",
+    "memberKind": "Member",
+    "parent": "TestLogLevel"
+  },
+  {
+    "id": "src/test/test:Function:testFunctionUsingEnum",
+    "name": "testFunctionUsingEnum",
+    "kind": "Function"
+  },
+  {
+    "id": "src/test/test:Function:testFunctionAlias",
+    "name": "testFunctionAlias",
+    "kind": "Function"
   }
-] as const satisfies Type[]
\ No newline at end of file
+] as const satisfies SearchIndex
\ No newline at end of file
@@ -0,0 +1,145 @@
+/**
+ * Options to configure the output of `createUnifiedDiff`.
+ */
+export interface UnifiedDiffOptions {
+  /** Label of the original text in the header of the diff. */
+  fromFile?: string
+  /** Label of the changed text in the header of the diff. */
+  toFile?: string
+  /**
+   * Number of unchanged lines shown around each change.
+   * @default 3
+   */
+  context?: number
+}
+
+type Operation = { type: ' ' | '-' | '+'; line: string }
+
+/** Above this many cells the line table is not computed and the changed lines are replaced as a whole. */
+const maxTableSize = 25_000_000
+
+/**
+ * Creates a unified diff between two texts, in the format of `diff -u`.
+ * @param from - The original text.
+ * @param to - The changed text.
+ * @param options - Options to configure the output.
+ * @returns The diff, or an empty string when the texts are equal.
+ */
+export function createUnifiedDiff(from: string, to: string, options: UnifiedDiffOptions = {}) {
+  const { fromFile = 'a', toFile = 'b', context = 3 } = options
+  if (from === to) return ''
+
+  const operations = diffLines(splitLines(from), splitLines(to))
+  const lines = [`--- ${fromFile}`, `+++ ${toFile}`]
+
+  let index = 0
+  while (index < operations.length) {
+    // find the next change and the context before it
+    while (index < operations.length && operations[index].type === ' ') index++
+    if (index === operations.length) break
+
+    const start = Math.max(0, index - context)
+    let end = index
+    // extend the hunk as long as changes are separated by less than two contexts
+    for (let unchanged = 0; end < operations.length && unchanged <= context * 2; end++) {
+      unchanged = operations[end].type === ' ' ? unchanged + 1 : 0
+    }
+    while (end > index && operations[end - 1].type === ' ') end--
+    end = Math.min(operations.length, end + context)
+
+    const before = operations.slice(0, start)
+    const hunk = operations.slice(start, end)
+    const fromStart = before.filter(operation => operation.type !== '+').length
+    const toStart = before.filter(operation => operation.type !== '-').length
+    const fromLength = hunk.filter(operation => operation.type !== '+').length
+    const toLength = hunk.filter(operation => operation.type !== '-').length
+
+    lines.push(
+      `@@ -${formatRange(fromStart, fromLength)} +${formatRange(toStart, toLength)} @@`,
+      ...hunk.map(operation => operation.type + operation.line),
+    )
+    index = end
+  }
+
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Computes the line operations that turn `from` into `to`, using the longest common subsequence
+ * of the lines that remain after trimming the common prefix and suffix.
+ */
+function diffLines(from: readonly string[], to: readonly string[]): Operation[] {
+  let prefix = 0
+  while (prefix < from.length && prefix < to.length && from[prefix] === to[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < from.length - prefix &&
+    suffix < to.length - prefix &&
+    from[from.length - 1 - suffix] === to[to.length - 1 - suffix]
+  ) {
+    suffix++
+  }
+
+  const a = from.slice(prefix, from.length - suffix)
+  const b = to.slice(prefix, to.length - suffix)
+  const middle: Operation[] = []
+
+  if (a.length * b.length > maxTableSize) {
+    middle.push(
+      ...a.map(line => ({ type: '-' as const, line })),
+      ...b.map(line => ({ type: '+' as const, line })),
+    )
+  } else {
+    // table[i * width + j] is the length of the common subsequence of a[i..] and b[j..]
+    const width = b.length + 1
+    const table = new Uint32Array((a.length + 1) * width)
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        table[i * width + j] =
+          a[i] === b[j]
+            ? table[(i + 1) * width + j + 1] + 1
+            : Math.max(table[(i + 1) * width + j], table[i * width + j + 1])
+      }
+    }
+    let i = 0
+    let j = 0
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        middle.push({ type: ' ', line: a[i] })
+        i++
+        j++
+      } else if (
+        i < a.length &&
+        (j === b.length || table[(i + 1) * width + j] >= table[i * width + j + 1])
+      ) {
+        middle.push({ type: '-', line: a[i++] })
+      } else {
+        middle.push({ type: '+', line: b[j++] })
+      }
+    }
+  }
+
+  return [
+    ...from.slice(0, prefix).map(line => ({ type: ' ' as const, line })),
+    ...middle,
+    ...from.slice(from.length - suffix).map(line => ({ type: ' ' as const, line })),
+  ]
+}
+
+function splitLines(text: string) {
+  if (text === '') return []
+  const lines = text.split('\n')
+  if (lines[lines.length - 1] === '') {
+    lines.pop()
+  } else {
+    // a last line without newline differs from the same line with one, and is marked like `diff -u`
+    lines[lines.length - 1] += '\n\\ No newline at end of file'
+  }
+  return lines
+}
+
+function formatRange(start: number, length: number) {
+  // ranges are 1-based, an empty range points at the line before it
+  const line = length === 0 ? start : start + 1
+  return length === 1 ? `${line}` : `${line},${length}`
+}
@@ -0,0 +1,497 @@
+import path from 'path'
+import { bundledLanguages, codeToHtml } from 'shiki'
+import {
+  findLinkTargetId,
+  formatSourceUrl,
+  getDisplayName,
+  getMemberTable,
+  getParameterTable,
+  isUrl,
+  printDeclaration,
+  printType,
+  splitExample,
+  splitLinks,
+  type Table,
+} from './markdown'
+import { createReferenceIndex } from './references'
+import type {
+  FunctionSignature,
+  JSDocInfo,
+  JSDocLink,
+  JSDocTag,
+  ReferenceIndex,
+  TypeElement,
+} from './types'
+
+/**
+ * Options to configure the static site of `renderHtml`.
+ */
+export interface HtmlOptions {
+  /**
+   * Title of the site, shown above the navigation and on the index page.
+   * @default 'API'
+   */
+  title?: string
+  /**
+   * Template of the URL the source location of each element links to, see `MarkdownOptions`.
+   */
+  sourceUrl?: string
+  /**
+   * Shiki theme the code is highlighted with.
+   * @default 'vitesse-light'
+   */
+  theme?: string
+}
+
+interface Module {
+  name: string
+  page: string
+  elements: readonly TypeElement[]
+}
+
+interface Context {
+  page: string
+  modules: readonly Module[]
+  /** The page of every element by its ID, and the ID of every element by its qualified name. */
+  pages: ReadonlyMap<string, string>
+  ids: ReadonlyMap<string, string>
+  referencedBy: ReferenceIndex
+  options: HtmlOptions
+}
+
+const kindTitles: Record<TypeElement['kind'], string> = {
+  Function: 'Function',
+  Class: 'Class',
+  Interface: 'Interface',
+  TypeAlias: 'Type Alias',
+  Enum: 'Enum',
+  Variable: 'Variable',
+  Namespace: 'Namespace',
+}
+
+/**
+ * Renders extracted elements as a static documentation site: an index page and a page per module,
+ * with a navigation of all modules, anchors for every element and member, and code that is
+ * highlighted ahead of time, so the pages need no scripts and can be served by any static host.
+ * @param elements - The elements returned by `parseDeclarationFile`.
+ * @param options - Options to configure the site.
+ * @returns The HTML of the pages by their path relative to the root of the site.
+ */
+export async function renderHtml(elements: readonly TypeElement[], options: HtmlOptions = {}) {
+  const modules = groupModules(elements)
+  const pages = new Map<string, string>()
+  const ids = new Map<string, string>()
+  modules.forEach(module =>
+    forEachElement(module.elements, (element, qualifiedName) => {
+      if (!element.id) return
+      pages.set(element.id, module.page)
+      if (!ids.has(qualifiedName)) ids.set(qualifiedName, element.id)
+    }),
+  )
+  const referencedBy = createReferenceIndex(elements)
+
+  const files = new Map<string, string>()
+  const createContext = (page: string): Context => ({
+    page,
+    modules,
+    pages,
+    ids,
+    referencedBy,
+    options,
+  })
+
+  const indexContext = createContext('index.html')
+  files.set(
+    'index.html',
+    renderPage(options.title || 'API', renderIndex(indexContext), indexContext),
+  )
+  for (const module of modules) {
+    const context = createContext(module.page)
+    const sections: string[] = []
+    for (const element of module.elements) {
+      sections.push(await renderElement(element, 2, context))
+    }
+    files.set(
+      module.page,
+      renderPage(
+        module.name,
+        `<h1>${escapeHtml(module.name)}</h1>\n${sections.join('\n')}`,
+        context,
+      ),
+    )
+  }
+
+  return files
+}
+
+/**
+ * Groups the elements by the module they are declared in, which is the part of their ID before
+ * the qualified name.
+ */
+function groupModules(elements: readonly TypeElement[]): Module[] {
+  const modules = new Map<string, TypeElement[]>()
+  for (const element of elements) {
+    const name = element.id?.split(':')[0] || element.fileName || 'index'
+    if (!modules.has(name)) modules.set(name, [])
+    modules.get(name)!.push(element)
+  }
+  return [...modules].map(([name, elements]) => ({
+    name,
+    // modules outside of the project root are placed in the site as well
+    page: `modules/${name.replace(/^(\.\.\/)+/, '')}.html`,
+    elements,
+  }))
+}
+
+function forEachElement(
+  elements: readonly TypeElement[],
+  callback: (element: TypeElement, qualifiedName: string) => void,
+  prefix = '',
+) {
+  for (const element of elements) {
+    const qualifiedName = prefix + getDisplayName(element)
+    callback(element, qualifiedName)
+    if (element.kind === 'Namespace') {
+      forEachElement(element.members, callback, `${qualifiedName}.`)
+    }
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Pages                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+function renderPage(title: string, content: string, context: Context) {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(title)}</title>
+<style>${styles}</style>
+</head>
+<body>
+${renderNavigation(context)}
+<main>
+${content}
+</main>
+</body>
+</html>
+`
+}
+
+function renderNavigation(context: Context) {
+  const modules = context.modules.map(module => {
+    const current = module.page === context.page ? ' aria-current="page"' : ''
+    const elements = module.elements
+      .map(
+        element =>
+          `<li><a href="${getHref(element.id, context)}">${escapeHtml(
+            getDisplayName(element),
+          )}</a></li>`,
+      )
+      .join('')
+    return `<li><a href="${relativeUrl(context.page, module.page)}"${current}>${escapeHtml(
+      module.name,
+    )}</a><ul>${elements}</ul></li>`
+  })
+  return `<nav>
+<a class="title" href="${relativeUrl(context.page, 'index.html')}">${escapeHtml(
+    context.options.title || 'API',
+  )}</a>
+<ul>${modules.join('\n')}</ul>
+</nav>`
+}
+
+function renderIndex(context: Context) {
+  const modules = context.modules.map(module => {
+    const rows = module.elements.map(
+      element =>
+        `<tr><td><a href="${getHref(element.id, context)}">${escapeHtml(
+          getDisplayName(element),
+        )}</a></td><td>${kindTitles[element.kind]}</td><td>${renderText(
+          element.jsdoc?.description?.[0] || '',
+          element.jsdoc?.links,
+          context,
+        )}</td></tr>`,
+    )
+    return `<h2><a href="${relativeUrl(context.page, module.page)}">${escapeHtml(
+      module.name,
+    )}</a></h2>
+<table>
+<thead><tr><th>Name</th><th>Kind</th><th>Description</th></tr></thead>
+<tbody>${rows.join('\n')}</tbody>
+</table>`
+  })
+  return `<h1>${escapeHtml(context.options.title || 'API')}</h1>\n${modules.join('\n')}`
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                    Elements                                    */
+/*                                                                                */
+/**********************************************************************************/
+
+async function renderElement(element: TypeElement, level: number, context: Context) {
+  const { sourceUrl } = context.options
+  const html = [
+    `<h${level}><a class="anchor" href="#${toFragment(element.id || '')}">${escapeHtml(
+      getDisplayName(element),
+    )}</a> <small>${kindTitles[element.kind]}</small></h${level}>`,
+  ]
+  if (sourceUrl && element.source) {
+    html.push(
+      `<p class="source">Defined in <a href="${escapeHtml(
+        formatSourceUrl(sourceUrl, element.source),
+      )}"><code>${escapeHtml(
+        `${element.source.path}:${element.source.start.line}`,
+      )}</code></a></p>`,
+    )
+  }
+
+  if (element.kind === 'Namespace') {
+    html.push(renderDescription(element.jsdoc, context))
+    for (const member of element.members) {
+      html.push(await renderElement(member, level + 1, context))
+    }
+  } else if (element.kind === 'Function' && element.signatures.length > 1) {
+    // overloads each render their own description
+    html.push(await highlight(printDeclaration(element).join('\n'), context))
+    for (const [index, signature] of element.signatures.entries()) {
+      html.push(`<p><strong>Overload ${index + 1}</strong></p>`)
+      html.push(renderDescription(signature.jsdoc, context))
+      html.push(renderSignatureDetails(signature, context))
+      html.push(await renderExamples(signature.jsdoc, context))
+    }
+  } else {
+    html.push(renderDescription(element.jsdoc, context))
+    html.push(await highlight(printDeclaration(element).join('\n'), context))
+    if (element.kind === 'Function') {
+      html.push(renderSignatureDetails(element.signatures[0], context))
+    }
+    html.push(await renderTable(getMemberTable(element), context))
+    html.push(await renderExamples(element.jsdoc, context))
+  }
+
+  html.push(renderUsedIn(element, context))
+
+  return `<section id="${escapeHtml(element.id || '')}">\n${html
+    .filter(Boolean)
+    .join('\n')}\n</section>`
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Details                                    */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Renders the description of an element, preceded by its deprecation notice and followed by the
+ * `@since`, `@throws` and `@see` tags.
+ */
+function renderDescription(jsdoc: JSDocInfo | undefined, context: Context) {
+  const tags = jsdoc?.tags || []
+  const html: string[] = []
+  for (const tag of tags.filter(tag => tag.tagName === 'deprecated')) {
+    html.push(
+      `<p class="deprecated"><strong>Deprecated</strong>${
+        tag.comment ? ` ${renderTagComment(tag, context)}` : ''
+      }</p>`,
+    )
+  }
+  for (const paragraph of (jsdoc?.description || []).flatMap(text => text.split(/\n\s*\n/))) {
+    html.push(`<p>${renderText(paragraph, jsdoc?.links, context)}</p>`)
+  }
+  for (const tag of tags) {
+    if (tag.tagName === 'since' && tag.comment) {
+      html.push(`<p><strong>Since</strong> ${renderTagComment(tag, context)}</p>`)
+    } else if (tag.tagName === 'throws') {
+      html.push(renderTag('Throws', tag.literal, tag, context))
+    } else if (tag.tagName === 'see') {
+      html.push(renderTag('See', tag.name, tag, context))
+    }
+  }
+  return html.join('\n')
+}
+
+function renderTag(title: string, name: string | undefined, tag: JSDocTag, context: Context) {
+  return `<p>${[
+    `<strong>${title}</strong>`,
+    name && `<code>${escapeHtml(name)}</code>`,
+    tag.comment && renderTagComment(tag, context),
+  ]
+    .filter(Boolean)
+    .join(' ')}</p>`
+}
+
+async function renderExamples(jsdoc: JSDocInfo | undefined, context: Context, name?: string) {
+  const html: string[] = []
+  for (const tag of jsdoc?.tags || []) {
+    if (tag.tagName !== 'example' || !tag.comment) continue
+    html.push(`<p><strong>Example</strong>${name ? ` <code>${escapeHtml(name)}</code>` : ''}</p>`)
+    for (const part of splitExample(tag.comment)) {
+      html.push(
+        part.kind === 'code'
+          ? await highlight(part.code, context, part.lang)
+          : `<p>${renderText(part.text, tag.links, context)}</p>`,
+      )
+    }
+  }
+  return html.join('\n')
+}
+
+function renderSignatureDetails(signature: FunctionSignature, context: Context) {
+  const html = [renderTableRows(getParameterTable(signature), context)]
+  const returns = signature.returns?.description
+  if (signature.returnType || returns) {
+    html.push(
+      `<p><strong>Returns</strong> <code>${escapeHtml(printType(signature.returnType))}</code>${
+        returns ? ` — ${renderText(returns.join(' '), signature.returns?.links, context)}` : ''
+      }</p>`,
+    )
+  }
+  return html.filter(Boolean).join('\n')
+}
+
+async function renderTable(table: Table | undefined, context: Context) {
+  if (!table) return ''
+  const html = [renderTableRows(table, context)]
+  for (const [name, , jsdoc] of table.rows) {
+    html.push(await renderExamples(jsdoc, context, name))
+  }
+  return html.filter(Boolean).join('\n')
+}
+
+function renderTableRows(table: Table, context: Context) {
+  if (table.rows.length === 0) return ''
+  const rows = table.rows.map(([name, type, jsdoc], index) => {
+    const id = table.ids?.[index]
+    return `<tr${id ? ` id="${escapeHtml(id)}"` : ''}><td>${
+      id ? `<a class="anchor" href="#${toFragment(id)}">${escapeHtml(name)}</a>` : escapeHtml(name)
+    }</td><td>${type ? `<code>${escapeHtml(type)}</code>` : ''}</td><td>${renderText(
+      jsdoc?.description?.join(' ') || '',
+      jsdoc?.links,
+      context,
+    )}</td></tr>`
+  })
+  return `<table>
+<thead><tr>${table.header.map(cell => `<th>${escapeHtml(cell)}</th>`).join('')}</tr></thead>
+<tbody>${rows.join('\n')}</tbody>
+</table>`
+}
+
+function renderUsedIn(element: TypeElement, context: Context) {
+  const locations = (element.id && context.referencedBy[element.id]) || []
+  if (locations.length === 0) return ''
+  return `<p class="used-in"><strong>Used in</strong> ${locations
+    .map(location => {
+      const href = getHref(location.id, context)
+      const label = `<code>${escapeHtml(location.name)}</code>`
+      return href ? `<a href="${href}">${label}</a>` : label
+    })
+    .join(', ')}</p>`
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Printers                                   */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Renders a text of a JSDoc comment as HTML, with its inline links resolved to the elements they
+ * refer to and its code spans as code.
+ */
+function renderText(text: string, links: readonly JSDocLink[] | undefined, context: Context) {
+  return splitLinks(text, links)
+    .map(part => (typeof part === 'string' ? renderInline(part) : renderLink(part, context)))
+    .join('')
+}
+
+function renderTagComment(tag: JSDocTag, context: Context) {
+  return renderText(tag.comment || '', tag.links, context)
+}
+
+function renderLink(link: JSDocLink, context: Context) {
+  const label = escapeHtml(link.text || link.target)
+  const href = isUrl(link.target)
+    ? escapeHtml(link.target)
+    : getHref(findLinkTargetId(link.target, context.ids), context)
+  const content = link.kind === 'linkcode' ? `<code>${label}</code>` : label
+  return href ? `<a href="${href}">${content}</a>` : content
+}
+
+function renderInline(text: string) {
+  return escapeHtml(text).replace(/`([^`]+)`/g, '<code>$1</code>')
+}
+
+async function highlight(code: string, context: Context, lang = 'typescript') {
+  if (!code) return ''
+  return codeToHtml(code, {
+    // fences of examples can name any language, unknown ones are shown as plain text
+    lang: lang in bundledLanguages ? lang : 'text',
+    theme: context.options.theme || 'vitesse-light',
+  })
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                      Utils                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Returns the URL of the anchor of an element or member relative to the current page, or
+ * `undefined` when it is not part of the site.
+ */
+function getHref(id: string | undefined, context: Context) {
+  const page = id && context.pages.get(id.split('#')[0])
+  if (!page) return undefined
+  const url = page === context.page ? '' : relativeUrl(context.page, page)
+  return `${url}#${toFragment(id)}`
+}
+
+/**
+ * Encodes an ID for the fragment of a URL, keeping the separators of module paths and names
+ * readable.
+ */
+function toFragment(id: string) {
+  return encodeURI(id).replace(/#/g, '%23')
+}
+
+function relativeUrl(from: string, to: string) {
+  return path.posix.relative(path.posix.dirname(from), to)
+}
+
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+const styles = `
+body { margin: 0; display: flex; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #222; line-height: 1.5; }
+nav { position: sticky; top: 0; height: 100vh; overflow-y: auto; box-sizing: border-box; width: 280px; flex-shrink: 0; padding: 20px; border-right: 1px solid #eee; font-size: 14px; }
+nav ul { list-style: none; padding-left: 12px; margin: 4px 0; }
+nav > ul { padding-left: 0; }
+nav a { color: inherit; text-decoration: none; }
+nav a:hover, nav a[aria-current] { color: #0969da; }
+nav .title { display: block; font-weight: bold; font-size: 18px; margin-bottom: 12px; }
+main { flex: 1; min-width: 0; max-width: 960px; padding: 20px 40px; }
+section { margin-bottom: 48px; }
+h2, h3, h4 { margin-bottom: 8px; }
+h2 small, h3 small, h4 small { color: #888; font-weight: normal; font-size: 14px; margin-left: 8px; }
+a.anchor { color: inherit; text-decoration: none; }
+code { font-family: Menlo, Monaco, Consolas, 'Courier New', monospace; font-size: 0.9em; }
+pre.shiki { padding: 12px 16px; border-radius: 6px; overflow-x: auto; border: 1px solid #eee; }
+table { border-collapse: collapse; width: 100%; margin: 16px 0; }
+th, td { text-align: left; vertical-align: top; padding: 6px 10px; border-bottom: 1px solid #eee; }
+tr:target { background: #fff8c5; }
+.deprecated { padding: 8px 12px; border-left: 4px solid #d1242f; background: #fff5f5; }
+.source, .used-in { color: #666; font-size: 14px; }
+`
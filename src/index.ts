@@ -1,2 +1,9 @@
-export * from './readmi'
+export * from './parse'
 export * from './types'
+export * from './validate'
+export * from './diff'
+export * from './markdown'
+export * from './html'
+export * from './inject'
+export * from './references'
+export * from './search'
@@ -0,0 +1,118 @@
+import { createSlugger, renderElementBody, renderMarkdown, type MarkdownOptions } from './markdown'
+import type { TypeElement } from './types'
+
+const markerPattern = /<!-- (readmi:start|readmi:end|readmi:symbol ([^\s>]+)|\/readmi:symbol) -->/g
+const headingPattern = /^(#{1,6})\s+(.*?)\s*#*\s*$/gm
+const codeBlockPattern = /^(```|~~~)[\s\S]*?^\1/gm
+
+/**
+ * Replaces the marked regions of a Markdown document with the rendered docs of the elements,
+ * leaving the hand-written prose around them untouched.
+ *
+ * Supported markers:
+ * - `<!-- readmi:start -->` … `<!-- readmi:end -->` is replaced with the docs of all elements.
+ * - `<!-- readmi:symbol name -->` is followed by the docs of a single element, closed by an
+ *   inserted `<!-- /readmi:symbol -->`. Members of namespaces are addressed with a dotted path.
+ *
+ * Headings are nested below the heading that precedes the marker, so the output is idempotent.
+ * @param document - The Markdown document containing the markers.
+ * @param elements - The elements returned by `parseDeclarationFile`.
+ * @param options - Options to configure the rendered docs.
+ * @returns The document with the marked regions replaced.
+ * @throws {Error} When markers are unbalanced or a symbol cannot be found.
+ */
+export function injectMarkdown(
+  document: string,
+  elements: readonly TypeElement[],
+  options: Pick<MarkdownOptions, 'sourceUrl'> = {},
+) {
+  const codeBlocks = Array.from(document.matchAll(codeBlockPattern), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }))
+  // markers inside fenced code blocks are documentation of the markers, not markers
+  const markers = Array.from(document.matchAll(markerPattern)).filter(
+    marker => !codeBlocks.some(({ start, end }) => marker.index! > start && marker.index! < end),
+  )
+  let output = ''
+  let position = 0
+
+  for (let index = 0; index < markers.length; index++) {
+    const marker = markers[index]
+    const [text, type, symbol] = marker
+    const start = marker.index!
+    const next = markers[index + 1]
+
+    output += document.slice(position, start)
+    position = start + text.length
+
+    const headings = getHeadings(output)
+    const level = headings.length > 0 ? headings[headings.length - 1].level : 0
+    const slugger = createSlugger()
+    headings.forEach(heading => slugger.slug(heading.title))
+
+    if (type === 'readmi:start') {
+      if (next?.[1] !== 'readmi:end') {
+        throw new Error(
+          `${text} on line ${getLine(document, start)} is not closed by <!-- readmi:end -->`,
+        )
+      }
+      const markdown = renderMarkdown(elements, {
+        title: false,
+        headingLevel: level + 1,
+        slugger,
+        sourceUrl: options.sourceUrl,
+      })
+      output += `${text}\n\n${markdown}\n${next[0]}`
+      position = next.index! + next[0].length
+      index++
+    } else if (symbol) {
+      const element = findElement(elements, symbol)
+      if (!element) {
+        throw new Error(
+          `${text} on line ${getLine(document, start)} does not match an extracted declaration`,
+        )
+      }
+      const markdown = renderElementBody(element, level, slugger, options.sourceUrl)
+        .join('\n')
+        .trimEnd()
+      output += `${text}\n\n${markdown}\n\n<!-- /readmi:symbol -->`
+      if (next?.[1] === '/readmi:symbol') {
+        position = next.index! + next[0].length
+        index++
+      }
+    } else {
+      throw new Error(`${text} on line ${getLine(document, start)} has no matching opening marker`)
+    }
+  }
+
+  return output + document.slice(position)
+}
+
+/**
+ * Finds an element by its name or export name, descending into namespaces for dotted paths.
+ */
+function findElement(elements: readonly TypeElement[], path: string): TypeElement | undefined {
+  const [name, ...rest] = path.split('.')
+  const element = elements.find(element => (element.exportName || element.name) === name)
+  if (!element || rest.length === 0) return element
+  if (element.kind !== 'Namespace') return undefined
+  return findElement(element.members, rest.join('.'))
+}
+
+/**
+ * Returns the ATX headings of a Markdown document, ignoring lines inside fenced code blocks.
+ */
+function getHeadings(markdown: string) {
+  return Array.from(markdown.replace(codeBlockPattern, '').matchAll(headingPattern), match => ({
+    level: match[1].length,
+    title: match[2],
+  }))
+}
+
+/**
+ * Returns the 1-based line number of an offset in a document.
+ */
+function getLine(document: string, offset: number) {
+  return document.slice(0, offset).split('\n').length
+}
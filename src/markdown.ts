@@ -0,0 +1,803 @@
+import type {
+  ClassElement,
+  ClassMember,
+  EnumElement,
+  FunctionElement,
+  FunctionSignature,
+  GenericDeclaration,
+  InterfaceElement,
+  InterfaceMember,
+  JSDocInfo,
+  JSDocLink,
+  JSDocTag,
+  NamespaceElement,
+  Parameter,
+  SourceLocation,
+  TypeAliasElement,
+  TypeAnnotation,
+  TypeElement,
+  VariableElement,
+} from './types'
+
+/**
+ * Options to configure the Markdown output of `renderMarkdown`.
+ */
+export interface MarkdownOptions {
+  /**
+   * Title of the document. No title is rendered when set to `false`.
+   * @default 'API'
+   */
+  title?: string | false
+  /**
+   * Level of the title heading, sections and elements are rendered one and two levels deeper.
+   * @default 1
+   */
+  headingLevel?: number
+  /**
+   * Whether to render a table of contents.
+   * @default true
+   */
+  tableOfContents?: boolean
+  /**
+   * Slugger used for the heading anchors, to keep them unique among the headings of a surrounding document.
+   */
+  slugger?: Slugger
+  /**
+   * Template of the URL the source location of each element links to, e.g.
+   * `https://github.com/owner/repo/blob/main/{path}#L{line}`. The placeholders `{path}`, `{line}`,
+   * `{column}`, `{endLine}` and `{endColumn}` are replaced with the location. Without a template no
+   * source links are rendered.
+   */
+  sourceUrl?: string
+}
+
+const sections: readonly { kind: TypeElement['kind']; title: string }[] = [
+  { kind: 'Function', title: 'Functions' },
+  { kind: 'Class', title: 'Classes' },
+  { kind: 'Interface', title: 'Interfaces' },
+  { kind: 'TypeAlias', title: 'Type Aliases' },
+  { kind: 'Enum', title: 'Enums' },
+  { kind: 'Variable', title: 'Variables' },
+  { kind: 'Namespace', title: 'Namespaces' },
+]
+
+/**
+ * Renders extracted elements as a Markdown document, with a section per element kind.
+ * @param elements - The elements returned by `parseDeclarationFile`.
+ * @param options - Options to configure the output.
+ * @returns The Markdown document.
+ */
+export function renderMarkdown(elements: readonly TypeElement[], options: MarkdownOptions = {}) {
+  const {
+    title = 'API',
+    headingLevel = 1,
+    tableOfContents = true,
+    slugger = createSlugger(),
+    sourceUrl,
+  } = options
+  const lines: string[] = []
+  const contents: string[] = []
+
+  if (title !== false) {
+    lines.push(`${heading(headingLevel)} ${title}`, '')
+    slugger.slug(title)
+  }
+  const sectionLevel = title !== false ? headingLevel + 1 : headingLevel
+
+  const sectionLines: string[] = []
+  for (const section of sections) {
+    const sectionElements = elements.filter(element => element.kind === section.kind)
+    if (sectionElements.length === 0) continue
+
+    contents.push(`- [${section.title}](#${slugger.slug(section.title)})`)
+    sectionLines.push(`${heading(sectionLevel)} ${section.title}`, '')
+
+    for (const element of sectionElements) {
+      const name = getDisplayName(element)
+      contents.push(`  - [${name}](#${slugger.slug(name)})`)
+      sectionLines.push(...renderElement(element, sectionLevel + 1, slugger, sourceUrl))
+    }
+  }
+
+  if (tableOfContents && contents.length > 0) {
+    lines.push(`${heading(sectionLevel)} Table of Contents`, '', ...contents, '')
+  }
+  lines.push(...sectionLines)
+
+  return lines.join('\n').trimEnd() + '\n'
+}
+
+/**
+ * Renders a single element, including its heading.
+ * @param element - The element to render.
+ * @param level - The heading level of the element.
+ * @param slugger - The slugger used for the headings of the document, to keep anchors unique.
+ * @param sourceUrl - Template of the URL the source location links to, see `MarkdownOptions`.
+ * @returns The lines of Markdown.
+ */
+export function renderElement(
+  element: TypeElement,
+  level: number,
+  slugger: Slugger = createSlugger(),
+  sourceUrl?: string,
+): string[] {
+  return [
+    `${heading(level)} ${getDisplayName(element)}`,
+    '',
+    ...renderElementBody(element, level, slugger, sourceUrl),
+  ]
+}
+
+/**
+ * Renders the body of a single element, without its heading.
+ * @param element - The element to render.
+ * @param level - The heading level of the element.
+ * @param slugger - The slugger used for the headings of the document, to keep anchors unique.
+ * @param sourceUrl - Template of the URL the source location links to, see `MarkdownOptions`.
+ * @returns The lines of Markdown.
+ */
+export function renderElementBody(
+  element: TypeElement,
+  level: number,
+  slugger: Slugger = createSlugger(),
+  sourceUrl?: string,
+): string[] {
+  return [
+    ...(sourceUrl && element.source ? renderSource(element.source, sourceUrl) : []),
+    ...renderElementKind(element, level, slugger, sourceUrl),
+  ]
+}
+
+function renderElementKind(
+  element: TypeElement,
+  level: number,
+  slugger: Slugger,
+  sourceUrl: string | undefined,
+) {
+  switch (element.kind) {
+    case 'Function':
+      return renderFunction(element)
+    case 'Class':
+      return renderClass(element)
+    case 'Interface':
+      return renderInterface(element)
+    case 'TypeAlias':
+      return renderTypeAlias(element)
+    case 'Enum':
+      return renderEnum(element)
+    case 'Variable':
+      return renderVariable(element)
+    case 'Namespace':
+      return renderNamespace(element, level, slugger, sourceUrl)
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                    Elements                                    */
+/*                                                                                */
+/**********************************************************************************/
+
+function renderFunction(element: FunctionElement) {
+  const isOverloaded = element.signatures.length > 1
+  const lines = [
+    // overloads each render their own description
+    ...(isOverloaded ? [] : renderDescription(element.jsdoc)),
+    ...codeBlock(printDeclaration(element)),
+  ]
+
+  element.signatures.forEach((signature, index) => {
+    if (isOverloaded) {
+      lines.push(`**Overload ${index + 1}**`, '')
+      lines.push(...renderDescription(signature.jsdoc))
+    }
+    lines.push(...renderSignatureDetails(signature))
+    lines.push(...renderExamples(signature.jsdoc))
+  })
+
+  return lines
+}
+
+function renderClass(element: ClassElement) {
+  return [
+    ...renderDescription(element.jsdoc),
+    ...codeBlock(printDeclaration(element)),
+    ...renderTable(getMemberTable(element)),
+    ...renderExamples(element.jsdoc),
+  ]
+}
+
+function renderInterface(element: InterfaceElement) {
+  return [
+    ...renderDescription(element.jsdoc),
+    ...codeBlock(printDeclaration(element)),
+    ...renderTable(getMemberTable(element)),
+    ...renderExamples(element.jsdoc),
+  ]
+}
+
+function renderTypeAlias(element: TypeAliasElement) {
+  return [
+    ...renderDescription(element.jsdoc),
+    ...codeBlock(printDeclaration(element)),
+    ...renderTable(getMemberTable(element)),
+    ...renderExamples(element.jsdoc),
+  ]
+}
+
+function renderEnum(element: EnumElement) {
+  return [
+    ...renderDescription(element.jsdoc),
+    ...codeBlock(printDeclaration(element)),
+    ...renderTable(getMemberTable(element)),
+    ...renderExamples(element.jsdoc),
+  ]
+}
+
+function renderVariable(element: VariableElement) {
+  return [
+    ...renderDescription(element.jsdoc),
+    ...codeBlock(printDeclaration(element)),
+    ...renderTable(getMemberTable(element)),
+    ...renderExamples(element.jsdoc),
+  ]
+}
+
+function renderNamespace(
+  element: NamespaceElement,
+  level: number,
+  slugger: Slugger,
+  sourceUrl: string | undefined,
+) {
+  return [
+    ...renderDescription(element.jsdoc),
+    ...element.members.flatMap(member => {
+      slugger.slug(getDisplayName(member))
+      return renderElement(member, level + 1, slugger, sourceUrl)
+    }),
+  ]
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Details                                    */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Renders the description of an element, preceded by its deprecation notice and followed by the
+ * `@since`, `@throws` and `@see` tags.
+ */
+function renderDescription(jsdoc?: JSDocInfo) {
+  const tags = jsdoc?.tags || []
+  const lines: string[] = []
+  for (const tag of tags.filter(tag => tag.tagName === 'deprecated')) {
+    lines.push(`> **Deprecated**${tag.comment ? ` ${renderTagComment(tag)}` : ''}`, '')
+  }
+  if (jsdoc?.description) {
+    lines.push(renderText(jsdoc.description.join('\n\n'), jsdoc.links), '')
+  }
+  for (const tag of tags) {
+    if (tag.tagName === 'since' && tag.comment) {
+      lines.push(`**Since** ${renderTagComment(tag)}`, '')
+    } else if (tag.tagName === 'throws') {
+      lines.push(
+        ['**Throws**', tag.literal && `\`${tag.literal}\``, tag.comment && renderTagComment(tag)]
+          .filter(Boolean)
+          .join(' '),
+        '',
+      )
+    } else if (tag.tagName === 'see') {
+      lines.push(
+        ['**See**', tag.name && `\`${tag.name}\``, tag.comment && renderTagComment(tag)]
+          .filter(Boolean)
+          .join(' '),
+        '',
+      )
+    }
+  }
+  return lines
+}
+
+function renderExamples(jsdoc?: JSDocInfo, name?: string) {
+  return (jsdoc?.tags || [])
+    .filter(tag => tag.tagName === 'example' && tag.comment)
+    .flatMap(tag => [
+      name ? `**Example** \`${name}\`` : '**Example**',
+      '',
+      ...splitExample(tag.comment!).flatMap(part =>
+        part.kind === 'code' ? codeBlock([part.code], part.lang) : [part.text, ''],
+      ),
+    ])
+}
+
+function renderSignatureDetails(signature: FunctionSignature) {
+  const lines = renderTable(getParameterTable(signature))
+  const returns = signature.returns?.description
+  if (signature.returnType || returns) {
+    lines.push(
+      `**Returns** \`${printType(signature.returnType)}\`${
+        returns ? ` — ${renderText(returns.join(' '), signature.returns?.links)}` : ''
+      }`,
+      '',
+    )
+  }
+  return lines
+}
+
+function renderTable(table?: Table) {
+  if (!table || table.rows.length === 0) return []
+  return [
+    `| ${table.header.join(' | ')} |`,
+    `| ${table.header.map(() => '---').join(' | ')} |`,
+    ...table.rows.map(([name, type, jsdoc]) =>
+      [
+        '',
+        escapeCell(name),
+        type ? `\`${escapeCell(type)}\`` : '',
+        escapeCell(renderText(jsdoc?.description?.join(' ') || '', jsdoc?.links)),
+        '',
+      ]
+        .join(' | ')
+        .trim(),
+    ),
+    '',
+    ...table.rows.flatMap(([name, , jsdoc]) => renderExamples(jsdoc, name)),
+  ]
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Tables                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * A row of a table of members or parameters: the name, the printed type and the JSDoc.
+ */
+export type TableRow = readonly [name: string, type: string, jsdoc: JSDocInfo | undefined]
+
+/**
+ * A table of members or parameters, as rendered by the Markdown and HTML outputs.
+ */
+export interface Table {
+  header: readonly string[]
+  rows: readonly TableRow[]
+  /** The IDs of the members of the rows, for the outputs that link to them. */
+  ids?: readonly (string | undefined)[]
+}
+
+/**
+ * Lists the members of an element as a table: the members of classes, interfaces and enums, and
+ * the properties of the type literal that annotates type aliases and variables. Members that are
+ * inherited or override a member of a base type are noted in their description.
+ * @param element - The element.
+ * @returns The table, or `undefined` when the element has no members.
+ */
+export function getMemberTable(element: TypeElement): Table | undefined {
+  const rows: TableRow[] = []
+  const ids: (string | undefined)[] = []
+  const add = (id: string | undefined, row: TableRow) => {
+    rows.push(row)
+    ids.push(id)
+  }
+
+  switch (element.kind) {
+    case 'Class':
+      element.members.forEach(member => {
+        switch (member.kind) {
+          case 'Property':
+          case 'Accessor':
+            return add(member.id, [
+              member.name || '',
+              printType(member.typeAnnotation),
+              renderHeritage(member),
+            ])
+          case 'IndexSignature':
+            return add(member.id, [
+              `[${member.parameters.map(printParameter).join(', ')}]`,
+              printType(member.typeAnnotation),
+              renderHeritage(member),
+            ])
+          default:
+            return member.signatures.forEach(signature =>
+              add(member.id, [
+                member.kind === 'Constructor' ? 'constructor' : member.name || '',
+                printFunctionType(signature),
+                renderHeritage(member, signature.jsdoc || member.jsdoc),
+              ]),
+            )
+        }
+      })
+      return { header: ['Member', 'Type', 'Description'], rows, ids }
+    case 'Interface':
+      element.members.forEach(member => {
+        const name = (member.name || '') + (member.isOptional ? '?' : '')
+        switch (member.kind) {
+          case 'Property':
+            return add(member.id, [name, printType(member.typeAnnotation), renderHeritage(member)])
+          case 'IndexSignature':
+            return add(member.id, [
+              `[${member.parameters.map(printParameter).join(', ')}]`,
+              printType(member.typeAnnotation),
+              renderHeritage(member),
+            ])
+          default:
+            return member.signatures.forEach(signature =>
+              add(member.id, [
+                member.kind === 'Method'
+                  ? name
+                  : member.kind === 'CallSignature'
+                  ? '(call)'
+                  : '(new)',
+                printFunctionType(signature),
+                renderHeritage(member, signature.jsdoc || member.jsdoc),
+              ]),
+            )
+        }
+      })
+      return { header: ['Member', 'Type', 'Description'], rows, ids }
+    case 'Enum':
+      element.members.forEach(member =>
+        add(member.id, [member.name, String(member.value ?? ''), member.jsdoc]),
+      )
+      return { header: ['Member', 'Value', 'Description'], rows, ids }
+    case 'TypeAlias':
+    case 'Variable': {
+      const annotation =
+        element.typeAnnotation?.kind === 'TypeReference'
+          ? element.typeAnnotation.expanded
+          : element.typeAnnotation
+      if (annotation?.kind !== 'TypeLiteral') return undefined
+      // the members of an expanded reference have no IDs, they belong to the referenced declaration
+      annotation.members.forEach(member =>
+        add(member.id, [member.name, printType(member.typeAnnotation), member.jsdoc]),
+      )
+      return { header: ['Property', 'Type', 'Description'], rows, ids }
+    }
+    default:
+      return undefined
+  }
+}
+
+/**
+ * Lists the parameters of a signature as a table.
+ * @param signature - The signature.
+ * @returns The table.
+ */
+export function getParameterTable(signature: FunctionSignature): Table {
+  return {
+    header: ['Parameter', 'Type', 'Description'],
+    rows: signature.parameters.map(parameter => [
+      parameter.name,
+      printType(parameter.typeAnnotation),
+      parameter.jsdoc,
+    ]),
+  }
+}
+
+/**
+ * Adds a note to the JSDoc of a member that is inherited from, or overrides a member of, a base type,
+ * linking to the base type.
+ */
+function renderHeritage(member: ClassMember | InterfaceMember, jsdoc = member.jsdoc) {
+  const base = member.inheritedFrom || member.overrides
+  if (!base) return jsdoc
+  const link: JSDocLink = {
+    kind: 'linkcode',
+    target: base.name,
+    literal: `{@linkcode ${base.name}}`,
+  }
+  const note = `${member.inheritedFrom ? 'Inherited from' : 'Overrides'} ${link.literal}.`
+  return {
+    ...jsdoc,
+    description: [...(jsdoc?.description || []), note],
+    links: [...(jsdoc?.links || []), link],
+  }
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                    Printers                                    */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Replaces the inline links of a text with Markdown links. Names link to the heading of the
+ * element they refer to, URLs are linked as they are.
+ */
+function renderText(text: string, links?: readonly JSDocLink[]) {
+  return (links || []).reduce((text, link) => text.replace(link.literal, renderLink(link)), text)
+}
+
+function renderTagComment(tag: JSDocTag) {
+  return renderText(tag.comment || '', tag.links)
+}
+
+function renderLink(link: JSDocLink) {
+  const label = link.text || link.target
+  const href = isUrl(link.target)
+    ? link.target
+    : `#${createSlugger().slug(link.target.split('.').pop()!)}`
+  return `[${link.kind === 'linkcode' ? `\`${label}\`` : label}](${href})`
+}
+
+/**
+ * Prints the declaration of an element as TypeScript, the way it is shown in code blocks.
+ * Overloads are printed as one signature per line, classes without their inherited members.
+ * Re-exported elements are printed under the name they are exported as.
+ * @param element - The element.
+ * @returns The lines of code, or no lines for namespaces.
+ */
+export function printDeclaration(element: TypeElement): string[] {
+  const name = getDisplayName(element)
+  switch (element.kind) {
+    case 'Function':
+      return element.signatures.map(signature => printSignature(`function ${name}`, signature))
+    case 'Class':
+      return printClass(element)
+    case 'Interface':
+      return [`interface ${renameLiteral(element.literal.replace(/^interface /, ''), element)}`]
+    case 'TypeAlias':
+      return [`type ${renameLiteral(element.literal.replace(/^type /, ''), element)}`]
+    case 'Enum':
+      return [
+        `enum ${name} {`,
+        ...element.members.map(
+          member =>
+            `  ${member.name}${
+              member.value !== undefined ? ` = ${JSON.stringify(member.value)}` : ''
+            },`,
+        ),
+        '}',
+      ]
+    case 'Variable':
+      return [
+        `const ${
+          element.literal
+            ? renameLiteral(element.literal, element)
+            : `${name}: ${printType(element.typeAnnotation)}`
+        }`,
+      ]
+    case 'Namespace':
+      return []
+  }
+}
+
+/**
+ * Replaces the declared name at the start of the literal of an element with its export name.
+ */
+function renameLiteral(literal: string, element: TypeElement) {
+  return literal.startsWith(element.name)
+    ? getDisplayName(element) + literal.slice(element.name.length)
+    : literal
+}
+
+function printClass(element: ClassElement) {
+  const header = [
+    element.isAbstract ? 'abstract ' : '',
+    `class ${getDisplayName(element)}${printGenerics(element.generics)}`,
+    element.extends ? ` extends ${printType(element.extends)}` : '',
+    element.implements ? ` implements ${element.implements.map(printType).join(', ')}` : '',
+  ].join('')
+
+  // the declaration only lists its own members, inherited ones are listed in the table
+  const members = element.members.flatMap(member => {
+    if (member.inheritedFrom) return []
+    const modifiers = printClassModifiers(member)
+    const name = `${member.name}${member.isOptional ? '?' : ''}`
+    switch (member.kind) {
+      case 'Property':
+        return [`  ${modifiers}${name}: ${printType(member.typeAnnotation)}`]
+      case 'IndexSignature':
+        return [
+          `  ${modifiers}[${member.parameters.map(printParameter).join(', ')}]: ${printType(
+            member.typeAnnotation,
+          )}`,
+        ]
+      case 'Accessor':
+        return [
+          member.getter && `  ${modifiers}${printSignature(`get ${name}`, member.getter)}`,
+          member.setter && `  ${modifiers}${printSignature(`set ${name}`, member.setter)}`,
+        ].filter((line): line is string => !!line)
+      default:
+        return member.signatures.map(
+          signature =>
+            `  ${modifiers}${printSignature(
+              member.kind === 'Constructor' ? 'constructor' : name,
+              signature,
+            )}`,
+        )
+    }
+  })
+
+  return [`${header} {`, ...members, '}']
+}
+
+export function printType(annotation?: TypeAnnotation) {
+  return annotation?.literal || 'unknown'
+}
+
+function printGenerics(generics?: readonly GenericDeclaration[]) {
+  if (!generics || generics.length === 0) return ''
+  return `<${generics
+    .map(
+      generic =>
+        generic.name +
+        (generic.extends ? ` extends ${generic.extends}` : '') +
+        (generic.defaultValue ? ` = ${generic.defaultValue}` : ''),
+    )
+    .join(', ')}>`
+}
+
+export function printParameter(parameter: Parameter) {
+  return parameter.typeAnnotation
+    ? `${parameter.name}: ${printType(parameter.typeAnnotation)}`
+    : parameter.name
+}
+
+function printSignature(prefix: string | undefined, signature: FunctionSignature) {
+  return `${prefix || ''}${printGenerics(signature.generics)}(${signature.parameters
+    .map(printParameter)
+    .join(', ')})${signature.returnType ? `: ${printType(signature.returnType)}` : ''}`
+}
+
+function printClassModifiers(member: ClassMember) {
+  return [
+    member.accessModifier,
+    member.isStatic && 'static',
+    member.isAbstract && 'abstract',
+    member.isOverride && 'override',
+    // the readonly of an accessor follows from it having no setter
+    member.kind !== 'Accessor' && member.isReadonly && 'readonly',
+  ]
+    .filter(Boolean)
+    .map(modifier => `${modifier} `)
+    .join('')
+}
+
+export function printFunctionType(signature: FunctionSignature) {
+  return `${printGenerics(signature.generics)}(${signature.parameters
+    .map(printParameter)
+    .join(', ')}) => ${signature.returnType ? printType(signature.returnType) : 'void'}`
+}
+
+function renderSource(source: SourceLocation, sourceUrl: string) {
+  return [
+    `Defined in [\`${source.path}:${source.start.line}\`](${formatSourceUrl(sourceUrl, source)})`,
+    '',
+  ]
+}
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Utils                                      */
+/*                                                                                */
+/**********************************************************************************/
+
+/**
+ * Returns the name an element is imported by, which differs from its declared name when it is
+ * re-exported under an alias.
+ */
+export function getDisplayName(element: TypeElement) {
+  return element.exportName && element.exportName !== 'default' ? element.exportName : element.name
+}
+
+/**
+ * Creates the URL of a source location from a template, replacing the placeholders `{path}`,
+ * `{line}`, `{column}`, `{endLine}` and `{endColumn}`.
+ * @param template - The URL template, e.g. `https://github.com/owner/repo/blob/main/{path}#L{line}`.
+ * @param source - The source location.
+ * @returns The URL.
+ */
+export function formatSourceUrl(template: string, source: SourceLocation) {
+  const values: Record<string, string | number> = {
+    path: source.path.split('/').map(encodeURIComponent).join('/'),
+    line: source.start.line,
+    column: source.start.column,
+    endLine: source.end.line,
+    endColumn: source.end.column,
+  }
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder,
+  )
+}
+
+/**
+ * Splits a text of a JSDoc comment at its inline links, for the outputs that render links as
+ * elements rather than as Markdown.
+ * @param text - The text.
+ * @param links - The inline links of the text.
+ * @returns The parts of the text in order, with the links in place of their literals.
+ */
+export function splitLinks(text: string, links: readonly JSDocLink[] = []) {
+  if (links.length === 0) return [text]
+  const pattern = new RegExp(`(${links.map(link => escapeRegExp(link.literal)).join('|')})`)
+  return text.split(pattern).map((part, index): string | JSDocLink =>
+    // the split pattern captures, so every odd part is a link
+    index % 2 === 1 ? links.find(link => link.literal === part)! : part,
+  )
+}
+
+/**
+ * Returns the ID of the element an inline link refers to by name: the element with that qualified
+ * name, or else the first whose qualified name ends with it.
+ * @param target - The target of the link.
+ * @param ids - The ID of every element by its qualified name.
+ * @returns The ID, or `undefined` when no element has the name.
+ */
+export function findLinkTargetId(target: string, ids: ReadonlyMap<string, string>) {
+  return ids.get(target) || ids.get([...ids.keys()].find(name => name.endsWith(`.${target}`)) || '')
+}
+
+/** Checks whether the target of an inline link is a URL rather than a name. */
+export function isUrl(target: string) {
+  return /^\w+:\/\//.test(target)
+}
+
+function heading(level: number) {
+  return '#'.repeat(Math.min(level, 6))
+}
+
+/**
+ * A part of the comment of an `@example` tag: prose, or code with the language of its fence.
+ */
+export type ExamplePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'code'; code: string; lang: string }
+
+/**
+ * Splits the comment of an `@example` tag into prose and code. Examples in the TSDoc form contain
+ * fenced code blocks with a description around them, examples without fences are code as a whole.
+ * @param comment - The comment of the tag.
+ * @returns The parts in the order of the comment.
+ */
+export function splitExample(comment: string): ExamplePart[] {
+  const parts: ExamplePart[] = []
+  let end = 0
+  const addText = (text: string) => text.trim() && parts.push({ kind: 'text', text: text.trim() })
+  for (const match of comment.matchAll(/^```[ \t]*([\w+-]*)[^\n]*\n([\s\S]*?)^```[ \t]*$/gm)) {
+    addText(comment.slice(end, match.index))
+    parts.push({ kind: 'code', code: match[2].replace(/\n$/, ''), lang: match[1] || 'ts' })
+    end = match.index! + match[0].length
+  }
+  if (parts.length === 0) return [{ kind: 'code', code: comment, lang: 'ts' }]
+  addText(comment.slice(end))
+  return parts
+}
+
+function codeBlock(lines: readonly string[], lang = 'ts') {
+  return ['```' + lang, ...lines, '```', '']
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function escapeCell(text: string) {
+  return text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ')
+}
+
+export interface Slugger {
+  slug(text: string): string
+}
+
+/**
+ * Creates GitHub-compatible heading anchors, suffixing repeated headings like GitHub does.
+ * @returns The slugger.
+ */
+export function createSlugger(): Slugger {
+  const occurrences = new Map<string, number>()
+  return {
+    slug(text) {
+      const base = text
+        .toLowerCase()
+        .trim()
+        .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+        .replace(/\s/g, '-')
+      const count = occurrences.get(base) || 0
+      occurrences.set(base, count + 1)
+      return count === 0 ? base : `${base}-${count}`
+    },
+  }
+}
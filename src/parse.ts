@@ -1,14 +1,29 @@
+import path from 'path'
 import ts from 'typescript'
+import {
+  decodeSourceMap,
+  getFirstMappedPosition,
+  getOriginalPosition,
+  type SourceMap,
+} from './sourcemap'
 import type {
   ClassElement,
   ClassMember,
   EnumElement,
   EnumMember,
   FunctionElement,
+  FunctionSignature,
   GenericDeclaration,
+  HeritageReference,
+  InterfaceElement,
+  InterfaceMember,
   JSDocInfo,
+  JSDocLink,
+  JSDocPropertyTag,
   JSDocTag,
+  NamespaceElement,
   Parameter,
+  SourceLocation,
   TypeAliasElement,
   TypeAnnotation,
   TypeElement,
@@ -19,49 +34,800 @@ import type {
 const printer = ts.createPrinter({ newLine: ts.NewLineKind.LineFeed, removeComments: true })
 
 /**
- * Parses a TypeScript declaration file to extract various symbols and their documentation.
- * @param filePath - The path to the TypeScript file.
- * @returns The extracted data from the TypeScript file.
+ * Options to configure which declarations `parseDeclarationFile` documents.
  */
-export function parseDeclarationFile(filePath: string) {
-  const program = ts.createProgram([filePath], {
-    target: ts.ScriptTarget.ESNext,
-    module: ts.ModuleKind.CommonJS,
-  })
-  const sourceFile = program.getSourceFile(filePath)
-  if (!sourceFile) {
-    console.error('File not found or could not be loaded.')
-    return []
-  }
+export interface ParseOptions {
+  /**
+   * Drop declarations that are not exported, unless the signature of an exported element
+   * references them (directly or through another referenced declaration).
+   */
+  excludeInternal?: boolean
+  /**
+   * Path to a tsconfig.json whose compiler options are used to create the program.
+   */
+  tsconfig?: string
+  /**
+   * Expand references to type aliases and interfaces declared in the program into their structure,
+   * with the type arguments of the reference substituted.
+   */
+  expandReferences?: boolean
+  /**
+   * Include the members that classes and interfaces inherit from their base types, including base
+   * types declared in other packages.
+   */
+  includeInherited?: boolean
+  /**
+   * Called with the warnings of the extraction, like `@property` tags that do not document a
+   * member. Warnings are dropped when it is not given.
+   */
+  onWarning?: (message: string) => void
+}
+
+/**
+ * The state of a single extraction, passed down to the functions that extract the elements.
+ */
+interface ParseContext {
+  checker: ts.TypeChecker
+  options: ParseOptions
+  /** The directory that the paths of source files and the IDs of declarations are relative to. */
+  rootDir: string
+  /** Returns the location of a node in the file it was declared in. */
+  getSourceLocation: (node: ts.Node) => SourceLocation
+  /** The declarations currently being expanded, to stop the expansion of recursive types. */
+  expandingDeclarations: Set<ts.Declaration>
+  /** The `@typedef` and `@callback` tags of each source file and module block, by their name. */
+  jsDocTypeDeclarations: Map<ts.Node, Map<string, ts.JSDocTypedefTag | ts.JSDocCallbackTag>>
+}
 
+/**
+ * Parses TypeScript declaration files to extract various symbols and their documentation.
+ * The public surface of each file is resolved through its module symbol, so declarations that are
+ * re-exported from other files (`export * from './x'`, `export { A as B } from './y'`) are included.
+ *
+ * Source files (`.ts`, `.tsx` and `.js`, for which `allowJs` is enabled) are accepted as well:
+ * their declarations are emitted in memory first, so inferred return types and the types of
+ * `const` initializers are resolved by the checker exactly like a build of the declaration files
+ * would.
+ *
+ * File names, source locations and IDs are relative to the root of the project: the directory of
+ * the tsconfig, or else the directory of the package.json closest to the first entry file.
+ * @param filePaths - The path(s) to the TypeScript entry file(s). When empty, the files of the
+ * tsconfig are used.
+ * @param options - Options to configure the extraction.
+ * @returns The extracted data from the TypeScript files.
+ * @throws When the tsconfig or one of the entry files can not be loaded.
+ */
+export function parseDeclarationFile(
+  filePaths: string | readonly string[],
+  options: ParseOptions = {},
+) {
+  const config = getParsedConfig(options.tsconfig)
+  const { program, entryPaths, getSourcePath, readSourceMap } = createDeclarationProgram(
+    typeof filePaths === 'string'
+      ? [filePaths]
+      : filePaths.length > 0
+      ? filePaths
+      : config.fileNames,
+    config.options,
+  )
   const checker = program.getTypeChecker()
+  const rootDir = getProjectRoot(options.tsconfig, entryPaths.map(getSourcePath))
+  const context: ParseContext = {
+    checker,
+    options,
+    rootDir,
+    getSourceLocation: createSourceLocator(readSourceMap, rootDir),
+    expandingDeclarations: new Set(),
+    jsDocTypeDeclarations: new Map(),
+  }
+
+  // Maps every declaration to the names it is exported under, an empty list meaning internal.
+  const declarations = new Map<ts.Node, readonly string[]>()
+
+  for (const entryPath of entryPaths) {
+    const sourceFile = program.getSourceFile(entryPath)
+    if (!sourceFile) {
+      throw new Error(`File not found or could not be loaded: ${getSourcePath(entryPath)}`)
+    }
+
+    const moduleSymbol = checker.getSymbolAtLocation(sourceFile)
+    const exports = moduleSymbol && getModuleExports(moduleSymbol, checker)
+
+    // Local declarations first, in source order, then everything re-exported from other files.
+    getTopLevelDeclarations(sourceFile).forEach(declaration => {
+      if (declarations.has(declaration)) return
+      // Declarations of a script (a file without imports or exports) are global, and so are
+      // ambient module declarations and global augmentations.
+      const exportNames =
+        ts.isModuleDeclaration(declaration) && isAmbientModule(declaration)
+          ? [declaration.name.text]
+          : isJsDocTypeDeclaration(declaration)
+          ? exports?.get(declaration) || [getJsDocTypeDeclarationName(declaration)]
+          : exports
+          ? exports.get(declaration) || []
+          : [ts.getNameOfDeclaration(declaration as ts.Declaration)?.getText() || 'anonymous']
+      declarations.set(declaration, exportNames)
+    })
+    exports?.forEach((exportNames, declaration) => {
+      if (declarations.has(declaration)) return
+      declarations.set(declaration, exportNames)
+    })
+  }
+
+  if (options.excludeInternal) {
+    const publicDeclarations = [...declarations.keys()].filter(
+      declaration => declarations.get(declaration)!.length > 0,
+    )
+    const referenced = collectReferencedDeclarations(publicDeclarations, checker)
+
+    declarations.forEach((exportNames, declaration) => {
+      if (exportNames.length === 0 && !referenced.has(declaration)) {
+        declarations.delete(declaration)
+      }
+    })
+    // Internal declarations of other files of the program that the public surface depends on.
+    referenced.forEach(declaration => {
+      const sourceFile = declaration.getSourceFile()
+      if (
+        declarations.has(declaration) ||
+        program.isSourceFileDefaultLibrary(sourceFile) ||
+        program.isSourceFileFromExternalLibrary(sourceFile) ||
+        !getTopLevelDeclarations(sourceFile).includes(declaration)
+      ) {
+        return
+      }
+      declarations.set(declaration, [])
+    })
+  }
+
   const extractedTypes: TypeElement[] = []
 
-  ts.forEachChild(sourceFile, node => {
-    extractedTypes.push(...extractNode(node, checker))
+  declarations.forEach((exportNames, declaration) => {
+    const fileName = path.relative(rootDir, getSourcePath(declaration.getSourceFile().fileName))
+    const elements = extractNode(declaration, context)
+
+    if (exportNames.length === 0) {
+      elements.forEach(element => {
+        extractedTypes.push({ ...element, visibility: 'internal', fileName })
+      })
+      return
+    }
+
+    exportNames.forEach(exportName => {
+      elements.forEach(element => {
+        // The export under the name of the declaration, or else the first export, keeps the ID of
+        // the declaration that references target. Other exports are identified by their name.
+        const isAlias =
+          exportName !== (exportNames.includes(element.name) ? element.name : exportNames[0])
+        extractedTypes.push({
+          ...(isAlias ? setElementId(element, getModulePath(element.id!), exportName) : element),
+          exportName,
+          visibility: exportName === 'default' ? 'default' : 'exported',
+          fileName,
+        })
+      })
+    })
   })
 
   return extractedTypes
 }
 
+/**
+ * Returns the root directory of the project: the directory of the tsconfig when one is given, or
+ * the closest directory above the first entry file that contains a package.json.
+ * @param tsconfigPath - Optional path to a tsconfig.json.
+ * @param entryPaths - The paths of the entry files.
+ * @returns The root directory, or the working directory when no package.json is found.
+ */
+function getProjectRoot(tsconfigPath: string | undefined, entryPaths: readonly string[]) {
+  if (tsconfigPath) return path.resolve(path.dirname(tsconfigPath))
+  if (entryPaths.length === 0) return process.cwd()
+
+  for (let dir = path.resolve(path.dirname(entryPaths[0])); ; dir = path.dirname(dir)) {
+    if (ts.sys.fileExists(path.join(dir, 'package.json'))) return dir
+    if (path.dirname(dir) === dir) return process.cwd()
+  }
+}
+
+/**
+ * Resolves the compiler options and root files used to create the program.
+ * @param tsconfigPath - Optional path to a tsconfig.json.
+ * @returns The parsed tsconfig, or the default compiler options when no tsconfig is given.
+ */
+function getParsedConfig(
+  tsconfigPath?: string,
+): Pick<ts.ParsedCommandLine, 'options' | 'fileNames'> {
+  if (!tsconfigPath) {
+    return {
+      options: {
+        target: ts.ScriptTarget.ESNext,
+        module: ts.ModuleKind.CommonJS,
+      },
+      fileNames: [],
+    }
+  }
+
+  const { config, error } = ts.readConfigFile(tsconfigPath, ts.sys.readFile)
+  if (error) {
+    throw new Error(ts.flattenDiagnosticMessageText(error.messageText, '\n'))
+  }
+  return ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(tsconfigPath))
+}
+
+/**
+ * Creates the program the declarations are extracted from. When the entries include source files,
+ * their declaration files are emitted in memory and a program of the emitted declarations is
+ * created instead, which resolves imports between source files to their emitted declarations.
+ * @param filePaths - The paths of the entry files.
+ * @param options - The compiler options.
+ * @returns The program, the paths of the entries within the program, a function that maps file
+ * names of the program back to the files they were emitted from and a function that reads the
+ * declaration map of a file of the program.
+ * @throws When the declarations of the source files can not be emitted.
+ */
+function createDeclarationProgram(filePaths: readonly string[], options: ts.CompilerOptions) {
+  const isDeclarationFile = (fileName: string) => /\.d\.[cm]?tsx?$|\.d\.[^.]+\.ts$/.test(fileName)
+
+  // JavaScript files are left out of the program without `allowJs`, so it is enabled for them
+  const javaScriptPaths = filePaths.filter(fileName => /\.[cm]?jsx?$/.test(fileName))
+  if (javaScriptPaths.length > 0) {
+    if (options.allowJs === false) {
+      throw new Error(
+        `JavaScript input requires allowJs, which the tsconfig disables: ${javaScriptPaths.join(
+          ', ',
+        )}`,
+      )
+    }
+    options = { ...options, allowJs: true }
+  }
+
+  if (filePaths.every(isDeclarationFile)) {
+    return {
+      program: ts.createProgram(filePaths, options),
+      entryPaths: filePaths,
+      getSourcePath: (fileName: string) => fileName,
+      readSourceMap: readSourceMapFile,
+    }
+  }
+
+  const sourceProgram = ts.createProgram(filePaths, {
+    ...options,
+    noEmit: false,
+    declaration: true,
+    emitDeclarationOnly: true,
+    declarationMap: true,
+    removeComments: false,
+    outFile: undefined,
+    outDir: undefined,
+    declarationDir: undefined,
+    incremental: false,
+    composite: false,
+  })
+
+  // Maps the emitted declaration files to their contents and source files.
+  const emitted = new Map<string, { text: string; sourcePath: string }>()
+  // Maps the emitted declaration maps to their contents.
+  const emittedMaps = new Map<string, string>()
+  const result = sourceProgram.emit(
+    undefined,
+    (fileName, text, _writeByteOrderMark, _onError, sourceFiles) => {
+      if (fileName.endsWith('.map')) {
+        emittedMaps.set(fileName, text)
+        return
+      }
+      if (!isDeclarationFile(fileName) || !sourceFiles?.[0]) return
+      emitted.set(fileName, { text, sourcePath: sourceFiles[0].fileName })
+    },
+    undefined,
+    true,
+    { afterDeclarations: [splitDestructuredDeclarations(sourceProgram.getTypeChecker())] },
+  )
+  if (result.emitSkipped) {
+    throw new Error(
+      `Declarations could not be emitted:\n${ts.formatDiagnostics(result.diagnostics, {
+        getCanonicalFileName: fileName => fileName,
+        getCurrentDirectory: ts.sys.getCurrentDirectory,
+        getNewLine: () => '\n',
+      })}`,
+    )
+  }
+
+  const declarationPaths = new Map(
+    [...emitted].map(([fileName, { sourcePath }]) => [sourcePath, fileName]),
+  )
+
+  const host = ts.createCompilerHost(options)
+  const { fileExists, readFile, getSourceFile } = host
+  // Source files that were emitted are hidden, so imports resolve to their declarations instead.
+  host.fileExists = fileName =>
+    emitted.has(fileName) || (!declarationPaths.has(fileName) && fileExists(fileName))
+  host.readFile = fileName => emitted.get(fileName)?.text ?? readFile(fileName)
+  host.getSourceFile = (fileName, languageVersion, ...rest) => {
+    const file = emitted.get(fileName)
+    return file
+      ? ts.createSourceFile(fileName, file.text, languageVersion, true)
+      : getSourceFile(fileName, languageVersion, ...rest)
+  }
+
+  const entryPaths = filePaths.map(filePath => {
+    const sourceFile = sourceProgram.getSourceFile(filePath)
+    return (sourceFile && declarationPaths.get(sourceFile.fileName)) || filePath
+  })
+
+  return {
+    program: ts.createProgram(entryPaths, { ...options, noEmit: true }, host),
+    entryPaths,
+    getSourcePath: (fileName: string) => emitted.get(fileName)?.sourcePath || fileName,
+    readSourceMap: (fileName: string) => {
+      const text = emittedMaps.get(`${fileName}.map`)
+      return text !== undefined ? { path: `${fileName}.map`, text } : readSourceMapFile(fileName)
+    },
+  }
+}
+
+/**
+ * Reads the source map a file links to with a `sourceMappingURL` comment, which can be a path
+ * relative to the file or an inline data URL.
+ * @param fileName - The path of the generated file.
+ * @returns The path and the text of the source map, or `undefined` when the file has none.
+ */
+function readSourceMapFile(fileName: string) {
+  const url = ts.sys.readFile(fileName)?.match(/\/\/# sourceMappingURL=(\S+)\s*$/)?.[1]
+  if (!url) return undefined
+  const inline = url.match(/^data:application\/json;(?:charset=[^;,]+;)?base64,(.*)$/)
+  if (inline) {
+    return { path: fileName, text: Buffer.from(inline[1], 'base64').toString('utf-8') }
+  }
+  const mapPath = path.resolve(path.dirname(fileName), decodeURIComponent(url))
+  const text = ts.sys.readFile(mapPath)
+  return text !== undefined ? { path: mapPath, text } : undefined
+}
+
+/**
+ * Creates a function that returns the location of a node, relative to the root of the project.
+ * Locations in declaration files with a declaration map are mapped back to the original file
+ * when it exists.
+ * @param readSourceMap - Reads the source map of a file of the program.
+ * @param rootDir - The root directory of the project.
+ * @returns The function returning the location of a node.
+ */
+function createSourceLocator(
+  readSourceMap: (fileName: string) => { path: string; text: string } | undefined,
+  rootDir: string,
+) {
+  const sourceMaps = new Map<string, SourceMap | undefined>()
+  const getSourceMap = (fileName: string) => {
+    if (!sourceMaps.has(fileName)) {
+      const file = readSourceMap(fileName)
+      sourceMaps.set(fileName, file && decodeSourceMap(file.text, file.path))
+    }
+    return sourceMaps.get(fileName)
+  }
+
+  return (node: ts.Node): SourceLocation => {
+    const sourceFile = node.getSourceFile()
+    const toPosition = (position: number) => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(position)
+      return { line, column: character }
+    }
+    let filePath = sourceFile.fileName
+    let start = toPosition(node.getStart(sourceFile))
+    let end = toPosition(node.getEnd())
+
+    const sourceMap = getSourceMap(sourceFile.fileName)
+    // Nodes of JSDoc comments are on lines without segments, which are mapped relative to the
+    // declaration the comment is copied with.
+    const mappedStart =
+      sourceMap && !(node.flags & ts.NodeFlags.JSDoc)
+        ? getFirstMappedPosition(sourceMap, start, end)
+        : start
+    const originalStart = sourceMap && getOriginalPosition(sourceMap, mappedStart)
+    if (originalStart && ts.sys.fileExists(originalStart.source)) {
+      const originalEnd = getOriginalPosition(sourceMap, end)
+      filePath = originalStart.source
+      start = originalStart
+      // the end is not mapped when the declaration spans lines that were generated
+      end =
+        originalEnd?.source === originalStart.source &&
+        (originalEnd.line > start.line ||
+          (originalEnd.line === start.line && originalEnd.column >= start.column))
+          ? originalEnd
+          : start
+    }
+
+    return {
+      path: path.relative(rootDir, filePath).split(path.sep).join('/'),
+      start: { line: start.line + 1, column: start.column + 1 },
+      end: { line: end.line + 1, column: end.column + 1 },
+    }
+  }
+}
+
+/**
+ * Declaration transformer that splits the variables emitted for a destructuring declaration
+ * (`export const { a, b: c } = source`, `export const [get, set] = signal`) into one statement per
+ * bound identifier, so each is documented separately. Each statement keeps the JSDoc of the
+ * destructuring declaration, with the documentation of the destructured property added to it.
+ * @param checker - The type checker of the program the declarations are emitted from.
+ * @returns The transformer factory.
+ */
+function splitDestructuredDeclarations(
+  checker: ts.TypeChecker,
+): ts.TransformerFactory<ts.SourceFile | ts.Bundle> {
+  return () => node => {
+    if (!ts.isSourceFile(node)) return node
+
+    const statements = node.statements.flatMap<ts.Statement>(statement => {
+      const original = ts.getOriginalNode(statement)
+      if (
+        !ts.isVariableStatement(statement) ||
+        !ts.isVariableStatement(original) ||
+        original.declarationList.declarations.every(declaration =>
+          ts.isIdentifier(declaration.name),
+        )
+      ) {
+        return [statement]
+      }
+
+      const bindings = new Map(
+        original.declarationList.declarations.flatMap(declaration =>
+          getBindingElements(declaration.name).map(element => [element.name.getText(), element]),
+        ),
+      )
+      const jsDoc = ts.getJSDocCommentsAndTags(original).filter(ts.isJSDoc).pop()
+
+      return statement.declarationList.declarations.map(declaration => {
+        const element = bindings.get(declaration.name.getText())
+        const split = ts.factory.createVariableStatement(
+          statement.modifiers,
+          ts.factory.createVariableDeclarationList([declaration], statement.declarationList.flags),
+        )
+        const comment = createJsDocComment(
+          jsDoc,
+          element && getDestructuredPropertyDocumentation(element, checker),
+        )
+        return comment
+          ? ts.addSyntheticLeadingComment(
+              split,
+              ts.SyntaxKind.MultiLineCommentTrivia,
+              comment,
+              true,
+            )
+          : split
+      })
+    })
+
+    // Keeping the text range of the statements keeps the comments at the end of the file.
+    return ts.factory.updateSourceFile(
+      node,
+      ts.setTextRange(ts.factory.createNodeArray(statements), node.statements),
+    )
+  }
+}
+
+/**
+ * Lists the binding elements that bind an identifier, descending into nested binding patterns.
+ * @param name - The name of a variable declaration or binding element.
+ * @returns The binding elements, in source order.
+ */
+function getBindingElements(name: ts.BindingName): ts.BindingElement[] {
+  if (ts.isIdentifier(name)) return []
+  return name.elements.flatMap(element =>
+    ts.isOmittedExpression(element)
+      ? []
+      : ts.isIdentifier(element.name)
+      ? [element]
+      : getBindingElements(element.name),
+  )
+}
+
+/**
+ * Resolves the documentation of the property an object binding element destructures.
+ * @param element - The binding element.
+ * @param checker - The TypeScript type checker.
+ * @returns The documentation of the property, if any.
+ */
+function getDestructuredPropertyDocumentation(element: ts.BindingElement, checker: ts.TypeChecker) {
+  const property = getDestructuredProperty(element, checker)
+  return ts.displayPartsToString(property?.getDocumentationComment(checker)) || undefined
+}
+
+/**
+ * Resolves the property an object binding element destructures, following nested binding patterns
+ * up to the initializer of the declaration.
+ * @param element - The binding element.
+ * @param checker - The TypeScript type checker.
+ * @returns The symbol of the property, or `undefined` for elements of array binding patterns.
+ */
+function getDestructuredProperty(
+  element: ts.BindingElement,
+  checker: ts.TypeChecker,
+): ts.Symbol | undefined {
+  const pattern = element.parent
+  if (!ts.isObjectBindingPattern(pattern)) return undefined
+
+  const parent = pattern.parent
+  const type = ts.isBindingElement(parent)
+    ? (property => property && checker.getTypeOfSymbol(property))(
+        getDestructuredProperty(parent, checker),
+      )
+    : checker.getTypeAtLocation(
+        ts.isVariableDeclaration(parent) && parent.initializer ? parent.initializer : pattern,
+      )
+
+  return type?.getProperty((element.propertyName || element.name).getText())
+}
+
+/**
+ * Creates the text of a JSDoc comment, to be added as a synthetic comment. The documentation is
+ * appended to the description of the JSDoc, before its tags.
+ * @param jsDoc - The JSDoc to start from.
+ * @param documentation - Documentation to add to the description.
+ * @returns The text of the comment without its delimiters, or `undefined` when it would be empty.
+ */
+function createJsDocComment(jsDoc: ts.JSDoc | undefined, documentation: string | undefined) {
+  const lines = jsDoc
+    ? jsDoc
+        .getText()
+        .replace(/^\/\*\*|\*\/$/g, '')
+        .split('\n')
+        .map(line => line.replace(/^\s*\* ?/, '').trimEnd())
+    : []
+  while (lines.length > 0 && lines[0] === '') lines.shift()
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop()
+
+  if (documentation) {
+    const tagIndex = lines.findIndex(line => line.startsWith('@'))
+    const index = tagIndex === -1 ? lines.length : tagIndex
+    const description = lines.slice(0, index)
+    lines.splice(
+      0,
+      index,
+      ...description,
+      ...(description.length > 0 ? [''] : []),
+      ...documentation.split('\n'),
+    )
+  }
+
+  if (lines.length === 0) return undefined
+  return `*\n${lines.map(line => ` * ${line}`.trimEnd()).join('\n')}\n `
+}
+
+/**
+ * Lists the top-level declarations of a source file or module block, splitting variable statements
+ * into their individual declarations. Types declared with `@typedef` and `@callback` tags precede
+ * the statement their comment is attached to, unless a declaration of the same name exists (as in
+ * the declarations emitted for JavaScript files, where the type alias is documented with the docs of
+ * the tag, see `findJsDocTypeDeclaration`).
+ * @param container - The source file or module block to list the declarations of.
+ * @returns The top-level declarations in source order.
+ */
+function getTopLevelDeclarations(container: ts.SourceFile | ts.ModuleBlock) {
+  const names = new Set(
+    container.statements.flatMap(statement =>
+      ts.isTypeAliasDeclaration(statement) ||
+      ts.isInterfaceDeclaration(statement) ||
+      ts.isClassDeclaration(statement)
+        ? [statement.name?.text]
+        : [],
+    ),
+  )
+  const getJsDocTypeDeclarations = (node: ts.Node) =>
+    getAttachedJsDocTypeDeclarations(node).filter(
+      tag => !names.has(getJsDocTypeDeclarationName(tag)),
+    )
+
+  return [
+    ...container.statements.flatMap<ts.Node>(statement => [
+      ...getJsDocTypeDeclarations(statement),
+      ...(ts.isVariableStatement(statement) ? statement.declarationList.declarations : [statement]),
+    ]),
+    ...(ts.isSourceFile(container) ? getJsDocTypeDeclarations(container.endOfFileToken) : []),
+  ]
+}
+
+/**
+ * Lists the `@typedef` and `@callback` tags in the comments attached to a node.
+ * @param node - The statement or end of file token the comments are attached to.
+ * @returns The tags in source order.
+ */
+function getAttachedJsDocTypeDeclarations(node: ts.Node) {
+  // Every comment is searched, `ts.getJSDocTags` only returns the tags of the last one. Tokens like
+  // the end of the file have no children, for them only the last comment can be resolved.
+  return (node.getChildCount() > 0 ? node.getChildren() : ts.getJSDocCommentsAndTags(node))
+    .filter(ts.isJSDoc)
+    .flatMap(jsDoc => jsDoc.tags?.filter(isJsDocTypeDeclaration) || [])
+}
+
+/**
+ * Finds the `@typedef` or `@callback` tag of the same file that declares a type alias. The
+ * declarations emitted for JavaScript files contain both the tag and the type alias emitted for it,
+ * which lost the defaults of `@property` tags and the descriptions of `@param` and `@returns` tags,
+ * so the type is documented with the tag.
+ * @param alias - The type alias declaration.
+ * @param context - The context of the extraction, which caches the tags of each file and module.
+ * @returns The tag, or `undefined` when no tag declares a type of the same name.
+ */
+function findJsDocTypeDeclaration(alias: ts.TypeAliasDeclaration, context: ParseContext) {
+  const container = alias.parent as ts.SourceFile | ts.ModuleBlock
+  let tags = context.jsDocTypeDeclarations.get(container)
+  if (!tags) {
+    tags = new Map(
+      [
+        ...container.statements.flatMap(getAttachedJsDocTypeDeclarations),
+        ...(ts.isSourceFile(container)
+          ? getAttachedJsDocTypeDeclarations(container.endOfFileToken)
+          : []),
+      ].map(tag => [getJsDocTypeDeclarationName(tag), tag]),
+    )
+    context.jsDocTypeDeclarations.set(container, tags)
+  }
+  return tags.get(alias.name.text)
+}
+
+/**
+ * Checks whether a JSDoc tag declares a type, with `@typedef` or `@callback`.
+ * @param node - The node to check.
+ * @returns Whether the node is a `@typedef` or `@callback` tag.
+ */
+function isJsDocTypeDeclaration(node: ts.Node): node is ts.JSDocTypedefTag | ts.JSDocCallbackTag {
+  return ts.isJSDocTypedefTag(node) || ts.isJSDocCallbackTag(node)
+}
+
+/**
+ * Returns the name of the type declared by a `@typedef` or `@callback` tag.
+ * @param tag - The `@typedef` or `@callback` tag.
+ * @returns The name of the declared type.
+ */
+function getJsDocTypeDeclarationName(tag: ts.JSDocTypedefTag | ts.JSDocCallbackTag) {
+  return ts.getNameOfDeclaration(tag)?.getText() || 'anonymous'
+}
+
+/**
+ * Checks whether a module declaration is an ambient module declaration (`declare module 'x'`) or a
+ * global augmentation (`declare global`), which are public without being exported.
+ * @param decl - The module declaration to check.
+ * @returns Whether the declaration is an ambient module or global augmentation.
+ */
+function isAmbientModule(decl: ts.ModuleDeclaration) {
+  return ts.isStringLiteral(decl.name) || !!(decl.flags & ts.NodeFlags.GlobalAugmentation)
+}
+
+/**
+ * Resolves the exports of a module or namespace symbol, following aliases and re-exports. The
+ * target of an `export =` assignment is exported as the default export, which is how it is
+ * imported by ES modules.
+ * @param moduleSymbol - The symbol of the module or namespace.
+ * @param checker - The TypeScript type checker.
+ * @returns The names each declaration is exported under, in export order.
+ */
+function getModuleExports(moduleSymbol: ts.Symbol, checker: ts.TypeChecker) {
+  const exports = new Map<ts.Node, string[]>()
+
+  const exportAssignment = moduleSymbol.exports?.get(ts.InternalSymbolName.ExportEquals)
+  if (exportAssignment) {
+    const symbol =
+      exportAssignment.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exportAssignment)
+        : exportAssignment
+    symbol.declarations?.forEach(declaration => exports.set(declaration, ['default']))
+  }
+
+  for (const exportSymbol of checker.getExportsOfModule(moduleSymbol)) {
+    const symbol =
+      exportSymbol.flags & ts.SymbolFlags.Alias
+        ? checker.getAliasedSymbol(exportSymbol)
+        : exportSymbol
+    symbol.declarations?.forEach(declaration => {
+      const exportNames = exports.get(declaration) || []
+      exportNames.push(exportSymbol.getName())
+      exports.set(declaration, exportNames)
+    })
+  }
+
+  return exports
+}
+
+/**
+ * Collects the declarations that the signatures of the given declarations reference, transitively.
+ * Implementation bodies and initializers are not part of a signature and are skipped.
+ * @param roots - The declarations to start from.
+ * @param checker - The TypeScript type checker.
+ * @returns The set of referenced declarations.
+ */
+function collectReferencedDeclarations(roots: readonly ts.Node[], checker: ts.TypeChecker) {
+  const referenced = new Set<ts.Node>()
+  const queue = [...roots]
+
+  const visitNode = (node: ts.Node): void => {
+    if (ts.isBlock(node)) return
+    if (node.parent && 'initializer' in node.parent && node.parent.initializer === node) return
+
+    const name = ts.isTypeReferenceNode(node)
+      ? node.typeName
+      : ts.isExpressionWithTypeArguments(node)
+      ? node.expression
+      : ts.isTypeQueryNode(node)
+      ? node.exprName
+      : undefined
+
+    if (name) {
+      let symbol = checker.getSymbolAtLocation(name)
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = checker.getAliasedSymbol(symbol)
+      }
+      symbol?.declarations?.forEach(declaration => {
+        if (referenced.has(declaration)) return
+        referenced.add(declaration)
+        queue.push(declaration)
+
+        // Referencing a member of a namespace references the namespaces enclosing it.
+        for (let parent = declaration.parent; parent; parent = parent.parent) {
+          if (ts.isModuleDeclaration(parent)) referenced.add(parent)
+        }
+      })
+    }
+
+    ts.forEachChild(node, visitNode)
+  }
+
+  while (queue.length > 0) {
+    visitNode(queue.pop()!)
+  }
+
+  return referenced
+}
+
 /**
  * Dispatch function to handle different types of TypeScript nodes.
  * @param node - The current TypeScript node to process.
- * @param checker - The TypeScript type checker.
+ * @param context - The context of the extraction.
  * @returns An array of extracted data from the node.
  */
-function extractNode(node: ts.Node, checker: ts.TypeChecker): TypeElement[] {
+function extractNode(node: ts.Node, context: ParseContext): TypeElement[] {
+  return extractElements(node, context).map(element =>
+    addMemberIds({
+      ...element,
+      id: getDeclarationId(node, element.kind, element.name, context.rootDir),
+      source: context.getSourceLocation(node),
+    }),
+  )
+}
+
+function extractElements(node: ts.Node, context: ParseContext): TypeElement[] {
+  const { checker } = context
   switch (node.kind) {
     case ts.SyntaxKind.VariableStatement:
-      return extractVariables(node as ts.VariableStatement, checker)
+      return extractVariables(node as ts.VariableStatement, context)
+    case ts.SyntaxKind.VariableDeclaration:
+      return [extractVariable(node as ts.VariableDeclaration, context)]
     case ts.SyntaxKind.FunctionDeclaration:
-      return [extractFunction(node as ts.FunctionDeclaration, checker)]
+      // Overloads are grouped into the element of the first declaration.
+      return isFirstOverload(node as ts.FunctionDeclaration, checker)
+        ? [extractFunction(node as ts.FunctionDeclaration, context)]
+        : []
     case ts.SyntaxKind.ClassDeclaration:
-      return [extractClass(node as ts.ClassDeclaration, checker)]
+      return [extractClass(node as ts.ClassDeclaration, context)]
     case ts.SyntaxKind.EnumDeclaration:
-      return [extractEnum(node as ts.EnumDeclaration, checker)]
-    case ts.SyntaxKind.TypeAliasDeclaration:
-      return [extractTypeAlias(node as ts.TypeAliasDeclaration, checker)]
+      return [extractEnum(node as ts.EnumDeclaration, context)]
+    case ts.SyntaxKind.TypeAliasDeclaration: {
+      const tag = findJsDocTypeDeclaration(node as ts.TypeAliasDeclaration, context)
+      return [
+        tag
+          ? extractJsDocTypeAlias(tag, context)
+          : extractTypeAlias(node as ts.TypeAliasDeclaration, context),
+      ]
+    }
+    case ts.SyntaxKind.InterfaceDeclaration:
+      // Merged declarations are combined into the element of the first declaration.
+      return getMergedInterfaces(node as ts.InterfaceDeclaration, checker)[0] === node
+        ? [extractInterface(node as ts.InterfaceDeclaration, context)]
+        : []
+    case ts.SyntaxKind.ModuleDeclaration:
+      return [extractNamespace(node as ts.ModuleDeclaration, context)]
+    case ts.SyntaxKind.JSDocTypedefTag:
+    case ts.SyntaxKind.JSDocCallbackTag:
+      return [extractJsDocTypeAlias(node as ts.JSDocTypedefTag | ts.JSDocCallbackTag, context)]
     default:
       return []
   }
@@ -70,41 +836,107 @@ function extractNode(node: ts.Node, checker: ts.TypeChecker): TypeElement[] {
 /**
  * Extracts variable declarations from a variable statement.
  * @param statement - The variable statement node.
- * @param checker - The TypeScript type checker.
+ * @param context - The context of the extraction.
  * @returns An array of extracted variable data.
  */
-function extractVariables(
-  statement: ts.VariableStatement,
-  checker: ts.TypeChecker,
-): VariableElement[] {
-  const jsdoc = extractJsDoc(statement)
+function extractVariables(statement: ts.VariableStatement, context: ParseContext): TypeElement[] {
+  return statement.declarationList.declarations.map(declaration =>
+    extractVariable(declaration, context),
+  )
+}
 
-  return statement.declarationList.declarations.map(declaration => {
+/**
+ * Extracts a single variable declaration. The JSDoc is taken from the enclosing variable statement.
+ * Variables with a function type (`const fn = () => {}`, `const fn: (value: T) => T`) are
+ * extracted as functions.
+ * @param declaration - The variable declaration node.
+ * @param context - The context of the extraction.
+ * @returns The extracted variable or function data.
+ */
+function extractVariable(
+  declaration: ts.VariableDeclaration,
+  context: ParseContext,
+): VariableElement | FunctionElement {
+  const { checker } = context
+  const jsdoc = extractJsDoc(declaration.parent.parent)
+  const name = declaration.name.getText()
+
+  const callSignatures = getVariableCallSignatures(declaration)
+  if (callSignatures) {
+    const signatures = extractSignatures(callSignatures, context).map(signature => ({
+      ...signature,
+      jsdoc: signature.jsdoc || jsdoc,
+    }))
+    const result: FunctionElement = {
+      kind: 'Function',
+      name,
+      signatures,
+      jsdoc,
+    }
+    return result
+  }
+
+  if (!declaration.type) {
+    // `const` declarations initialized with a literal are emitted without a type (`const a = 1`).
+    const type = checker.typeToString(checker.getTypeAtLocation(declaration), declaration)
     const result: VariableElement = {
       kind: 'Variable',
-      name: declaration.name.getText(),
+      name,
       jsdoc,
-      literal: declaration.type
-        ? printer
-            .printNode(ts.EmitHint.Unspecified, declaration, declaration.getSourceFile())
-            .replace('export type ', '')
-        : undefined,
+      literal: `${name}: ${type}`,
+      typeAnnotation: { kind: 'PrimitiveType', literal: type },
     }
+    return result
+  }
 
-    if (declaration.type) {
-      result.typeAnnotation = extractTypeAnnotation(declaration.type, checker, jsdoc?.tags)
-    }
+  const result: VariableElement = {
+    kind: 'Variable',
+    name,
+    jsdoc,
+    literal: printer
+      .printNode(ts.EmitHint.Unspecified, declaration, declaration.getSourceFile())
+      .replace('export type ', ''),
+    typeAnnotation: extractTypeAnnotation(declaration.type, context, jsdoc?.tags),
+  }
+  warnUnknownPropertyTags(name, jsdoc?.tags, getTypeLiteralMembers(result.typeAnnotation), context)
 
-    return result
-  })
+  return result
 }
 
-function extractGenerics(node: ts.Node, checker: ts.TypeChecker): GenericDeclaration[] | undefined {
+/**
+ * Lists the call signatures of a variable whose type is a function: a function type, a type literal
+ * consisting only of call signatures, or, without a type annotation, a function initializer.
+ * @param declaration - The variable declaration node.
+ * @returns The signature declarations, or `undefined` when the variable is not a function.
+ */
+function getVariableCallSignatures(
+  declaration: ts.VariableDeclaration,
+): readonly ts.SignatureDeclaration[] | undefined {
+  const { type, initializer } = declaration
+  if (type) {
+    if (ts.isFunctionTypeNode(type)) return [type]
+    if (
+      ts.isTypeLiteralNode(type) &&
+      type.members.length > 0 &&
+      type.members.every(ts.isCallSignatureDeclaration)
+    ) {
+      return type.members
+    }
+    return undefined
+  }
+  if (initializer && (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer))) {
+    return [initializer]
+  }
+  return undefined
+}
+
+function extractGenerics(node: ts.Node, context: ParseContext): GenericDeclaration[] | undefined {
+  const { checker } = context
   if (
-    !ts.isFunctionDeclaration(node) &&
-    !ts.isMethodSignature(node) &&
-    !ts.isFunctionTypeNode(node) &&
-    !ts.isTypeAliasDeclaration(node)
+    !ts.isFunctionLike(node) &&
+    !ts.isTypeAliasDeclaration(node) &&
+    !ts.isInterfaceDeclaration(node) &&
+    !ts.isClassDeclaration(node)
   ) {
     return
   }
@@ -130,40 +962,165 @@ function extractGenerics(node: ts.Node, checker: ts.TypeChecker): GenericDeclara
 }
 
 /**
- * Extracts function declaration details.
+ * Lists the function declarations that overload the given function declaration, including itself.
+ * @param func - The function declaration node.
+ * @param checker - The TypeScript type checker.
+ * @returns The function declarations of the symbol, in declaration order.
+ */
+function getFunctionOverloads(func: ts.FunctionDeclaration, checker: ts.TypeChecker) {
+  const symbol = func.name && checker.getSymbolAtLocation(func.name)
+  return symbol?.declarations?.filter(ts.isFunctionDeclaration) || [func]
+}
+
+/**
+ * Lists the interface declarations of a file that merge with the given interface declaration,
+ * including itself. Declarations in other files, like augmentations of global interfaces, are left
+ * out.
+ * @param decl - The interface declaration node.
+ * @param checker - The TypeScript type checker.
+ * @returns The interface declarations of the symbol in the same file, in declaration order.
+ */
+function getMergedInterfaces(decl: ts.InterfaceDeclaration, checker: ts.TypeChecker) {
+  const symbol = checker.getSymbolAtLocation(decl.name)
+  return (
+    symbol?.declarations?.filter(
+      (other): other is ts.InterfaceDeclaration =>
+        ts.isInterfaceDeclaration(other) && other.getSourceFile() === decl.getSourceFile(),
+    ) || [decl]
+  )
+}
+
+/**
+ * Checks whether a function declaration is the first of its overloads.
  * @param func - The function declaration node.
  * @param checker - The TypeScript type checker.
+ * @returns Whether the declaration is the first overload.
+ */
+function isFirstOverload(func: ts.FunctionDeclaration, checker: ts.TypeChecker) {
+  return getFunctionOverloads(func, checker)[0] === func
+}
+
+/**
+ * Groups overloaded declarations that share a key, in the order of their first declaration.
+ * Nodes without a key are never grouped.
+ * @param nodes - The nodes to group.
+ * @param getKey - Returns the key of overloadable nodes.
+ * @returns The grouped nodes.
+ */
+function groupOverloads<T extends ts.Node>(
+  nodes: readonly T[],
+  getKey: (node: T) => string | undefined,
+) {
+  const groups: T[][] = []
+  const groupsByKey = new Map<string, T[]>()
+
+  nodes.forEach(node => {
+    const key = getKey(node)
+    const group = key !== undefined ? groupsByKey.get(key) : undefined
+    if (group) {
+      group.push(node)
+      return
+    }
+    groups.push([node])
+    if (key !== undefined) groupsByKey.set(key, groups[groups.length - 1])
+  })
+
+  return groups
+}
+
+/**
+ * Extracts the signatures of a group of overloaded declarations. The implementation signature is
+ * excluded when overload signatures are present.
+ * @param overloads - The overloaded declarations.
+ * @param context - The context of the extraction.
+ * @returns The extracted signatures, in declaration order.
+ */
+function extractSignatures(
+  overloads: readonly ts.Node[],
+  context: ParseContext,
+): FunctionSignature[] {
+  const declarations = overloads.filter(ts.isFunctionLike)
+  const signatures = declarations.filter(decl => !('body' in decl && decl.body))
+  return (signatures.length > 0 ? signatures : declarations).map(decl =>
+    extractSignature(decl, context),
+  )
+}
+
+/**
+ * Extracts a single signature of a function, method, constructor or call signature.
+ * @param decl - The signature declaration node.
+ * @param context - The context of the extraction.
+ * @returns The extracted signature data.
+ */
+function extractSignature(decl: ts.SignatureDeclaration, context: ParseContext): FunctionSignature {
+  const result: FunctionSignature = {
+    generics: extractGenerics(decl, context),
+    parameters: decl.parameters.map(param => extractParameter(param, context)),
+    returnType: decl.type
+      ? extractTypeAnnotation(decl.type, context)
+      : extractInferredReturnType(decl, context),
+    returns: (tag => tag && extractJsDocTagDescription(tag))(getReturnTag(decl)),
+    jsdoc: extractJsDoc(decl),
+  }
+  return result
+}
+
+/**
+ * Resolves the return type of a signature without a return type annotation through the checker.
+ * @param decl - The signature declaration node.
+ * @param context - The context of the extraction.
+ * @returns The inferred return type, or `undefined` for constructors and setters.
+ */
+function extractInferredReturnType(
+  decl: ts.SignatureDeclaration,
+  context: ParseContext,
+): TypeAnnotation | undefined {
+  const { checker } = context
+  // Constructors and setters have no return value.
+  const signature =
+    !ts.isConstructorDeclaration(decl) &&
+    !ts.isSetAccessorDeclaration(decl) &&
+    checker.getSignatureFromDeclaration(decl)
+  if (!signature) return undefined
+  return {
+    kind: 'PrimitiveType',
+    literal: checker.typeToString(checker.getReturnTypeOfSignature(signature), decl),
+  }
+}
+
+/**
+ * Extracts function declaration details, grouping its overloads into a single element.
+ * @param func - The function declaration node.
+ * @param context - The context of the extraction.
  * @returns The extracted function data.
  */
-function extractFunction(func: ts.FunctionDeclaration, checker: ts.TypeChecker): FunctionElement {
+function extractFunction(func: ts.FunctionDeclaration, context: ParseContext): FunctionElement {
+  const { checker } = context
   const name = func.name ? func.name.getText() : 'anonymous'
+  const signatures = extractSignatures(getFunctionOverloads(func, checker), context)
   const result: FunctionElement = {
     kind: 'Function',
     name,
-    parameters: func.parameters.map(param => extractParameter(param, checker)),
-    returnType: func.type ? extractTypeAnnotation(func.type, checker) : undefined,
-    generics: extractGenerics(func, checker),
-    jsdoc: extractJsDoc(func),
+    signatures,
+    jsdoc: signatures[0]?.jsdoc,
   }
   return result
 }
 
 /**
- * Extracts class declaration details, including properties and methods.
+ * Extracts class declaration details, including its heritage and members.
  * @param cls - The class declaration node.
- * @param checker - The TypeScript type checker.
+ * @param context - The context of the extraction.
  * @returns The extracted class data.
  */
-function extractClass(cls: ts.ClassDeclaration, checker: ts.TypeChecker): ClassElement {
-  // Check for heritage clauses which indicate extension or implementation of other classes/interfaces
-  const extendsClause = cls.heritageClauses?.find(
-    clause => clause.token === ts.SyntaxKind.ExtendsKeyword,
-  )
-  let extendsName
-  if (extendsClause && extendsClause.types.length > 0) {
-    const typeNode = extendsClause.types[0]
-    extendsName = typeNode.expression.getText()
-  }
+function extractClass(cls: ts.ClassDeclaration, context: ParseContext): ClassElement {
+  const getHeritageTypes = (
+    token: ts.SyntaxKind.ExtendsKeyword | ts.SyntaxKind.ImplementsKeyword,
+  ) =>
+    cls.heritageClauses
+      ?.find(clause => clause.token === token)
+      ?.types.map(type => extractTypeAnnotation(type, context))
+  const implementsTypes = getHeritageTypes(ts.SyntaxKind.ImplementsKeyword)
 
   // Check if the class is abstract
   const isAbstract = !!cls.modifiers?.some(
@@ -174,56 +1131,129 @@ function extractClass(cls: ts.ClassDeclaration, checker: ts.TypeChecker): ClassE
     kind: 'Class',
     name: cls.name ? cls.name.getText() : 'anonymous',
     isAbstract,
-    extends: extendsName,
-    members: cls.members.map(member => extractClassMember(member, checker)).filter(Boolean),
+    generics: extractGenerics(cls, context),
+    extends: getHeritageTypes(ts.SyntaxKind.ExtendsKeyword)?.[0],
+    implements: implementsTypes && implementsTypes.length > 0 ? implementsTypes : undefined,
+    members: addInheritedMembers(cls, extractClassMembers(cls, context), context, base =>
+      ts.isClassDeclaration(base) ? extractClassMembers(base, context) : [],
+    ),
     jsdoc: extractJsDoc(cls),
   }
 
   return result
 }
 
+function extractClassMembers(cls: ts.ClassDeclaration, context: ParseContext) {
+  return groupOverloads(cls.members, member =>
+    ts.isConstructorDeclaration(member)
+      ? 'constructor'
+      : // Overloads of a method, and the getter and setter of an accessor, are grouped.
+      ts.isMethodDeclaration(member) || ts.isAccessor(member)
+      ? `${ts.getCombinedModifierFlags(member) & ts.ModifierFlags.Static}:${member.name.getText()}`
+      : undefined,
+  )
+    .map(overloads => extractClassMember(overloads, context))
+    .filter((member): member is ClassMember => !!member)
+}
+
 /**
- * Extracts individual class members such as properties and methods.
- * @param member - The class member to process.
- * @param checker - The TypeScript type checker.
- * @returns The extracted member data or null if the member type is not handled.
+ * Extracts individual class members such as properties, methods, accessors and index signatures.
+ * @param overloads - The class member to process, together with its overloads or, for an
+ * accessor, the getter and setter.
+ * @param context - The context of the extraction.
+ * @returns The extracted member data or undefined if the member is not documented.
  */
-function extractClassMember(member: ts.ClassElement, checker: ts.TypeChecker): ClassMember {
-  const isPrivateField =
-    ts.isPropertyDeclaration(member) && member.name.kind === ts.SyntaxKind.PrivateIdentifier
+function extractClassMember(
+  overloads: readonly ts.ClassElement[],
+  context: ParseContext,
+): ClassMember | undefined {
+  const { checker } = context
+  const [member] = overloads
+  const isPrivateField = member.name?.kind === ts.SyntaxKind.PrivateIdentifier
+
+  // Static blocks and semicolons are not part of the surface of a class.
+  if (
+    isPrivateField ||
+    ts.isClassStaticBlockDeclaration(member) ||
+    ts.isSemicolonClassElement(member)
+  ) {
+    return undefined
+  }
+
+  const modifierFlags = ts.getCombinedModifierFlags(member)
+  const base = {
+    name: member.name?.getText(),
+    accessModifier: getAccessModifier(member),
+    isStatic: !!(modifierFlags & ts.ModifierFlags.Static) || undefined,
+    isReadonly: !!(modifierFlags & ts.ModifierFlags.Readonly) || undefined,
+    isAbstract: !!(modifierFlags & ts.ModifierFlags.Abstract) || undefined,
+    isOverride: !!(modifierFlags & ts.ModifierFlags.Override) || undefined,
+    isOptional:
+      !!(member as ts.PropertyDeclaration | ts.MethodDeclaration).questionToken || undefined,
+    source: context.getSourceLocation(member),
+  }
+
+  if (ts.isPropertyDeclaration(member)) {
+    const result: ClassMember = {
+      kind: 'Property',
+      ...base,
+      jsdoc: extractJsDoc(member),
+      typeAnnotation: member.type
+        ? extractTypeAnnotation(member.type, context)
+        : {
+            kind: 'PrimitiveType',
+            literal: checker.typeToString(checker.getTypeAtLocation(member)),
+          },
+    }
+    return result
+  }
 
-  if (isPrivateField) return null
+  if (ts.isIndexSignatureDeclaration(member)) {
+    const result: ClassMember = {
+      kind: 'IndexSignature',
+      ...base,
+      jsdoc: extractJsDoc(member),
+      parameters: member.parameters.map(param => extractParameter(param, context)),
+      typeAnnotation: extractTypeAnnotation(member.type, context),
+    }
+    return result
+  }
 
-  const name = member.name?.getText()
-  const accessModifier = getAccessModifier(member)
+  if (ts.isAccessor(member)) {
+    const getter = overloads.find(ts.isGetAccessorDeclaration)
+    const setter = overloads.find(ts.isSetAccessorDeclaration)
+    const getterSignature = getter && extractSignature(getter, context)
+    const setterSignature = setter && extractSignature(setter, context)
+    const result: ClassMember = {
+      kind: 'Accessor',
+      ...base,
+      // An accessor without a setter can only be read.
+      isReadonly: !setter || undefined,
+      jsdoc: getterSignature?.jsdoc || setterSignature?.jsdoc,
+      typeAnnotation: getterSignature?.returnType || setterSignature?.parameters[0]?.typeAnnotation,
+      getter: getterSignature,
+      setter: setterSignature,
+    }
+    return result
+  }
 
   const result: ClassMember = {
-    kind: ts.isPropertyDeclaration(member)
-      ? 'Property'
-      : ts.isMethodDeclaration(member)
-      ? 'Method'
-      : 'Constructor',
-    name: name,
+    kind: ts.isMethodDeclaration(member) ? 'Method' : 'Constructor',
+    ...base,
     jsdoc: extractJsDoc(member),
-    typeAnnotation: extractTypeAnnotation(member, checker),
-    parameters:
-      ts.isConstructorDeclaration(member) || ts.isMethodDeclaration(member)
-        ? member.parameters.map(param => extractParameter(param, checker))
-        : undefined,
-    accessModifier: accessModifier,
+    signatures: extractSignatures(overloads as readonly ts.SignatureDeclaration[], context),
   }
   return result
 }
 
 function getAccessModifier(member: ts.ClassElement): string | undefined {
-  if ('modifiers' in member && member.modifiers) {
-    if (member.modifiers.some(modifier => modifier.kind === ts.SyntaxKind.PrivateKeyword)) {
+  const modifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined
+  if (modifiers) {
+    if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.PrivateKeyword)) {
       return 'private'
-    } else if (
-      member.modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ProtectedKeyword)
-    ) {
+    } else if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.ProtectedKeyword)) {
       return 'protected'
-    } else if (member.modifiers.some(modifier => modifier.kind === ts.SyntaxKind.PublicKeyword)) {
+    } else if (modifiers.some(modifier => modifier.kind === ts.SyntaxKind.PublicKeyword)) {
       return 'public'
     }
   }
@@ -235,48 +1265,502 @@ function getAccessModifier(member: ts.ClassElement): string | undefined {
  * @param enumDecl - The enumeration declaration node.
  * @returns The extracted enumeration data.
  */
-function extractEnum(enumDecl: ts.EnumDeclaration, checker: ts.TypeChecker): EnumElement {
+function extractEnum(enumDecl: ts.EnumDeclaration, context: ParseContext): EnumElement {
+  const { checker } = context
   const result: EnumElement = {
     kind: 'Enum',
     name: enumDecl.name.getText(),
     jsdoc: extractJsDoc(enumDecl),
     members: enumDecl.members.map(member => {
-      const enumValue = member.initializer ? checker.getTypeAtLocation(member.initializer) : null
+      const enumValue = checker.getConstantValue(member)
       const result: EnumMember = {
         name: member.name.getText(),
         jsdoc: extractJsDoc(member),
-        value: enumValue?.value,
+        value: enumValue,
+        source: context.getSourceLocation(member),
         typeAnnotation: {
           kind: 'PrimitiveType',
-          literal: typeof enumValue?.value,
+          literal: typeof enumValue,
+        },
+      }
+      return result
+    }),
+  }
+
+  return result
+}
+
+/**
+ * Extracts type alias declaration details.
+ * @param alias - The type alias declaration node.
+ * @param context - The context of the extraction.
+ * @returns The extracted type alias data.
+ */
+function extractTypeAlias(alias: ts.TypeAliasDeclaration, context: ParseContext): TypeAliasElement {
+  const jsdoc = extractJsDoc(alias)
+  const result: TypeAliasElement = {
+    kind: 'TypeAlias',
+    name: alias.name.getText(),
+    jsdoc,
+    generics: extractGenerics(alias, context),
+    typeAnnotation: alias.type
+      ? extractTypeAnnotation(alias.type, context, jsdoc?.tags)
+      : undefined,
+    literal: printer
+      .printNode(ts.EmitHint.Unspecified, alias, alias.getSourceFile())
+      .replace('export type ', ''),
+  }
+  warnUnknownPropertyTags(
+    result.name,
+    jsdoc?.tags,
+    getTypeLiteralMembers(result.typeAnnotation),
+    context,
+  )
+  return result
+}
+
+/**
+ * Extracts the type declared by a `@typedef` or `@callback` tag as a type alias. The properties of
+ * a `@typedef` and the parameters of a `@callback` are extracted like the members of a type literal
+ * and the parameters of a function type.
+ * @param tag - The `@typedef` or `@callback` tag.
+ * @param context - The context of the extraction.
+ * @returns The extracted type alias data.
+ */
+function extractJsDocTypeAlias(
+  tag: ts.JSDocTypedefTag | ts.JSDocCallbackTag,
+  context: ParseContext,
+): TypeAliasElement {
+  const name = getJsDocTypeDeclarationName(tag)
+  const jsDoc = tag.parent as ts.JSDoc
+  const typeExpression =
+    tag.typeExpression && ts.isJSDocTypeExpression(tag.typeExpression)
+      ? tag.typeExpression.type
+      : tag.typeExpression
+  const typeAnnotation = typeExpression && extractTypeAnnotation(typeExpression, context)
+
+  const generics = jsDoc.tags?.filter(ts.isJSDocTemplateTag).flatMap(template =>
+    template.typeParameters.map(param => ({
+      name: param.name.text,
+      extends: template.constraint?.type.getText(),
+    })),
+  )
+  const description = [extractComment(jsDoc.comment), extractComment(tag.comment)].filter(
+    (comment): comment is string => !!comment,
+  )
+  // Tags that describe the structure of the type are part of its annotation, except for the
+  // `@property` tags of a `@typedef`, which also record the default values of the properties.
+  const propertyTags =
+    tag.typeExpression && ts.isJSDocTypeLiteral(tag.typeExpression)
+      ? tag.typeExpression.jsDocPropertyTags?.map(extractJsDocPropertyTag) || []
+      : []
+  const tags = [
+    ...(jsDoc.tags || [])
+      .filter(
+        other =>
+          other !== tag &&
+          !isJsDocTypeDeclaration(other) &&
+          !ts.isJSDocTemplateTag(other) &&
+          !ts.isJSDocPropertyLikeTag(other) &&
+          !ts.isJSDocReturnTag(other),
+      )
+      .map(extractJsDocTag),
+    ...propertyTags,
+  ]
+
+  const result: TypeAliasElement = {
+    kind: 'TypeAlias',
+    name,
+    jsdoc:
+      description.length > 0 || tags.length > 0
+        ? {
+            description: description.length > 0 ? description : undefined,
+            tags: tags.length > 0 ? tags : undefined,
+          }
+        : undefined,
+    generics: generics?.length ? generics : undefined,
+    typeAnnotation,
+    literal: `type ${name}${
+      generics?.length ? `<${generics.map(generic => generic.name).join(', ')}>` : ''
+    } = ${typeAnnotation?.literal || 'any'}`,
+  }
+  return result
+}
+
+/**
+ * Extracts interface declaration details, including its heritage and members.
+ * @param decl - The interface declaration node.
+ * @param context - The context of the extraction.
+ * @returns The extracted interface data.
+ */
+function extractInterface(decl: ts.InterfaceDeclaration, context: ParseContext): InterfaceElement {
+  // Merged declarations are documented as one interface, with their members and docs combined.
+  const declarations = getMergedInterfaces(decl, context.checker)
+  const extendsTypes = getExtendsTypes(declarations)
+
+  const jsdoc = combineJsDoc(declarations.map(extractJsDoc))
+  const result: InterfaceElement = {
+    kind: 'Interface',
+    name: decl.name.getText(),
+    jsdoc,
+    generics: extractGenerics(decl, context),
+    extends:
+      extendsTypes.length > 0
+        ? extendsTypes.map(type => extractTypeAnnotation(type, context))
+        : undefined,
+    members: addInheritedMembers(
+      decl,
+      extractInterfaceMembers(declarations, context),
+      context,
+      base => (ts.isInterfaceDeclaration(base) ? extractInterfaceMembers([base], context) : []),
+    ),
+    literal: printer
+      .printNode(
+        ts.EmitHint.Unspecified,
+        mergeInterfaceDeclarations(declarations),
+        decl.getSourceFile(),
+      )
+      .replace('export interface ', ''),
+  }
+  warnUnknownPropertyTags(result.name, jsdoc?.tags, result.members, context)
+  return result
+}
+
+/**
+ * Combines merged interface declarations into one declaration to print, with the heritage
+ * clauses and members of all of them.
+ */
+function mergeInterfaceDeclarations([decl, ...others]: readonly ts.InterfaceDeclaration[]) {
+  if (others.length === 0) return decl
+  const declarations = [decl, ...others]
+  const extendsTypes = getExtendsTypes(declarations)
+  return ts.factory.updateInterfaceDeclaration(
+    decl,
+    decl.modifiers,
+    decl.name,
+    decl.typeParameters,
+    extendsTypes.length > 0
+      ? [ts.factory.createHeritageClause(ts.SyntaxKind.ExtendsKeyword, extendsTypes)]
+      : undefined,
+    declarations.flatMap(declaration => declaration.members),
+  )
+}
+
+function getExtendsTypes(declarations: readonly ts.InterfaceDeclaration[]) {
+  return declarations.flatMap(
+    declaration =>
+      declaration.heritageClauses?.find(clause => clause.token === ts.SyntaxKind.ExtendsKeyword)
+        ?.types || [],
+  )
+}
+
+function extractInterfaceMembers(
+  declarations: readonly ts.InterfaceDeclaration[],
+  context: ParseContext,
+) {
+  const propertyTags = declarations.flatMap(
+    declaration => extractJsDoc(declaration)?.tags?.filter(isPropertyTag) || [],
+  )
+  return groupOverloads(
+    declarations.flatMap(declaration => declaration.members),
+    member =>
+      ts.isMethodSignature(member)
+        ? `method:${member.name.getText()}`
+        : ts.isCallSignatureDeclaration(member)
+        ? 'call'
+        : ts.isConstructSignatureDeclaration(member)
+        ? 'construct'
+        : undefined,
+  ).map(overloads => extractInterfaceMember(overloads, context, propertyTags))
+}
+
+/**
+ * Adds the members a class or interface inherits to its own members, when the `includeInherited`
+ * option is set. The heritage chain is resolved through the checker, so base types imported from
+ * other files and packages are included. Inherited members are marked with the base type they are
+ * declared in, with the type arguments of generic base types substituted, and members that override
+ * a member of a base type are linked to that member. Private members are not inherited.
+ * @param declaration - The class or interface declaration.
+ * @param members - The own members of the declaration.
+ * @param context - The context of the extraction.
+ * @param extractMembers - Extracts the own members of a declaration of a base type.
+ * @returns The own members followed by the inherited members, nearest base type first.
+ */
+function addInheritedMembers<T extends ClassMember | InterfaceMember>(
+  declaration: ts.ClassDeclaration | ts.InterfaceDeclaration,
+  members: T[],
+  context: ParseContext,
+  extractMembers: (base: ts.Declaration) => T[],
+): T[] {
+  const { checker } = context
+  const symbol = declaration.name && checker.getSymbolAtLocation(declaration.name)
+  if (!context.options.includeInherited || !symbol) return members
+
+  // Static members are inherited separately from instance members, and unnamed members like call
+  // signatures are not inherited by name.
+  const getKey = (member: T) =>
+    member.kind === 'Constructor'
+      ? 'constructor'
+      : member.name && `${'isStatic' in member && !!member.isStatic}:${member.name}`
+  const result = [...members]
+  const indices = new Map(result.map((member, index) => [getKey(member), index]))
+  const visited = new Set<ts.Type>()
+  const queue = [
+    ...checker.getBaseTypes(checker.getDeclaredTypeOfSymbol(symbol) as ts.InterfaceType),
+  ]
+
+  while (queue.length > 0) {
+    const baseType = queue.shift()!
+    const target = ((baseType as ts.TypeReference).target || baseType) as ts.InterfaceType
+    const baseSymbol = target.getSymbol()
+    if (visited.has(target) || !baseSymbol) continue
+    visited.add(target)
+
+    const baseDeclarations = (baseSymbol.declarations || []).filter(
+      base => ts.isClassDeclaration(base) || ts.isInterfaceDeclaration(base),
+    )
+    const localDeclaration = baseDeclarations.find(isLocalDeclaration)
+    const baseId = localDeclaration && getReferencedDeclarationId(localDeclaration, context.rootDir)
+    const reference: HeritageReference = { name: baseSymbol.getName(), targetId: baseId }
+    const isGeneric = !!target.typeParameters?.length
+
+    baseDeclarations.flatMap(extractMembers).forEach(member => {
+      const key = getKey(member)
+      if (!key || isPrivateMember(member)) return
+      const index = indices.get(key)
+      if (index === undefined) {
+        indices.set(key, result.length)
+        result.push({
+          ...(isGeneric
+            ? instantiateInheritedMember(member, symbol, declaration, context)
+            : member),
+          inheritedFrom: reference,
+        })
+      } else if (key !== 'constructor' && !result[index].overrides) {
+        const isStatic = 'isStatic' in member && member.isStatic
+        result[index] = {
+          ...result[index],
+          overrides: {
+            name: reference.name,
+            targetId: baseId && `${baseId}#${isStatic ? 'static-' : ''}${getMemberKey(member)}`,
+          },
+        }
+      }
+    })
+
+    if (target.objectFlags & (ts.ObjectFlags.Class | ts.ObjectFlags.Interface)) {
+      queue.push(...checker.getBaseTypes(target))
+    }
+  }
+
+  return result
+}
+
+function isPrivateMember(member: ClassMember | InterfaceMember) {
+  return (
+    ('accessModifier' in member && member.accessModifier === 'private') ||
+    !!member.name?.startsWith('#')
+  )
+}
+
+/**
+ * Substitutes the type arguments of a generic base type in the types of an inherited member, by
+ * resolving the member on the type of the inheriting declaration. The substituted types are printed
+ * by the checker, like the types of expanded references.
+ * @param member - The member as it is declared in the base type.
+ * @param symbol - The symbol of the inheriting class or interface.
+ * @param declaration - The declaration of the inheriting class or interface.
+ * @param context - The context of the extraction.
+ * @returns The member with the substituted types.
+ */
+function instantiateInheritedMember<T extends ClassMember | InterfaceMember>(
+  member: T,
+  symbol: ts.Symbol,
+  declaration: ts.ClassDeclaration | ts.InterfaceDeclaration,
+  context: ParseContext,
+): T {
+  const { checker } = context
+  const print = (type: ts.Type): TypeAnnotation => ({
+    kind: 'PrimitiveType',
+    literal: checker.typeToString(type, declaration),
+  })
+  const instantiateSignatures = (
+    signatures: readonly FunctionSignature[],
+    instantiated: readonly ts.Signature[],
+  ) =>
+    signatures.map((signature, index) => {
+      const target = instantiated[index]
+      if (!target) return signature
+      const parameters = target.getParameters()
+      return {
+        ...signature,
+        parameters: signature.parameters.map((parameter, index) =>
+          parameter.typeAnnotation && parameters[index]
+            ? {
+                ...parameter,
+                typeAnnotation: print(
+                  checker.getTypeOfSymbolAtLocation(parameters[index], declaration),
+                ),
+              }
+            : parameter,
+        ),
+        returnType: signature.returnType && print(checker.getReturnTypeOfSignature(target)),
+      }
+    })
+
+  const isStatic = 'isStatic' in member && member.isStatic
+  // Constructors and static members belong to the type of the class itself
+  const owner =
+    member.kind === 'Constructor' || isStatic
+      ? checker.getTypeOfSymbolAtLocation(symbol, declaration)
+      : checker.getDeclaredTypeOfSymbol(symbol)
+  if (member.kind === 'Constructor') {
+    const signatures = checker.getSignaturesOfType(owner, ts.SignatureKind.Construct)
+    return { ...member, signatures: instantiateSignatures(member.signatures, signatures) }
+  }
+
+  const property = member.name && checker.getPropertyOfType(owner, member.name)
+  if (!property) return member
+  let type = checker.getTypeOfSymbolAtLocation(property, declaration)
+  // the type of an optional property includes the `undefined` its annotation leaves out
+  if (member.isOptional) type = checker.getNonNullableType(type)
+
+  switch (member.kind) {
+    case 'Property':
+      return { ...member, typeAnnotation: member.typeAnnotation && print(type) }
+    case 'Method':
+      return {
+        ...member,
+        signatures: instantiateSignatures(
+          member.signatures,
+          checker.getSignaturesOfType(type, ts.SignatureKind.Call),
+        ),
+      }
+    case 'Accessor':
+      return {
+        ...member,
+        getter: member.getter && { ...member.getter, returnType: print(type) },
+        setter: member.setter && {
+          ...member.setter,
+          parameters: member.setter.parameters.map(parameter => ({
+            ...parameter,
+            typeAnnotation: print(type),
+          })),
         },
       }
-      return result
-    }),
+    default:
+      return member
   }
+}
 
-  return result
+/**
+ * Extracts individual interface members: properties, methods and call, construct and index signatures.
+ * @param overloads - The interface member to process, together with its overloads.
+ * @param context - The context of the extraction.
+ * @returns The extracted member data.
+ */
+function extractInterfaceMember(
+  overloads: readonly ts.TypeElement[],
+  context: ParseContext,
+  propertyTags: readonly JSDocPropertyTag[] = [],
+): InterfaceMember {
+  const [member] = overloads
+  const isOptional = !!member.questionToken || undefined
+  const isReadonly =
+    (ts.isPropertySignature(member) || ts.isIndexSignatureDeclaration(member)) &&
+    !!member.modifiers?.some(modifier => modifier.kind === ts.SyntaxKind.ReadonlyKeyword)
+
+  if (ts.isIndexSignatureDeclaration(member)) {
+    return {
+      kind: 'IndexSignature',
+      jsdoc: extractJsDoc(member),
+      isReadonly: isReadonly || undefined,
+      parameters: member.parameters.map(param => extractParameter(param, context)),
+      typeAnnotation: extractTypeAnnotation(member.type, context),
+      source: context.getSourceLocation(member),
+    }
+  }
+
+  if (
+    ts.isMethodSignature(member) ||
+    ts.isCallSignatureDeclaration(member) ||
+    ts.isConstructSignatureDeclaration(member)
+  ) {
+    return {
+      kind: ts.isMethodSignature(member)
+        ? 'Method'
+        : ts.isCallSignatureDeclaration(member)
+        ? 'CallSignature'
+        : 'ConstructSignature',
+      name: member.name?.getText(),
+      jsdoc: extractJsDoc(member),
+      isOptional,
+      signatures: extractSignatures(overloads, context),
+      source: context.getSourceLocation(member),
+    }
+  }
+
+  // `@property` tags of the interface document its properties, like those of a type literal
+  const name = member.name?.getText() || ''
+  const { ownTags, nestedTags } = getMemberPropertyTags(name, propertyTags)
+  return {
+    kind: 'Property',
+    name: member.name?.getText(),
+    jsdoc: ownTags.length > 0 ? mergeJsDoc(extractJsDoc(member), ownTags) : extractJsDoc(member),
+    isOptional,
+    isReadonly: isReadonly || undefined,
+    typeAnnotation:
+      ts.isPropertySignature(member) && member.type
+        ? extractTypeAnnotation(member.type, context, nestedTags)
+        : undefined,
+    source: context.getSourceLocation(member),
+  }
 }
 
 /**
- * Extracts type alias declaration details.
- * @param alias - The type alias declaration node.
- * @param checker - The TypeScript type checker.
- * @returns The extracted type alias data.
+ * Extracts namespace, `declare module` and `declare global` declarations, recursively extracting
+ * the declarations they contain.
+ * @param decl - The module declaration node.
+ * @param context - The context of the extraction.
+ * @returns The extracted namespace data.
  */
-function extractTypeAlias(
-  alias: ts.TypeAliasDeclaration,
-  checker: ts.TypeChecker,
-): TypeAliasElement {
-  const result: TypeAliasElement = {
-    kind: 'TypeAlias',
-    name: alias.name.getText(),
-    jsdoc: extractJsDoc(alias),
-    generics: extractGenerics(alias, checker),
-    typeAnnotation: alias.type ? extractTypeAnnotation(alias.type, checker, []) : undefined,
-    literal: printer
-      .printNode(ts.EmitHint.Unspecified, alias, alias.getSourceFile())
-      .replace('export type ', ''),
+function extractNamespace(decl: ts.ModuleDeclaration, context: ParseContext): NamespaceElement {
+  const { checker } = context
+  const members: TypeElement[] = []
+
+  if (decl.body && ts.isModuleDeclaration(decl.body)) {
+    // `namespace A.B {}` is a namespace A containing a namespace B.
+    members.push({
+      ...extractNamespace(decl.body, context),
+      id: getDeclarationId(decl.body, 'Namespace', decl.body.name.text, context.rootDir),
+      visibility: 'exported',
+    })
+  } else if (decl.body && ts.isModuleBlock(decl.body)) {
+    const symbol = !isAmbientModule(decl) ? checker.getSymbolAtLocation(decl.name) : undefined
+    const exports = symbol && getModuleExports(symbol, checker)
+
+    getTopLevelDeclarations(decl.body).forEach(declaration => {
+      const visibility =
+        !exports || exports.has(declaration) || isJsDocTypeDeclaration(declaration)
+          ? 'exported'
+          : 'internal'
+      extractNode(declaration, context).forEach(element => {
+        members.push({ ...element, visibility })
+      })
+    })
+  }
+
+  const result: NamespaceElement = {
+    kind: 'Namespace',
+    name: decl.name.text,
+    declarationKind:
+      decl.flags & ts.NodeFlags.GlobalAugmentation
+        ? 'global'
+        : ts.isStringLiteral(decl.name)
+        ? 'module'
+        : 'namespace',
+    jsdoc: extractJsDoc(decl),
+    members,
   }
   return result
 }
@@ -284,67 +1768,250 @@ function extractTypeAlias(
 /**
  * Extracts detailed type information, handling function types, object types, and other complex types.
  * @param typeNode - The type node to process.
- * @param checker - The TypeScript type checker.
+ * @param context - The context of the extraction.
  * @returns The extracted type data.
  */
 
 function extractTypeAnnotation(
   typeNode: ts.TypeNode,
-  checker: ts.TypeChecker,
+  context: ParseContext,
   jsDocTags?: readonly JSDocTag[],
 ): TypeAnnotation {
+  const { checker } = context
   switch (typeNode.kind) {
     case ts.SyntaxKind.TypeLiteral:
+      const literalNode = typeNode as ts.TypeLiteralNode
+      const callSignatures = literalNode.members.filter(ts.isCallSignatureDeclaration)
+      // A type literal consisting only of call signatures is an (overloaded) function type.
+      if (callSignatures.length > 0 && callSignatures.length === literalNode.members.length) {
+        return {
+          kind: 'FunctionType',
+          literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
+          signatures: extractSignatures(callSignatures, context),
+        }
+      }
+      const propertyTags = jsDocTags?.filter(isPropertyTag)
       return {
         kind: 'TypeLiteral',
-        generics: extractGenerics(typeNode, checker),
+        generics: extractGenerics(typeNode, context),
         literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
-        members: (typeNode as ts.TypeLiteralNode).members.map(member =>
-          extractTypeLiteralMember(
-            member,
-            checker,
-            jsDocTags?.filter(tag => tag.name === member.name?.getText()),
-          ),
-        ),
+        members: groupOverloads(
+          literalNode.members.filter(member => !ts.isCallSignatureDeclaration(member)),
+          member => (ts.isMethodSignature(member) ? member.name.getText() : undefined),
+        ).map(overloads => extractTypeLiteralMember(overloads, context, propertyTags)),
+        signatures:
+          callSignatures.length > 0 ? extractSignatures(callSignatures, context) : undefined,
       }
     case ts.SyntaxKind.FunctionType:
       const funcNode = typeNode as ts.FunctionTypeNode
       return {
         kind: 'FunctionType',
         literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
-        parameters: funcNode.parameters.map(param => extractParameter(param, checker)),
-        returnType: extractTypeAnnotation(funcNode.type, checker),
-        generics: extractGenerics(funcNode, checker),
+        signatures: [extractSignature(funcNode, context)],
       }
     case ts.SyntaxKind.TypeReference:
       const typeRef = typeNode as ts.TypeReferenceNode
       const type = checker.getTypeAtLocation(typeRef)
+      const target = getReferencedDeclaration(typeRef.typeName, checker)
       return {
         kind: 'TypeReference',
-
+        literal: checker.typeToString(type),
         name: type.aliasSymbol ? type.aliasSymbol.getName() : typeRef.typeName.getText(),
-        parameters: typeRef.typeArguments?.map(arg => extractTypeAnnotation(arg, checker)),
+        targetId: target && getReferencedDeclarationId(target, context.rootDir),
+        parameters: typeRef.typeArguments?.map(arg => extractTypeAnnotation(arg, context)),
+        expanded: target && expandTypeReference(typeRef, target, context),
+      }
+    case ts.SyntaxKind.ExpressionWithTypeArguments:
+      const heritageNode = typeNode as ts.ExpressionWithTypeArguments
+      const heritageTarget = getReferencedDeclaration(heritageNode.expression, checker)
+      return {
+        kind: 'TypeReference',
+        literal: checker.typeToString(checker.getTypeAtLocation(heritageNode)),
+        name: heritageNode.expression.getText(),
+        targetId: heritageTarget && getReferencedDeclarationId(heritageTarget, context.rootDir),
+        parameters: heritageNode.typeArguments?.map(arg => extractTypeAnnotation(arg, context)),
       }
     case ts.SyntaxKind.TupleType:
       const tupleNode = typeNode as ts.TupleTypeNode
       return {
         kind: 'Tuple',
         literal: checker.typeToString(checker.getTypeAtLocation(typeNode), typeNode),
-        types: tupleNode.elements.map(element => extractTypeAnnotation(element, checker)),
+        types: tupleNode.elements.map(element => extractTypeAnnotation(element, context)),
       }
     case ts.SyntaxKind.IntersectionType:
       const intersectionNode = typeNode as ts.IntersectionTypeNode
       return {
         kind: 'Intersection',
         literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
-        types: intersectionNode.types.map(type => extractTypeAnnotation(type, checker)),
+        types: intersectionNode.types.map(type => extractTypeAnnotation(type, context)),
       }
     case ts.SyntaxKind.UnionType:
       const unionNode = typeNode as ts.UnionTypeNode
       return {
         kind: 'Union',
         literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
-        types: unionNode.types.map(type => extractTypeAnnotation(type, checker)),
+        types: unionNode.types.map(type => extractTypeAnnotation(type, context)),
+      }
+    case ts.SyntaxKind.JSDocTypeLiteral:
+      const jsDocLiteralNode = typeNode as ts.JSDocTypeLiteral
+      const jsDocMembers = (jsDocLiteralNode.jsDocPropertyTags || []).map(property => {
+        const member: TypeLiteralMember = {
+          name: property.name.getText().split('.').pop()!,
+          typeAnnotation:
+            property.typeExpression && extractTypeAnnotation(property.typeExpression.type, context),
+          jsdoc: extractJsDocTagDescription(property),
+        }
+        return { member, isOptional: property.isBracketed }
+      })
+      return {
+        kind: 'TypeLiteral',
+        literal: `{ ${jsDocMembers
+          .map(
+            ({ member, isOptional }) =>
+              `${member.name}${isOptional ? '?' : ''}: ${member.typeAnnotation?.literal || 'any'};`,
+          )
+          .join(' ')} }`,
+        members: jsDocMembers.map(({ member }) => member),
+      }
+    case ts.SyntaxKind.JSDocSignature:
+      const jsDocSignatureNode = typeNode as ts.JSDocSignature
+      const jsDocSignature: FunctionSignature = {
+        parameters: jsDocSignatureNode.parameters.map(param => ({
+          name: param.name.getText(),
+          typeAnnotation:
+            param.typeExpression && extractTypeAnnotation(param.typeExpression.type, context),
+          jsdoc: extractJsDocTagDescription(param),
+        })),
+        returnType: jsDocSignatureNode.type?.typeExpression
+          ? extractTypeAnnotation(jsDocSignatureNode.type.typeExpression.type, context)
+          : undefined,
+        returns: jsDocSignatureNode.type && extractJsDocTagDescription(jsDocSignatureNode.type),
+      }
+      return {
+        kind: 'FunctionType',
+        literal: `(${jsDocSignature.parameters
+          .map(param => `${param.name}: ${param.typeAnnotation?.literal || 'any'}`)
+          .join(', ')}) => ${jsDocSignature.returnType?.literal || 'void'}`,
+        signatures: [jsDocSignature],
+      }
+    case ts.SyntaxKind.ArrayType:
+      const arrayNode = typeNode as ts.ArrayTypeNode
+      return {
+        kind: 'Array',
+        literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
+        elementType: extractTypeAnnotation(arrayNode.elementType, context),
+      }
+    case ts.SyntaxKind.TypeOperator:
+      const operatorNode = typeNode as ts.TypeOperatorNode
+      return {
+        kind: 'TypeOperator',
+        literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
+        operator:
+          operatorNode.operator === ts.SyntaxKind.KeyOfKeyword
+            ? 'keyof'
+            : operatorNode.operator === ts.SyntaxKind.UniqueKeyword
+            ? 'unique'
+            : 'readonly',
+        type: extractTypeAnnotation(operatorNode.type, context),
+      }
+    case ts.SyntaxKind.IndexedAccessType:
+      const indexedAccessNode = typeNode as ts.IndexedAccessTypeNode
+      return {
+        kind: 'IndexedAccess',
+        literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
+        objectType: extractTypeAnnotation(indexedAccessNode.objectType, context),
+        indexType: extractTypeAnnotation(indexedAccessNode.indexType, context),
+      }
+    case ts.SyntaxKind.MappedType:
+      const mappedNode = typeNode as ts.MappedTypeNode
+      const getModifier = (token?: ts.Node) =>
+        token?.kind === ts.SyntaxKind.PlusToken
+          ? '+'
+          : token?.kind === ts.SyntaxKind.MinusToken
+          ? '-'
+          : undefined
+      return {
+        kind: 'Mapped',
+        literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
+        typeParameter: mappedNode.typeParameter.name.text,
+        constraint:
+          mappedNode.typeParameter.constraint &&
+          extractTypeAnnotation(mappedNode.typeParameter.constraint, context),
+        nameType: mappedNode.nameType && extractTypeAnnotation(mappedNode.nameType, context),
+        type: mappedNode.type && extractTypeAnnotation(mappedNode.type, context),
+        readonlyModifier: mappedNode.readonlyToken
+          ? getModifier(mappedNode.readonlyToken) || 'readonly'
+          : undefined,
+        optionalModifier: mappedNode.questionToken
+          ? getModifier(mappedNode.questionToken) || '?'
+          : undefined,
+      }
+    case ts.SyntaxKind.ConditionalType:
+      const conditionalNode = typeNode as ts.ConditionalTypeNode
+      return {
+        kind: 'Conditional',
+        literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
+        checkType: extractTypeAnnotation(conditionalNode.checkType, context),
+        extendsType: extractTypeAnnotation(conditionalNode.extendsType, context),
+        trueType: extractTypeAnnotation(conditionalNode.trueType, context),
+        falseType: extractTypeAnnotation(conditionalNode.falseType, context),
+      }
+    case ts.SyntaxKind.InferType:
+      const inferNode = typeNode as ts.InferTypeNode
+      return {
+        kind: 'Infer',
+        literal: printTypeNode(typeNode),
+        name: inferNode.typeParameter.name.text,
+        constraint:
+          inferNode.typeParameter.constraint &&
+          extractTypeAnnotation(inferNode.typeParameter.constraint, context),
+      }
+    case ts.SyntaxKind.TemplateLiteralType:
+      const templateNode = typeNode as ts.TemplateLiteralTypeNode
+      return {
+        kind: 'TemplateLiteral',
+        literal: checker.typeToString(checker.getTypeAtLocation(typeNode)),
+        head: templateNode.head.text,
+        spans: templateNode.templateSpans.map(span => ({
+          type: extractTypeAnnotation(span.type, context),
+          text: span.literal.text,
+        })),
+      }
+    case ts.SyntaxKind.TypeQuery:
+      const queryNode = typeNode as ts.TypeQueryNode
+      return {
+        kind: 'TypeQuery',
+        literal: printTypeNode(typeNode),
+        name: queryNode.exprName.getText(),
+        parameters: queryNode.typeArguments?.map(arg => extractTypeAnnotation(arg, context)),
+      }
+    case ts.SyntaxKind.OptionalType:
+      return {
+        kind: 'Optional',
+        literal: printTypeNode(typeNode),
+        type: extractTypeAnnotation((typeNode as ts.OptionalTypeNode).type, context),
+      }
+    case ts.SyntaxKind.RestType:
+      return {
+        kind: 'Rest',
+        literal: printTypeNode(typeNode),
+        type: extractTypeAnnotation((typeNode as ts.RestTypeNode).type, context),
+      }
+    case ts.SyntaxKind.NamedTupleMember:
+      const memberNode = typeNode as ts.NamedTupleMember
+      return {
+        kind: 'NamedTupleMember',
+        literal: printTypeNode(typeNode),
+        name: memberNode.name.text,
+        isOptional: !!memberNode.questionToken || undefined,
+        isRest: !!memberNode.dotDotDotToken || undefined,
+        type: extractTypeAnnotation(memberNode.type, context),
+      }
+    case ts.SyntaxKind.ParenthesizedType:
+      return {
+        kind: 'Parenthesized',
+        literal: printTypeNode(typeNode),
+        type: extractTypeAnnotation((typeNode as ts.ParenthesizedTypeNode).type, context),
       }
     default:
       return {
@@ -354,38 +2021,77 @@ function extractTypeAnnotation(
   }
 }
 
+/**
+ * Prints a type node as it is written, for syntax that the checker has no type of its own for,
+ * like the members of a tuple.
+ */
+function printTypeNode(typeNode: ts.TypeNode) {
+  return printer.printNode(ts.EmitHint.Unspecified, typeNode, typeNode.getSourceFile())
+}
+
 /**
  * Extracts JSDoc comments and tags from a node.
  * @param node - The node from which to extract JSDoc.
  * @returns The extracted JSDoc information.
  */
 function extractJsDoc(node: ts.Node): JSDocInfo | undefined {
-  const jsDocTags = ts.getJSDocTags(node)
-  const jsDocs = ts.getJSDocCommentsAndTags(node)
-  const comment = extractComment(jsDocs[0]?.comment)
-  let description = comment ? [comment] : undefined
+  // Comments declaring types with `@typedef` or `@callback` document those types, not the node.
+  const isTypeDeclarationComment = (jsDoc: ts.Node) =>
+    ts.isJSDoc(jsDoc) && !!jsDoc.tags?.some(isJsDocTypeDeclaration)
+  const jsDocTags = ts
+    .getJSDocTags(node)
+    .filter(tag => !isTypeDeclarationComment(tag.parent))
+    // The `@param` tags of a parameter are merged into its description by `extractParameter`.
+    .filter(tag => !(ts.isParameter(node) && ts.isJSDocParameterTag(tag)))
+  const jsDoc = ts
+    .getJSDocCommentsAndTags(node)
+    .filter(ts.isJSDoc)
+    .find(jsDoc => !isTypeDeclarationComment(jsDoc))
 
-  let tags = jsDocTags.map(tag => ({
-    tagName: tag.tagName.text,
-    ...extractJsDocTagDetail(tag),
-  }))
+  return createJsDocInfo([jsDoc?.comment], jsDocTags.map(extractJsDocTag))
+}
+
+/**
+ * Creates the JSDoc information of a description and tags.
+ * @param comments - The comments that make up the description.
+ * @param tags - The extracted tags.
+ * @returns The JSDoc information, or `undefined` when there is no description and no tags.
+ */
+function createJsDocInfo(
+  comments: readonly ts.JSDoc['comment'][],
+  tags: readonly JSDocTag[] = [],
+): JSDocInfo | undefined {
+  const description = comments.map(extractComment).filter((comment): comment is string => !!comment)
+  const links = comments.flatMap(extractLinks)
 
-  if (!description && tags.length === 0) {
+  if (description.length === 0 && tags.length === 0) {
     return undefined
   }
 
   const result: JSDocInfo = {
-    description,
+    description: description.length > 0 ? description : undefined,
   }
   if (tags.length > 0) {
     result.tags = tags
   }
+  if (links.length > 0) {
+    result.links = links
+  }
 
   return result
 }
 
 /**
- * Extracts and cleans a JSDoc comment.
+ * Extracts the comment of a JSDoc tag as the description of the element the tag documents.
+ * @param tag - The JSDoc tag, for example a `@param` or `@property` tag.
+ * @returns The extracted JSDoc information, or `undefined` when the tag has no comment.
+ */
+function extractJsDocTagDescription(tag: ts.JSDocTag): JSDocInfo | undefined {
+  return createJsDocInfo([tag.comment])
+}
+
+/**
+ * Extracts and cleans a JSDoc comment. Inline links are kept as they are written.
  * @param comment - The comment to clean.
  * @returns The cleaned comment.
  */
@@ -395,7 +2101,9 @@ function extractComment(comment: ts.JSDocTag['comment']) {
     commentText = comment
   } else if (comment && Array.isArray(comment)) {
     // Concatenate all parts of the comment array into a single string
-    commentText = comment.map(part => part.text).join(' ')
+    commentText = comment
+      .map(part => (isJsDocLink(part) ? getLinkLiteral(part) : part.text))
+      .join('')
   }
   if (commentText?.startsWith('- ')) {
     return commentText.replace('- ', '')
@@ -404,83 +2112,568 @@ function extractComment(comment: ts.JSDocTag['comment']) {
 }
 
 /**
- * Extracts detailed information from a JSDoc tag, handling specific properties for documentation.
- * @param tag - The JSDoc tag to process.
- * @returns The extracted tag detail.
- */
-function extractJsDocTagDetail(tag: ts.JSDocTag): JSDocTag {
-  const result =
-    tag.tagName.text === 'property'
-      ? extractJsDocTagDetailProperty(tag)
-      : {
-          comment: extractComment(tag.comment) || undefined,
-          name: (tag as any).name?.text || undefined,
-          literal: (tag as any).typeExpression?.type?.getText() || undefined,
-        }
+ * Extracts the inline `{@link}`, `{@linkcode}` and `{@linkplain}` tags of a JSDoc comment.
+ * @param comment - The comment to extract the links of.
+ * @returns The extracted links, in order of appearance.
+ */
+function extractLinks(comment: ts.JSDocTag['comment']): JSDocLink[] {
+  if (!comment || typeof comment === 'string') return []
+  return comment.filter(isJsDocLink).map(link => {
+    const literal = getLinkLiteral(link)
+    // The target is a name or a URL, separated from the optional text by a space or `|`.
+    const [, target = '', text] = literal.match(/^\{@\w+\s+([^\s|}]+)\s*\|?\s*([^}]*?)\s*\}$/) || []
+    return {
+      kind: ts.isJSDocLinkCode(link)
+        ? 'linkcode'
+        : ts.isJSDocLinkPlain(link)
+        ? 'linkplain'
+        : 'link',
+      target,
+      text: text || undefined,
+      literal,
+    }
+  })
+}
 
-  return result
+function isJsDocLink(node: ts.Node): node is ts.JSDocLink | ts.JSDocLinkCode | ts.JSDocLinkPlain {
+  return ts.isJSDocLink(node) || ts.isJSDocLinkCode(node) || ts.isJSDocLinkPlain(node)
+}
+
+/**
+ * Returns an inline link as it is written, e.g. `{@link Foo | the foo}`.
+ * @param link - The inline link.
+ * @returns The text of the link.
+ */
+function getLinkLiteral(link: ts.JSDocLink | ts.JSDocLinkCode | ts.JSDocLinkPlain) {
+  if (link.pos >= 0) return link.getText()
+  const tagName = ts.isJSDocLinkCode(link)
+    ? 'linkcode'
+    : ts.isJSDocLinkPlain(link)
+    ? 'linkplain'
+    : 'link'
+  return `{@${tagName} ${[link.name?.getText(), link.text].filter(Boolean).join('')}}`
 }
 
 /**
- * Special handling for 'property' JSDoc tags, extracting structured information.
- * @param tag - The 'property' JSDoc tag.
- * @returns The structured property tag detail.
+ * Extracts a JSDoc tag. Tags with a known meaning are extracted into their typed variant, with the
+ * synonyms `@return`, `@exception` and `@prop` normalized to `@returns`, `@throws` and `@property`.
+ * @param tag - The JSDoc tag to process.
+ * @returns The extracted tag.
  */
-function extractJsDocTagDetailProperty(tag: ts.JSDocTag) {
-  // Apply regex to the extracted comment text
-  const match = extractComment(tag.comment)?.match(/^{(\S+)}\s+(\S+)\s+-\s+(.*)$/)
-  if (match) {
-    const [, literal, name, description] = match
+function extractJsDocTag(tag: ts.JSDocTag): JSDocTag {
+  const comment = extractComment(tag.comment) || undefined
+  const links = extractLinks(tag.comment)
+  const details = { comment, links: links.length > 0 ? links : undefined }
+
+  if (ts.isJSDocParameterTag(tag)) {
     return {
-      comment: description.trim(), // Ensure description is trimmed of leading/trailing whitespace
-      name,
-      literal,
+      tagName: 'param',
+      ...details,
+      name: tag.name.getText(),
+      literal: tag.typeExpression?.type.getText(),
+      isOptional: tag.isBracketed || undefined,
+    }
+  }
+  if (ts.isJSDocReturnTag(tag)) {
+    return { tagName: 'returns', ...details, literal: tag.typeExpression?.type.getText() }
+  }
+  if (ts.isJSDocThrowsTag(tag)) {
+    return { tagName: 'throws', ...details, literal: tag.typeExpression?.type.getText() }
+  }
+  if (ts.isJSDocDeprecatedTag(tag)) {
+    return { tagName: 'deprecated', ...details }
+  }
+  if (ts.isJSDocSeeTag(tag)) {
+    // The comment of a name that ends its line starts at the `*` of the next line of the JSDoc.
+    const seeComment = comment?.replace(/^[\s*]+/, '') || undefined
+    return { tagName: 'see', ...details, comment: seeComment, name: tag.name?.name.getText() }
+  }
+  if (tag.tagName.text === 'since') {
+    return { tagName: 'since', ...details }
+  }
+  if (
+    ts.isJSDocPropertyTag(tag) ||
+    tag.tagName.text === 'property' ||
+    tag.tagName.text === 'prop'
+  ) {
+    return extractJsDocPropertyTag(tag)
+  }
+  return {
+    tagName: tag.tagName.text,
+    ...details,
+    name: (tag as any).name?.text || undefined,
+    literal: (tag as any).typeExpression?.type?.getText() || undefined,
+  }
+}
+
+/**
+ * Extracts a `@property` (or `@prop`) tag. Outside of `@typedef` comments TypeScript does not parse
+ * these tags, so they are parsed again inside of one.
+ * @param tag - The `@property` JSDoc tag.
+ * @returns The extracted property tag.
+ */
+function extractJsDocPropertyTag(tag: ts.JSDocTag): JSDocPropertyTag {
+  const propertyTag = ts.isJSDocPropertyTag(tag) ? tag : parseJsDocPropertyTag(tag)
+  if (!propertyTag) {
+    return { tagName: 'property', name: '', comment: extractComment(tag.comment) || undefined }
+  }
+  const sourceText = propertyTag.getSourceFile().text
+  // The parser skips the default value of a bracketed name, so it is read from the source text.
+  const [, defaultValue] = propertyTag.isBracketed
+    ? sourceText.slice(propertyTag.name.end).match(/^\s*=\s*([^\]]*?)\s*\]/) || []
+    : []
+  const links = extractLinks(propertyTag.comment)
+
+  return {
+    tagName: 'property',
+    comment: extractComment(propertyTag.comment) || undefined,
+    links: links.length > 0 ? links : undefined,
+    name: propertyTag.name.getText(),
+    literal: propertyTag.typeExpression?.type.getText(),
+    isOptional: propertyTag.isBracketed || undefined,
+    defaultValue,
+  }
+}
+
+function isPropertyTag(tag: JSDocTag): tag is JSDocPropertyTag {
+  return tag.tagName === 'property'
+}
+
+function parseJsDocPropertyTag(tag: ts.JSDocTag) {
+  const sourceFile = ts.createSourceFile(
+    'property.ts',
+    `/**\n * @typedef {Object} Property\n * ${tag
+      .getText()
+      .replace(/^@prop\b/, '@property')}\n */\nvar _`,
+    ts.ScriptTarget.Latest,
+    true,
+  )
+  const typedef = ts.getJSDocTags(sourceFile.statements[0]).find(ts.isJSDocTypedefTag)
+  const typeLiteral = typedef?.typeExpression
+  return typeLiteral && ts.isJSDocTypeLiteral(typeLiteral)
+    ? typeLiteral.jsDocPropertyTags?.[0]
+    : undefined
+}
+
+/**
+ * Reports the `@property` tags of a variable, type alias or interface that do not document one of
+ * its members through the `onWarning` option.
+ * @param name - The name of the declaration.
+ * @param tags - The JSDoc tags of the declaration.
+ * @param members - The extracted members of the declaration.
+ * @param context - The context of the extraction.
+ */
+function warnUnknownPropertyTags(
+  name: string,
+  tags: readonly JSDocTag[] = [],
+  members: readonly { name?: string; typeAnnotation?: TypeAnnotation }[],
+  context: ParseContext,
+) {
+  for (const tag of tags.filter(isPropertyTag)) {
+    // dotted names document the members of the type literal of a member
+    let candidates = members
+    let member: (typeof members)[number] | undefined
+    for (const segment of tag.name.split('.')) {
+      member = candidates.find(candidate => candidate.name === segment)
+      candidates = getTypeLiteralMembers(member?.typeAnnotation)
+    }
+    if (!member) {
+      context.options.onWarning?.(`@property ${tag.name} of ${name} does not exist on its type`)
     }
   }
-  return {}
+}
+
+function getTypeLiteralMembers(annotation?: TypeAnnotation): readonly TypeLiteralMember[] {
+  return annotation?.kind === 'TypeLiteral' ? annotation.members : []
 }
 
 /**
  * Extracts details about a function parameter, including its type and any JSDoc comments.
  * @param param - The parameter declaration.
- * @param checker - The TypeScript type checker.
+ * @param context - The context of the extraction.
  * @returns The extracted parameter data.
  */
-function extractParameter(param: ts.ParameterDeclaration, checker: ts.TypeChecker) {
+function extractParameter(param: ts.ParameterDeclaration, context: ParseContext) {
   const result: Parameter = {
     name: param.name.getText(),
-    jsdoc: extractJsDoc(param),
-    typeAnnotation: param.type ? extractTypeAnnotation(param.type, checker, []) : undefined,
+    jsdoc: mergeJsDoc(extractJsDoc(param), getParameterTags(param).map(extractJsDocTag)),
+    typeAnnotation: param.type ? extractTypeAnnotation(param.type, context, []) : undefined,
+    source: context.getSourceLocation(param),
   }
   return result
 }
 
-// Extract detailed information from type members
+/**
+ * Lists the `@param` tags that document a parameter. The parameters of a function type are
+ * documented by the tags of the property the function type annotates.
+ * @param param - The parameter declaration.
+ * @returns The `@param` tags of the parameter.
+ */
+function getParameterTags(param: ts.ParameterDeclaration) {
+  const tags = ts.getJSDocParameterTags(param)
+  const host = param.parent.parent
+  if (tags.length > 0 || !(ts.isPropertySignature(host) || ts.isPropertyDeclaration(host))) {
+    return tags
+  }
+  return ts
+    .getJSDocTags(host)
+    .filter(ts.isJSDocParameterTag)
+    .filter(tag => tag.name.getText() === param.name.getText())
+}
+
+/**
+ * Returns the `@returns` tag that documents the return value of a signature, falling back to the
+ * tag of the property a function type annotates.
+ * @param decl - The signature declaration node.
+ * @returns The `@returns` tag, if any.
+ */
+function getReturnTag(decl: ts.SignatureDeclaration) {
+  const host = decl.parent
+  return (
+    ts.getJSDocReturnTag(decl) ||
+    (ts.isPropertySignature(host) || ts.isPropertyDeclaration(host)
+      ? ts.getJSDocReturnTag(host)
+      : undefined)
+  )
+}
+
+/**
+ * Returns the ID of a declaration: the path of its module without extension, its kind and its name,
+ * qualified with the namespaces it is declared in, e.g. `src/store:Function:Store.create`. The kind
+ * tells apart the declarations that merge under one name, like a class and a namespace.
+ * @param node - The declaration node.
+ * @param kind - The kind of the element extracted from the declaration.
+ * @param name - The name of the declaration.
+ * @param rootDir - The root directory of the project, which the path of the module is relative to.
+ * @returns The ID.
+ */
+function getDeclarationId(node: ts.Node, kind: TypeElement['kind'], name: string, rootDir: string) {
+  const sourceFile = node.getSourceFile()
+  const names = [name]
+  for (let parent = node.parent; parent && parent !== sourceFile; parent = parent.parent) {
+    if (ts.isModuleDeclaration(parent)) {
+      names.unshift(parent.name.text)
+    }
+  }
+  const modulePath = path
+    .relative(rootDir, sourceFile.fileName)
+    .replace(/(\.d)?\.[cm]?[jt]sx?$/, '')
+  return `${modulePath}:${kind}:${names.join('.')}`
+}
+
+/**
+ * Returns the ID of a declaration that a type reference or heritage clause refers to.
+ * @param declaration - The class, interface, enum or type alias declaration.
+ * @param rootDir - The root directory of the project, which the path of the module is relative to.
+ * @returns The ID.
+ */
+function getReferencedDeclarationId(declaration: ts.Declaration, rootDir: string) {
+  const kind = ts.isClassDeclaration(declaration)
+    ? 'Class'
+    : ts.isInterfaceDeclaration(declaration)
+    ? 'Interface'
+    : ts.isEnumDeclaration(declaration)
+    ? 'Enum'
+    : 'TypeAlias'
+  return getDeclarationId(declaration, kind, getDeclarationName(declaration), rootDir)
+}
+
+/** Returns the path of the module in the ID of a declaration, e.g. `src/store`. */
+function getModulePath(id: string) {
+  return id.slice(0, id.indexOf(':'))
+}
+
+/**
+ * Changes the ID of an element to the ID under another name, e.g. `src/store:Function:make` for
+ * `export { create as make }`, and the IDs of its members and nested elements along with it.
+ * @param element - The element.
+ * @param modulePath - The path of the module the element is declared in.
+ * @param name - The new name, qualified with the namespaces the element is in.
+ * @returns The element with the new ID.
+ */
+function setElementId(element: TypeElement, modulePath: string, name: string): TypeElement {
+  const id = `${modulePath}:${element.kind}:${name}`
+  if (element.kind === 'Namespace') {
+    return {
+      ...element,
+      id,
+      members: element.members.map(member =>
+        setElementId(member, modulePath, `${name}.${member.name}`),
+      ),
+    }
+  }
+  return addMemberIds({ ...element, id })
+}
+
+/**
+ * Gives the members of an element IDs below the ID of the element, made of the kind and the name of
+ * each member, e.g. `src/store:Class:Store#method:create` or
+ * `src/store:Class:Store#static-property:count`.
+ * The members of type literals are nested below the member or element they annotate.
+ * @param element - The element with its ID.
+ * @returns The element with the IDs of its members.
+ */
+function addMemberIds(element: TypeElement): TypeElement {
+  const id = element.id!
+  switch (element.kind) {
+    case 'Class':
+      return {
+        ...element,
+        members: element.members.map(member =>
+          addTypeLiteralMemberIds({
+            ...member,
+            id: `${id}#${member.isStatic ? 'static-' : ''}${getMemberKey(member)}`,
+          }),
+        ),
+      }
+    case 'Interface':
+      return {
+        ...element,
+        members: element.members.map(member =>
+          addTypeLiteralMemberIds({ ...member, id: `${id}#${getMemberKey(member)}` }),
+        ),
+      }
+    case 'Enum':
+      return {
+        ...element,
+        members: element.members.map(member => ({ ...member, id: `${id}#member:${member.name}` })),
+      }
+    case 'TypeAlias':
+    case 'Variable':
+      return addTypeLiteralMemberIds(element, `${id}#`)
+    default:
+      return element
+  }
+}
+
+/**
+ * Returns the part of the ID of a class or interface member that identifies it within its
+ * declaration, e.g. `method:create`, `constructor` or `indexSignature:string`.
+ */
+function getMemberKey(member: ClassMember | InterfaceMember) {
+  const kind = member.kind[0].toLowerCase() + member.kind.slice(1)
+  if (member.kind === 'IndexSignature') {
+    return `${kind}:${member.parameters[0]?.typeAnnotation?.literal || ''}`
+  }
+  return member.name ? `${kind}:${member.name}` : kind
+}
+
+/**
+ * Gives the members of the type literal that annotates an element or member IDs below its ID.
+ * References are not descended into, their expanded structure belongs to the referenced declaration.
+ * @param owner - The element or member with its ID.
+ * @param prefix - What the IDs of the members start with, the ID of the owner and a separator.
+ * @returns The owner with the IDs of the members of its type literal.
+ */
+function addTypeLiteralMemberIds<T extends { id?: string; typeAnnotation?: TypeAnnotation }>(
+  owner: T,
+  prefix = `${owner.id}.`,
+): T {
+  if (owner.typeAnnotation?.kind !== 'TypeLiteral') return owner
+  return {
+    ...owner,
+    typeAnnotation: {
+      ...owner.typeAnnotation,
+      members: owner.typeAnnotation.members.map(member =>
+        addTypeLiteralMemberIds({ ...member, id: `${prefix}property:${member.name}` }),
+      ),
+    },
+  }
+}
+
+function getDeclarationName(declaration: ts.Declaration) {
+  return isJsDocTypeDeclaration(declaration)
+    ? getJsDocTypeDeclarationName(declaration)
+    : ts.getNameOfDeclaration(declaration)?.getText() || 'default'
+}
+
+/**
+ * Resolves the declaration a type reference refers to, if it is a type declared in the program
+ * rather than in the default library or an external library.
+ * @param name - The name of the referenced type.
+ * @param checker - The TypeScript type checker.
+ * @returns The referenced declaration, if any.
+ */
+function getReferencedDeclaration(name: ts.Node, checker: ts.TypeChecker) {
+  let symbol = checker.getSymbolAtLocation(name)
+  if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+    symbol = checker.getAliasedSymbol(symbol)
+  }
+  const declaration = symbol?.declarations?.find(
+    declaration =>
+      ts.isTypeAliasDeclaration(declaration) ||
+      ts.isInterfaceDeclaration(declaration) ||
+      ts.isClassDeclaration(declaration) ||
+      ts.isEnumDeclaration(declaration) ||
+      isJsDocTypeDeclaration(declaration),
+  )
+  return declaration && isLocalDeclaration(declaration) ? declaration : undefined
+}
+
+/**
+ * Checks whether a declaration is part of the program rather than of the default library or an
+ * external library.
+ */
+function isLocalDeclaration(declaration: ts.Node) {
+  const sourceFile = declaration.getSourceFile()
+  return !sourceFile.hasNoDefaultLib && !/[\\/]node_modules[\\/]/.test(sourceFile.fileName)
+}
+
+/**
+ * Expands a reference to a type alias or interface into the structure of its target, when the
+ * `expandReferences` option is set. The members of object types are resolved through the type of
+ * the reference, so type arguments are substituted, and take their JSDoc from the declarations of
+ * the target.
+ * @param reference - The type reference node.
+ * @param target - The declaration the reference refers to.
+ * @param context - The context of the extraction.
+ * @returns The expanded type, or `undefined` when the reference is not expanded.
+ */
+function expandTypeReference(
+  reference: ts.TypeReferenceNode,
+  target: ts.Declaration,
+  context: ParseContext,
+): TypeAnnotation | undefined {
+  const { checker } = context
+  if (!context.options.expandReferences || context.expandingDeclarations.has(target)) {
+    return undefined
+  }
+  if (!ts.isTypeAliasDeclaration(target) && !ts.isInterfaceDeclaration(target)) return undefined
+
+  context.expandingDeclarations.add(target)
+  try {
+    const type = checker.getTypeAtLocation(reference)
+    if (ts.isTypeAliasDeclaration(target) && !ts.isTypeLiteralNode(target.type)) {
+      return referencesTypeParameters(target.type, checker)
+        ? {
+            kind: 'PrimitiveType',
+            literal: checker.typeToString(type, undefined, ts.TypeFormatFlags.InTypeAlias),
+          }
+        : extractTypeAnnotation(target.type, context)
+    }
+
+    const members = checker.getPropertiesOfType(type).map(property => {
+      const declarations = property.declarations || []
+      const [declaration] = declarations
+      const typeNode = declaration && (declaration as ts.PropertySignature).type
+      const isMethod = !!declaration && ts.isMethodSignature(declaration)
+      const typeAnnotation: TypeAnnotation | undefined =
+        declaration && referencesTypeParameters(declaration, checker)
+          ? {
+              kind: 'PrimitiveType',
+              literal: checker.typeToString(checker.getTypeOfSymbolAtLocation(property, reference)),
+            }
+          : isMethod
+          ? {
+              kind: 'FunctionType',
+              literal: checker.typeToString(checker.getTypeOfSymbolAtLocation(property, reference)),
+              signatures: extractSignatures(declarations.filter(ts.isMethodSignature), context),
+            }
+          : typeNode
+          ? extractTypeAnnotation(typeNode, context)
+          : undefined
+      const member: TypeLiteralMember = {
+        name: property.getName(),
+        typeAnnotation,
+        jsdoc: declaration && extractJsDoc(declaration),
+      }
+      return { member, isOptional: !!(property.flags & ts.SymbolFlags.Optional) }
+    })
+
+    return {
+      kind: 'TypeLiteral',
+      literal: `{ ${members
+        .map(
+          ({ member, isOptional }) =>
+            `${member.name}${isOptional ? '?' : ''}: ${member.typeAnnotation?.literal || 'any'};`,
+        )
+        .join(' ')} }`,
+      members: members.map(({ member }) => member),
+    }
+  } finally {
+    context.expandingDeclarations.delete(target)
+  }
+}
+
+/**
+ * Checks whether a node refers to a type parameter, in which case its type depends on the type
+ * arguments of a reference to its declaration.
+ */
+function referencesTypeParameters(node: ts.Node, checker: ts.TypeChecker): boolean {
+  if (
+    ts.isTypeReferenceNode(node) &&
+    checker.getTypeAtLocation(node).flags & ts.TypeFlags.TypeParameter
+  ) {
+    return true
+  }
+  return !!ts.forEachChild(node, child => referencesTypeParameters(child, checker) || undefined)
+}
+
+// Extract detailed information from type members, grouping overloaded method signatures.
+// `@property` tags document the member of their name, and with a dotted name its sub-members.
 function extractTypeLiteralMember(
-  member: ts.TypeElement,
-  checker: ts.TypeChecker,
-  jsDocTags?: any[],
+  overloads: readonly ts.TypeElement[],
+  context: ParseContext,
+  propertyTags: readonly JSDocPropertyTag[] = [],
 ): TypeLiteralMember {
-  const inlinedJsDoc = extractJsDoc(member)
-  const jsdoc = mergeJsDoc(inlinedJsDoc, jsDocTags)
+  const { checker } = context
+  const [member] = overloads
+  const name = member.name?.getText() || ''
+  const { ownTags, nestedTags } = getMemberPropertyTags(name, propertyTags)
+  const jsdoc = mergeJsDoc(extractJsDoc(member), ownTags)
 
-  const type =
-    'type' in member && member.type
-      ? extractTypeAnnotation(member.type as ts.TypeNode, checker)
-      : undefined
+  const type: TypeAnnotation | undefined = ts.isMethodSignature(member)
+    ? {
+        kind: 'FunctionType',
+        literal: checker.typeToString(checker.getTypeAtLocation(member)),
+        signatures: extractSignatures(overloads, context),
+      }
+    : 'type' in member && member.type
+    ? extractTypeAnnotation(member.type as ts.TypeNode, context, nestedTags)
+    : undefined
 
   const result: TypeLiteralMember = {
-    name: member.name?.getText() || '',
+    name,
     typeAnnotation: type,
     jsdoc,
+    source: context.getSourceLocation(member),
   }
 
   return result
 }
 
+/**
+ * Splits the `@property` tags of a declaration into the tags of one of its members and the tags
+ * of the sub-members of that member, with their names made relative to the member.
+ */
+function getMemberPropertyTags(name: string, propertyTags: readonly JSDocPropertyTag[]) {
+  return {
+    ownTags: propertyTags.filter(tag => tag.name === name),
+    nestedTags: propertyTags
+      .filter(tag => tag.name.startsWith(`${name}.`))
+      .map(tag => ({ ...tag, name: tag.name.slice(name.length + 1) })),
+  }
+}
+
+/**
+ * Combines the JSDoc of merged declarations, in the order of the declarations.
+ * @param jsdocs - The JSDoc of each declaration.
+ * @returns The combined JSDoc, or `undefined` when none of the declarations is documented.
+ */
+function combineJsDoc(jsdocs: readonly (JSDocInfo | undefined)[]): JSDocInfo | undefined {
+  const documented = jsdocs.filter((jsdoc): jsdoc is JSDocInfo => !!jsdoc)
+  if (documented.length <= 1) return documented[0]
+  const combine = <T>(values: readonly T[]) => (values.length > 0 ? values : undefined)
+  return {
+    description: combine(documented.flatMap(jsdoc => jsdoc.description || [])),
+    tags: combine(documented.flatMap(jsdoc => jsdoc.tags || [])),
+    links: combine(documented.flatMap(jsdoc => jsdoc.links || [])),
+  }
+}
+
 function mergeJsDoc(
   inlinedJsDoc: JSDocInfo | undefined,
-  propertyJsDocTags?: any[],
+  propertyJsDocTags?: readonly JSDocTag[],
 ): JSDocInfo | undefined {
   const externalDescriptions =
     propertyJsDocTags && propertyJsDocTags.length > 0
@@ -496,6 +2689,11 @@ function mergeJsDoc(
     return undefined
   }
 
+  const links = [
+    ...(propertyJsDocTags || []).flatMap(propTag => propTag?.links || []),
+    ...(inlinedJsDoc?.links || []),
+  ]
+
   const result: JSDocInfo = {
     tags: inlinedJsDoc?.tags,
   }
@@ -503,6 +2701,9 @@ function mergeJsDoc(
   if (descriptions.length > 0) {
     result.description = descriptions
   }
+  if (links.length > 0) {
+    result.links = links
+  }
 
   return result
 }
@@ -1,24 +1,398 @@
-import { writeFile } from 'fs'
+#!/usr/bin/env bun
+import { mkdir, readdir, readFile, stat, writeFile } from 'fs/promises'
+import path from 'path'
+import ts from 'typescript'
+import { parseArgs } from 'util'
+import { createUnifiedDiff } from './diff'
+import { renderHtml } from './html'
+import { injectMarkdown } from './inject'
+import { renderMarkdown } from './markdown'
 import { parseDeclarationFile } from './parse'
+import { createReferenceIndex } from './references'
+import { createSearchIndex } from './search'
+import type { TypeElement } from './types'
+import { validateTypeElements } from './validate'
+
+const formats = ['ts', 'json', 'md', 'html'] as const
+type Format = (typeof formats)[number]
+
+const usage = `Usage: readmi [options] <file|glob...>
+
+Extracts the documented types of TypeScript sources and declaration files. Without input files,
+the files of the tsconfig given with --tsconfig are used.
+
+Options:
+  -o, --out <path>         Output file, or directory of the html site (default: data.ts, stdout for
+                           md, docs for html)
+  -f, --format <format>    Output format: ts, json, md, html (default: inferred from --out, else ts)
+  -p, --tsconfig <path>    tsconfig.json whose compiler options (and files) are used to load the input
+  -i, --inject <path>      Replace the readmi marker regions of a Markdown file with the rendered docs
+      --exclude-internal   Drop declarations that are not exported, unless exported ones reference them
+      --expand-references  Expand references to local type aliases and interfaces into their structure
+      --include-inherited  Include the members classes and interfaces inherit from their base types
+      --source-url <url>   Link md and html output to the source, e.g. {repo}/blob/{ref}/{path}#L{line}
+      --ref <ref>          Branch, tag or commit filled into {ref} of --source-url (default: main)
+      --with-indexes       Write { elements, referencedBy, searchIndex } in the json format, like the
+                           exports of the ts format
+      --stdout             Write the output to stdout instead of a file
+      --check              Print a diff and fail when the file on disk is stale, instead of writing it
+  -q, --quiet              Only log errors
+  -h, --help               Show this message
+
+Exit codes:
+  0  success
+  1  the input could not be parsed, validated or written, or --check found stale output
+  2  invalid usage`
+
+/**
+ * Error for invalid command line usage, reported together with the usage message.
+ */
+class UsageError extends Error {}
+
+/**
+ * Expands the positional arguments into file paths, resolving glob patterns. Brace patterns
+ * (`src/{a,b}.ts`) are expanded here, as the globs of `ts.sys.readDirectory` do not support them.
+ * @param patterns - The file paths and glob patterns given on the command line.
+ * @returns The matched file paths.
+ */
+function resolveInputPaths(patterns: readonly string[]) {
+  return patterns.flatMap(pattern => {
+    if (!/[*?[\]{}]/.test(pattern)) {
+      if (!ts.sys.fileExists(pattern)) {
+        throw new Error(`File not found: ${pattern}`)
+      }
+      return [pattern]
+    }
+    const matches = expandBraces(pattern).flatMap(expanded =>
+      /[*?[\]]/.test(expanded)
+        ? ts.sys.readDirectory(process.cwd(), undefined, undefined, [expanded])
+        : ts.sys.fileExists(expanded)
+        ? [path.resolve(expanded)]
+        : [],
+    )
+    if (matches.length === 0) {
+      throw new Error(`No files match: ${pattern}`)
+    }
+    return [...new Set(matches.map(match => path.relative(process.cwd(), match)))]
+  })
+}
+
+/**
+ * Expands the brace alternatives of a glob pattern, e.g. `{a,b}.ts` into `a.ts` and `b.ts`.
+ * Braces may be nested, braces without a comma are kept as they are.
+ * @param pattern - The glob pattern.
+ * @returns The patterns without braces.
+ */
+function expandBraces(pattern: string): string[] {
+  const start = pattern.indexOf('{')
+  if (start === -1) return [pattern]
+
+  // split the alternatives of the first brace at the commas that are not nested in other braces
+  const alternatives: string[] = []
+  let depth = 0
+  let from = start + 1
+  for (let index = from; index < pattern.length; index++) {
+    const char = pattern[index]
+    if (char === '{') depth++
+    else if (char === ',' && depth === 0) {
+      alternatives.push(pattern.slice(from, index))
+      from = index + 1
+    } else if (char === '}' && depth-- === 0) {
+      alternatives.push(pattern.slice(from, index))
+      const prefix = pattern.slice(0, start)
+      const suffix = pattern.slice(index + 1)
+      if (alternatives.length === 1) {
+        return expandBraces(suffix).map(rest => `${prefix}{${alternatives[0]}}${rest}`)
+      }
+      return alternatives.flatMap(alternative => expandBraces(prefix + alternative + suffix))
+    }
+  }
+  throw new UsageError(`unclosed brace in pattern '${pattern}'`)
+}
+
+/**
+ * Infers the output format from the extension of the output path.
+ * @param outputPath - The output path.
+ * @returns The inferred format, or `undefined` when the extension is not a known format.
+ */
+function inferFormat(outputPath?: string): Format | undefined {
+  const extension = outputPath && path.extname(outputPath).slice(1)
+  return formats.find(format => format === extension)
+}
+
+/**
+ * Fills the `{repo}` and `{ref}` placeholders of the source URL template. The repository is read
+ * from the `repository` field of the closest package.json.
+ * @param template - The URL template given with --source-url.
+ * @param ref - The branch, tag or commit given with --ref.
+ * @returns The template with the location placeholders left to fill.
+ * @throws When the template uses `{repo}` but the package.json has no repository.
+ */
+async function resolveSourceUrl(template: string, ref: string) {
+  let url = template.replaceAll('{ref}', ref)
+  if (url.includes('{repo}')) {
+    const repository = await readRepositoryUrl()
+    if (!repository) {
+      throw new UsageError('--source-url uses {repo}, but package.json has no repository field')
+    }
+    url = url.replaceAll('{repo}', repository)
+  }
+  return url
+}
 
 /**
- * Initializes the extraction process and writes the output to a JSON file.
+ * Reads the package.json in the working directory, or else in the closest of its parents.
+ * @returns The parsed package.json, or `undefined` when there is none.
  */
-function main() {
-  const [inputPath, outputPath] = process.argv.slice(2) // Remove the first two elements
-  const data = parseDeclarationFile(inputPath)
-  const code = `import type {Type} from "@bigmistqke/readmi";\nexport default ${JSON.stringify(
-    data,
-    null,
-    2,
-  )} as const satisfies Type[]`
-  writeFile(outputPath || 'data.ts', code, error => {
-    if (error) {
-      console.error(`error while writing file:`, error)
-    } else {
-      console.log('success: data written to data.json')
+async function readClosestPackageJson() {
+  for (let dir = process.cwd(); ; dir = path.dirname(dir)) {
+    const packageJson = await readFile(path.join(dir, 'package.json'), 'utf-8').then(
+      JSON.parse,
+      () => undefined,
+    )
+    if (packageJson || path.dirname(dir) === dir) return packageJson
+  }
+}
+
+/**
+ * Reads the `repository` field of the closest package.json, in the working directory or one of its
+ * parents, as a web URL, resolving the `github:`, `gitlab:` and `bitbucket:` shorthands and git
+ * remote URLs.
+ * @returns The URL of the repository, or `undefined` when it has none.
+ */
+async function readRepositoryUrl() {
+  const packageJson = await readClosestPackageJson()
+  const repository: unknown = packageJson?.repository?.url ?? packageJson?.repository
+  if (typeof repository !== 'string') return undefined
+
+  const hosts: Record<string, string> = {
+    github: 'github.com',
+    gitlab: 'gitlab.com',
+    bitbucket: 'bitbucket.org',
+  }
+  const shorthand = repository.match(/^(?:(github|gitlab|bitbucket):)?([\w.-]+\/[\w.-]+)$/)
+  if (shorthand) {
+    return `https://${hosts[shorthand[1] || 'github']}/${shorthand[2]}`
+  }
+  return repository
+    .replace(/^git\+/, '')
+    .replace(/^git@([^:]+):/, 'https://$1/')
+    .replace(/^(?:git|ssh):\/\/(?:[^@/]+@)?/, 'https://')
+    .replace(/\.git$/, '')
+    .replace(/\/$/, '')
+}
+
+/**
+ * Serializes the extracted data in the given format.
+ * @param data - The extracted data.
+ * @param format - The output format.
+ * @param outputPath - The output file, or the output directory of the html format.
+ * @param sourceUrl - Template of the URL source locations link to.
+ * @param withIndexes - Whether the json format includes the reference and search indexes.
+ * @returns The serialized output by the path of the file it is written to.
+ */
+async function render(
+  data: TypeElement[],
+  format: Format,
+  outputPath: string,
+  sourceUrl?: string,
+  withIndexes = false,
+): Promise<Map<string, string>> {
+  const json = JSON.stringify(data, null, 2)
+  switch (format) {
+    case 'json':
+      if (!withIndexes) return new Map([[outputPath, json]])
+      return new Map([
+        [
+          outputPath,
+          JSON.stringify(
+            {
+              elements: data,
+              referencedBy: createReferenceIndex(data),
+              searchIndex: createSearchIndex(data),
+            },
+            null,
+            2,
+          ),
+        ],
+      ])
+    case 'md':
+      return new Map([[outputPath, renderMarkdown(data, { sourceUrl })]])
+    case 'html': {
+      const pages = await renderHtml(data, { sourceUrl })
+      return new Map([...pages].map(([page, html]) => [path.join(outputPath, page), html]))
     }
+    case 'ts':
+      return new Map([
+        [
+          outputPath,
+          `import type {ReferenceIndex, SearchIndex, TypeElement} from "@bigmistqke/readmi";\nexport default ${json} as const satisfies readonly TypeElement[]\nexport const referencedBy = ${JSON.stringify(
+            createReferenceIndex(data),
+            null,
+            2,
+          )} as const satisfies ReferenceIndex\nexport const searchIndex = ${JSON.stringify(
+            createSearchIndex(data),
+            null,
+            2,
+          )} as const satisfies SearchIndex`,
+        ],
+      ])
+  }
+}
+
+/**
+ * Lists the files in the output directory of the html format that are not part of the site.
+ * @param outputPath - The output directory.
+ * @param files - The files of the site by their path.
+ * @returns The paths of the other files, or an empty list when the directory does not exist.
+ */
+async function findUnexpectedFiles(outputPath: string, files: Map<string, string>) {
+  const entries = await readdir(outputPath, { recursive: true }).catch(() => [])
+  const unexpectedFiles: string[] = []
+  for (const entry of entries.sort()) {
+    const filePath = path.join(outputPath, entry)
+    if (files.has(filePath) || !(await stat(filePath)).isFile()) continue
+    unexpectedFiles.push(filePath)
+  }
+  return unexpectedFiles
+}
+
+/**
+ * Parses the command line, extracts the data of the input files and writes the output.
+ */
+async function main() {
+  const { values, positionals } = parseArgs({
+    args: process.argv.slice(2),
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      format: { type: 'string', short: 'f' },
+      tsconfig: { type: 'string', short: 'p' },
+      inject: { type: 'string', short: 'i' },
+      'exclude-internal': { type: 'boolean' },
+      'expand-references': { type: 'boolean' },
+      'include-inherited': { type: 'boolean' },
+      'source-url': { type: 'string' },
+      ref: { type: 'string' },
+      'with-indexes': { type: 'boolean' },
+      stdout: { type: 'boolean' },
+      check: { type: 'boolean' },
+      quiet: { type: 'boolean', short: 'q' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return
+  }
+  if (positionals.length === 0 && !values.tsconfig) {
+    throw new UsageError('missing input file')
+  }
+  if (values.format && !formats.includes(values.format as Format)) {
+    throw new UsageError(`unknown format '${values.format}'`)
+  }
+  if (values.check && values.stdout) {
+    throw new UsageError('--check can not be combined with --stdout')
+  }
+  if (values.inject && values.format && values.format !== 'md') {
+    throw new UsageError(`--inject only supports the md format`)
+  }
+  if (values.stdout && values.format === 'html') {
+    throw new UsageError('--stdout does not support the html format')
+  }
+
+  const format = (values.format as Format | undefined) || inferFormat(values.out) || 'ts'
+  // Markdown is written to stdout unless a file is given, so it can be redirected (`> API.md`)
+  const stdout = values.stdout || (format === 'md' && !values.out && !values.inject)
+  if (values['with-indexes'] && format !== 'json') {
+    throw new UsageError('--with-indexes only applies to the json format')
+  }
+  if (values.check && stdout) {
+    throw new UsageError('--check needs --out or --inject for the md format')
+  }
+  const sourceUrl =
+    values['source-url'] && (await resolveSourceUrl(values['source-url'], values.ref || 'main'))
+  const outputPath = values.out || values.inject || (format === 'html' ? 'docs' : `data.${format}`)
+
+  const data = parseDeclarationFile(resolveInputPaths(positionals), {
+    excludeInternal: values['exclude-internal'],
+    expandReferences: values['expand-references'],
+    includeInherited: values['include-inherited'],
+    tsconfig: values.tsconfig,
+    onWarning: values.quiet ? undefined : message => console.warn(`warning: ${message}`),
   })
+
+  try {
+    validateTypeElements(data)
+  } catch (error) {
+    throw new Error(`extracted data does not match the data model: ${error}`)
+  }
+
+  const files = values.inject
+    ? new Map([
+        [outputPath, injectMarkdown(await readFile(values.inject, 'utf-8'), data, { sourceUrl })],
+      ])
+    : await render(data, format, outputPath, sourceUrl, values['with-indexes'])
+
+  if (stdout) {
+    const [output] = files.values()
+    process.stdout.write(output.endsWith('\n') ? output : output + '\n')
+    return
+  }
+
+  if (values.check) {
+    let isStale = false
+    for (const [filePath, output] of files) {
+      const current = await readFile(filePath, 'utf-8').catch(() => '')
+      if (current === output) continue
+      isStale = true
+      process.stdout.write(
+        createUnifiedDiff(current, output, {
+          fromFile: filePath,
+          toFile: `${filePath} (generated)`,
+        }),
+      )
+    }
+    // files of the site that readmi does not generate, like pages of removed modules
+    const unexpectedFiles =
+      format === 'html' && !values.inject ? await findUnexpectedFiles(outputPath, files) : []
+    for (const filePath of unexpectedFiles) {
+      process.stdout.write(`Only in ${outputPath}: ${path.relative(outputPath, filePath)}\n`)
+    }
+    if (!isStale && unexpectedFiles.length === 0) {
+      if (!values.quiet) {
+        console.log(`success: ${outputPath} is up to date`)
+      }
+      return
+    }
+    console.error(
+      isStale
+        ? `error: ${outputPath} is out of date, run readmi without --check to update it`
+        : `error: ${outputPath} contains files readmi does not generate, remove them`,
+    )
+    process.exitCode = 1
+    return
+  }
+
+  for (const [filePath, output] of files) {
+    await mkdir(path.dirname(filePath), { recursive: true })
+    await writeFile(filePath, output)
+  }
+
+  if (!values.quiet) {
+    console.log(`success: ${data.length} elements written to ${outputPath}`)
+  }
 }
 
-main()
+main().catch(error => {
+  if (
+    error instanceof UsageError ||
+    (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')
+  ) {
+    console.error(`error: ${error.message}\n\n${usage}`)
+    process.exit(2)
+  }
+  console.error(`error: ${error instanceof Error ? error.message : error}`)
+  process.exit(1)
+})
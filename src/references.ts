@@ -0,0 +1,133 @@
+import type {
+  FunctionSignature,
+  ReferenceIndex,
+  ReferenceLocation,
+  TypeAnnotation,
+  TypeElement,
+} from './types'
+
+/**
+ * Creates the reverse index of the references between extracted elements: for the ID of every
+ * referenced declaration, the elements and members whose signature references it. References of
+ * an element to itself, like in recursive types, are not included.
+ * @param elements - The elements returned by `parseDeclarationFile`.
+ * @returns The index, with the places each declaration is referenced in the order of the elements.
+ */
+export function createReferenceIndex(elements: readonly TypeElement[]): ReferenceIndex {
+  const index: Record<string, ReferenceLocation[]> = {}
+
+  const addReferences = (
+    element: TypeElement,
+    location: ReferenceLocation,
+    annotations: readonly (TypeAnnotation | undefined)[],
+  ) => {
+    new Set(annotations.flatMap(collectTargetIds)).forEach(targetId => {
+      if (targetId === element.id) return
+      ;(index[targetId] ||= []).push(location)
+    })
+  }
+
+  const visit = (element: TypeElement, qualifiedName: string) => {
+    const location = { id: element.id || qualifiedName, name: qualifiedName }
+    switch (element.kind) {
+      case 'Function':
+        return addReferences(element, location, element.signatures.flatMap(getSignatureAnnotations))
+      case 'Class':
+      case 'Interface':
+        addReferences(element, location, [
+          ...(element.kind === 'Class' ? [element.extends, ...(element.implements || [])] : []),
+          ...(element.kind === 'Interface' ? element.extends || [] : []),
+        ])
+        return element.members.forEach(member => {
+          if (member.inheritedFrom) return
+          const name = member.kind === 'Constructor' ? 'constructor' : member.name
+          addReferences(
+            element,
+            {
+              id: member.id || location.id,
+              name: name ? `${qualifiedName}.${name}` : qualifiedName,
+            },
+            [
+              member.typeAnnotation,
+              ...('signatures' in member ? member.signatures.flatMap(getSignatureAnnotations) : []),
+              ...('parameters' in member
+                ? member.parameters.map(parameter => parameter.typeAnnotation)
+                : []),
+              ...('getter' in member && member.getter
+                ? getSignatureAnnotations(member.getter)
+                : []),
+              ...('setter' in member && member.setter
+                ? getSignatureAnnotations(member.setter)
+                : []),
+            ],
+          )
+        })
+      case 'TypeAlias':
+      case 'Variable':
+        return addReferences(element, location, [element.typeAnnotation])
+      case 'Namespace':
+        return element.members.forEach(member => visit(member, `${qualifiedName}.${member.name}`))
+    }
+  }
+
+  elements.forEach(element => visit(element, element.exportName || element.name))
+
+  return index
+}
+
+function getSignatureAnnotations(signature: FunctionSignature) {
+  return [signature.returnType, ...signature.parameters.map(parameter => parameter.typeAnnotation)]
+}
+
+/**
+ * Collects the IDs of the declarations an annotation references, including references nested in
+ * its type arguments and members. The expanded structure of a reference is not descended into, as
+ * it belongs to the referenced declaration.
+ */
+function collectTargetIds(annotation: TypeAnnotation | undefined): string[] {
+  if (!annotation) return []
+  switch (annotation.kind) {
+    case 'TypeReference':
+      return [
+        ...(annotation.targetId ? [annotation.targetId] : []),
+        ...(annotation.parameters || []).flatMap(collectTargetIds),
+      ]
+    case 'TypeLiteral':
+      return [
+        ...annotation.members.flatMap(member => collectTargetIds(member.typeAnnotation)),
+        ...(annotation.signatures || []).flatMap(getSignatureAnnotations).flatMap(collectTargetIds),
+      ]
+    case 'FunctionType':
+      return annotation.signatures.flatMap(getSignatureAnnotations).flatMap(collectTargetIds)
+    case 'Intersection':
+    case 'Union':
+    case 'Tuple':
+      return annotation.types.flatMap(collectTargetIds)
+    case 'Array':
+      return collectTargetIds(annotation.elementType)
+    case 'IndexedAccess':
+      return [...collectTargetIds(annotation.objectType), ...collectTargetIds(annotation.indexType)]
+    case 'Mapped':
+      return [annotation.constraint, annotation.nameType, annotation.type].flatMap(collectTargetIds)
+    case 'Conditional':
+      return [
+        annotation.checkType,
+        annotation.extendsType,
+        annotation.trueType,
+        annotation.falseType,
+      ].flatMap(collectTargetIds)
+    case 'Infer':
+      return collectTargetIds(annotation.constraint)
+    case 'TemplateLiteral':
+      return annotation.spans.flatMap(span => collectTargetIds(span.type))
+    case 'TypeOperator':
+    case 'Optional':
+    case 'Rest':
+    case 'NamedTupleMember':
+    case 'Parenthesized':
+      return collectTargetIds(annotation.type)
+    case 'PrimitiveType':
+    case 'TypeQuery':
+      return []
+  }
+}
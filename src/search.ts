@@ -0,0 +1,175 @@
+import type { JSDocInfo, SearchEntry, SearchIndex, TypeAnnotation, TypeElement } from './types'
+
+/**
+ * Options to configure the results of `search`.
+ */
+export interface SearchOptions {
+  /** Only return entries of elements of these kinds, and the members of such elements. */
+  kinds?: readonly TypeElement['kind'][]
+  /**
+   * Maximum number of results.
+   * @default 50
+   */
+  limit?: number
+}
+
+/**
+ * A result of `search`, with the score its position is based on.
+ */
+export interface SearchResult {
+  entry: SearchEntry
+  score: number
+}
+
+/**
+ * Creates the search index of extracted elements: an entry for every element and every member
+ * declared by it, including the members of nested type literals, with its description and the
+ * names of its JSDoc tags. Inherited members are
+ * left out, they are found through the element that declares them.
+ * @param elements - The elements returned by `parseDeclarationFile`.
+ * @returns The index.
+ */
+export function createSearchIndex(elements: readonly TypeElement[]): SearchIndex {
+  const entries: SearchEntry[] = []
+
+  // members of type literals are found below the member or element they annotate, at any depth
+  const visitTypeLiteral = (
+    typeAnnotation: TypeAnnotation | undefined,
+    kind: TypeElement['kind'],
+    parent: string,
+  ) => {
+    if (typeAnnotation?.kind !== 'TypeLiteral') return
+    typeAnnotation.members.forEach(member => {
+      if (!member.id) return
+      entries.push({
+        id: member.id,
+        name: member.name,
+        kind,
+        memberKind: 'Property',
+        parent,
+        ...getSearchText(member.jsdoc),
+      })
+      visitTypeLiteral(member.typeAnnotation, kind, `${parent}.${member.name}`)
+    })
+  }
+
+  const visit = (element: TypeElement, qualifiedName: string) => {
+    if (!element.id) return
+    entries.push({
+      id: element.id,
+      name: qualifiedName,
+      kind: element.kind,
+      ...getSearchText(element.jsdoc),
+    })
+    switch (element.kind) {
+      case 'Namespace':
+        return element.members.forEach(member => visit(member, `${qualifiedName}.${member.name}`))
+      case 'Class':
+      case 'Interface':
+      case 'Enum':
+        return element.members.forEach(member => {
+          if (!member.id || ('inheritedFrom' in member && member.inheritedFrom)) return
+          const memberKind = 'kind' in member ? member.kind : 'Member'
+          // signatures without a name are found by their kind, e.g. `constructor`
+          const name = member.name || memberKind.charAt(0).toLowerCase() + memberKind.slice(1)
+          entries.push({
+            id: member.id,
+            name,
+            kind: element.kind,
+            memberKind,
+            parent: qualifiedName,
+            ...getSearchText(member.jsdoc),
+          })
+          if ('typeAnnotation' in member) {
+            visitTypeLiteral(member.typeAnnotation, element.kind, `${qualifiedName}.${name}`)
+          }
+        })
+      case 'TypeAlias':
+      case 'Variable':
+        return visitTypeLiteral(element.typeAnnotation, element.kind, qualifiedName)
+    }
+  }
+
+  elements.forEach(element => visit(element, element.exportName || element.name))
+
+  return entries
+}
+
+function getSearchText(jsdoc?: JSDocInfo) {
+  const tags = [...new Set((jsdoc?.tags || []).map(tag => tag.tagName))]
+  return {
+    description: jsdoc?.description?.join(' ') || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+  }
+}
+
+/**
+ * Searches the entries of a search index. Words of the query match names fuzzily, by their
+ * characters in order, or descriptions by their text, and words starting with `@` only match entries
+ * with that JSDoc tag, e.g. `@deprecated`. Entries match when all words of the query match.
+ * @param index - The index created by `createSearchIndex`.
+ * @param query - The query.
+ * @param options - Options to filter and limit the results.
+ * @returns The matching entries, best matches first.
+ */
+export function search(index: SearchIndex, query: string, options: SearchOptions = {}) {
+  const { kinds, limit = 50 } = options
+  const words = query.trim().split(/\s+/).filter(Boolean)
+  const tags = words.filter(word => word.startsWith('@')).map(word => word.slice(1).toLowerCase())
+  const terms = words.filter(word => !word.startsWith('@'))
+  if (words.length === 0) return []
+
+  const results: SearchResult[] = []
+  for (const entry of index) {
+    if (kinds && !kinds.includes(entry.kind)) continue
+    if (!tags.every(tag => entry.tags?.includes(tag))) continue
+
+    let score = 0
+    for (const term of terms) {
+      const termScore =
+        getFuzzyScore(term, entry.name) ??
+        // descriptions only match by their text, fuzzy matches in prose are noise
+        (entry.description?.toLowerCase().includes(term.toLowerCase()) ? 1 : undefined)
+      if (termScore === undefined) {
+        score = -1
+        break
+      }
+      score += termScore
+    }
+    if (score < 0) continue
+    // elements before their members
+    results.push({ entry, score: score + (entry.parent ? 0 : 0.5) })
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.entry.name.length - b.entry.name.length)
+    .slice(0, limit)
+}
+
+/**
+ * Scores how well a term matches a name when its characters appear in the name in order.
+ * Consecutive characters, characters at the start of a word and prefix matches score higher.
+ * @returns The score, or `undefined` when the name does not contain the characters of the term.
+ */
+function getFuzzyScore(term: string, name: string) {
+  const lowerTerm = term.toLowerCase()
+  const lowerName = name.toLowerCase()
+  if (lowerName === lowerTerm) return 20
+  if (lowerName.startsWith(lowerTerm)) return 10 + lowerTerm.length
+
+  let score = 0
+  let position = 0
+  let previous = -2
+  for (const char of lowerTerm) {
+    const index = lowerName.indexOf(char, position)
+    if (index === -1) return undefined
+    score += index === previous + 1 ? 3 : 1
+    // the start of a name, of a segment of a path, or of a word in camel case
+    if (index === 0 || /[^a-z0-9]/i.test(name[index - 1]) || name[index] !== lowerName[index]) {
+      score += 2
+    }
+    previous = index
+    position = index + 1
+  }
+  return score / 2
+}
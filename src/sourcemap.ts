@@ -0,0 +1,171 @@
+import path from 'path'
+
+/**
+ * A position in a file, with a 0-based line and column like in source maps.
+ */
+export interface SourceMapPosition {
+  line: number
+  column: number
+}
+
+/**
+ * A decoded source map, with the segments of every generated line sorted by column.
+ */
+export interface SourceMap {
+  /** Paths of the original files, resolved against the location of the source map. */
+  sources: readonly string[]
+  lines: readonly (readonly Segment[])[]
+}
+
+type Segment = { column: number; source: number; line: number; originalColumn: number }
+
+const base64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+/**
+ * Decodes a source map in the version 3 format.
+ * @param text - The JSON text of the source map.
+ * @param mapPath - The path of the source map, which relative sources are resolved against.
+ * @returns The decoded source map, or `undefined` when the text is not a valid source map.
+ */
+export function decodeSourceMap(text: string, mapPath: string): SourceMap | undefined {
+  let json: { version?: number; sources?: string[]; sourceRoot?: string; mappings?: string }
+  try {
+    json = JSON.parse(text)
+  } catch {
+    return undefined
+  }
+  if (json.version !== 3 || !Array.isArray(json.sources) || typeof json.mappings !== 'string') {
+    return undefined
+  }
+
+  const directory = path.resolve(path.dirname(mapPath), json.sourceRoot || '')
+  const sources = json.sources.map(source => path.resolve(directory, source))
+
+  // the fields of a segment are relative to the previous segment, the column only within a line
+  let source = 0
+  let line = 0
+  let originalColumn = 0
+  const lines = json.mappings.split(';').map(mappings => {
+    let column = 0
+    const segments: Segment[] = []
+    for (const mapping of mappings.split(',')) {
+      if (!mapping) continue
+      const fields = decodeVlq(mapping)
+      column += fields[0]
+      // segments with a single field are not mapped to a source
+      if (fields.length < 4) continue
+      source += fields[1]
+      line += fields[2]
+      originalColumn += fields[3]
+      segments.push({ column, source, line, originalColumn })
+    }
+    return segments.sort((a, b) => a.column - b.column)
+  })
+
+  return { sources, lines }
+}
+
+/**
+ * Maps a position in a generated file to the position in the original file it was generated from,
+ * using the closest segment at or before the position on the same line. Lines without segments,
+ * like the lines of a copied comment, are mapped relative to the next line that has segments, or
+ * else the previous one, and never before the start of the original file.
+ * @param map - The source map of the generated file.
+ * @param position - The position in the generated file.
+ * @returns The path of the original file and the position in it, or `undefined` when no line of the
+ * generated file is mapped.
+ */
+export function getOriginalPosition(
+  map: SourceMap,
+  position: SourceMapPosition,
+): { source: string; line: number; column: number } | undefined {
+  const segments = map.lines[position.line]
+  if (!segments) return undefined
+  if (segments.length === 0) {
+    // comments are copied right before the declaration they document, so the next mapped line is
+    // used, unless that places the line before the start of the original file
+    const positions = [
+      findMappedLine(map, position.line, 1),
+      findMappedLine(map, position.line, -1),
+    ]
+      .filter((line): line is number => line !== undefined)
+      .map(mappedLine => {
+        const mapped = getOriginalPosition(map, { line: mappedLine, column: 0 })!
+        return {
+          ...mapped,
+          line: mapped.line + position.line - mappedLine,
+          column: position.column,
+        }
+      })
+    const original = positions.find(original => original.line >= 0) || positions[0]
+    return original && { ...original, line: Math.max(0, original.line) }
+  }
+  let segment = segments[0]
+  for (const candidate of segments) {
+    if (candidate.column > position.column) break
+    segment = candidate
+  }
+  return {
+    source: map.sources[segment.source],
+    line: segment.line,
+    // positions before the first segment of a line are mapped relative to it
+    column: Math.max(0, segment.originalColumn + position.column - segment.column),
+  }
+}
+
+/**
+ * Returns the first position of a range in a generated file whose line is mapped: the start of the
+ * range when its line has segments, or else the start of the first line of the range that has.
+ * Generated declarations, like the type aliases emitted for `@typedef` tags, can start on a line
+ * without segments while the lines of their members are mapped.
+ * @param map - The source map of the generated file.
+ * @param start - The start of the range.
+ * @param end - The end of the range.
+ * @returns The position, or the start of the range when none of its lines is mapped.
+ */
+export function getFirstMappedPosition(
+  map: SourceMap,
+  start: SourceMapPosition,
+  end: SourceMapPosition,
+): SourceMapPosition {
+  if (map.lines[start.line]?.length !== 0) return start
+  const line = findMappedLine(map, start.line, 1)
+  return line !== undefined && line <= end.line ? { line, column: 0 } : start
+}
+
+/**
+ * Finds the closest line with segments before or after a line.
+ * @param map - The source map.
+ * @param line - The line to start from.
+ * @param step - `-1` to search the lines before it, `1` for the lines after it.
+ * @returns The found line, or `undefined` when there is none.
+ */
+function findMappedLine(map: SourceMap, line: number, step: -1 | 1) {
+  for (let other = line + step; other >= 0 && other < map.lines.length; other += step) {
+    if (map.lines[other].length > 0) return other
+  }
+  return undefined
+}
+
+/**
+ * Decodes the base64 VLQ encoded fields of a segment.
+ */
+function decodeVlq(mapping: string) {
+  const fields: number[] = []
+  let value = 0
+  let shift = 0
+  for (const char of mapping) {
+    const digit = base64.indexOf(char)
+    // the sixth bit marks that the value continues in the next digit
+    value += (digit & 31) << shift
+    if (digit & 32) {
+      shift += 5
+      continue
+    }
+    // the lowest bit is the sign
+    fields.push(value & 1 ? -(value >>> 1) : value >>> 1)
+    value = 0
+    shift = 0
+  }
+  return fields
+}
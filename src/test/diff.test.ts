@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test'
+import { createUnifiedDiff } from '../diff'
+
+describe('createUnifiedDiff', () => {
+  test('returns an empty string for equal texts', () => {
+    expect(createUnifiedDiff('a\nb\n', 'a\nb\n')).toBe('')
+  })
+
+  test('shows changed lines with their context', () => {
+    expect(createUnifiedDiff('a\nb\nc\n', 'a\nB\nc\n')).toBe(
+      ['--- a', '+++ b', '@@ -1,3 +1,3 @@', ' a', '-b', '+B', ' c', ''].join('\n'),
+    )
+  })
+
+  test('shows a hunk when only the newline at the end of the file differs', () => {
+    expect(createUnifiedDiff('a\nb', 'a\nb\n')).toBe(
+      [
+        '--- a',
+        '+++ b',
+        '@@ -1,2 +1,2 @@',
+        ' a',
+        '-b',
+        '\\ No newline at end of file',
+        '+b',
+        '',
+      ].join('\n'),
+    )
+    expect(createUnifiedDiff('a\n', 'a')).toBe(
+      ['--- a', '+++ b', '@@ -1 +1 @@', '-a', '+a', '\\ No newline at end of file', ''].join('\n'),
+    )
+  })
+})
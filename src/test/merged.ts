@@ -0,0 +1,24 @@
+/** Tests a class merged with a namespace of the same name. */
+export class TestMergedClass {
+  /** Tests a static method of the class. */
+  static create(): TestMergedClass {
+    return new TestMergedClass()
+  }
+}
+
+/** Tests a namespace merged with the class of the same name. */
+export namespace TestMergedClass {
+  /** Tests an option of the merged namespace. */
+  export const version = 1
+}
+
+/** Tests a function merged with a namespace of the same name, exported as the default export. */
+function testMergedFunction(): void {}
+
+/** Tests a namespace merged with the function of the same name. */
+namespace testMergedFunction {
+  /** Tests a property of the merged namespace. */
+  export const enabled = true
+}
+
+export default testMergedFunction
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test'
+import path from 'path'
+import { parseDeclarationFile } from '../parse'
+import type { TypeElement } from '../types'
+
+const fixture = (name: string) => path.join(import.meta.dir, name)
+
+function findElement(elements: readonly TypeElement[], name: string) {
+  const element = elements.find(element => element.name === name)
+  if (!element) throw new Error(`no element named ${name}`)
+  return element
+}
+
+describe('parseDeclarationFile', () => {
+  describe('JavaScript @typedef and @callback tags', () => {
+    const elements = parseDeclarationFile(fixture('typedef.js'))
+
+    test('keep the defaults of @property tags', () => {
+      const element = findElement(elements, 'TestTypedefOptions')
+      expect(element.jsdoc?.tags).toContainEqual(
+        expect.objectContaining({ tagName: 'property', name: 'retries', defaultValue: '3' }),
+      )
+    })
+
+    test('keep the descriptions of @param and @returns tags', () => {
+      const element = findElement(elements, 'TestTypedefCallback')
+      if (element.kind !== 'TypeAlias' || element.typeAnnotation?.kind !== 'FunctionType') {
+        throw new Error('expected a function type alias')
+      }
+      const [signature] = element.typeAnnotation.signatures
+      expect(signature.parameters.map(parameter => parameter.jsdoc?.description)).toEqual([
+        ['The error, if any.'],
+        ['The result.'],
+      ])
+      expect(signature.returns?.description).toEqual(['Whether to continue.'])
+    })
+
+    test('locate the type aliases emitted for the tags in the JavaScript file', () => {
+      const element = findElement(elements, 'TestTypedefOptions')
+      expect(element.source?.path).toEndWith('typedef.js')
+      expect(element.source?.start.line).toBeGreaterThanOrEqual(1)
+    })
+  })
+  describe('merged declarations', () => {
+    const elements = parseDeclarationFile(fixture('merged.ts'))
+
+    test('get different IDs for a class and a namespace', () => {
+      const ids = elements
+        .filter(element => element.name === 'TestMergedClass')
+        .map(element => element.id?.slice(element.id.indexOf(':')))
+      expect(ids).toEqual([':Class:TestMergedClass', ':Namespace:TestMergedClass'])
+    })
+
+    test('get different IDs for a default exported function and a namespace', () => {
+      const ids = elements
+        .filter(element => element.exportName === 'default')
+        .map(element => element.id)
+      expect(new Set(ids).size).toBe(2)
+    })
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, test } from 'bun:test'
+import { decodeSourceMap, getFirstMappedPosition, getOriginalPosition } from '../sourcemap'
+
+// generated lines 0 and 1 have no segments, line 2 maps to line 0 and line 3 to line 4 of a.ts
+const map = decodeSourceMap(
+  JSON.stringify({ version: 3, sources: ['a.ts'], mappings: ';;AAAA;AAIA' }),
+  '/project/a.d.ts.map',
+)!
+
+describe('getOriginalPosition', () => {
+  test('maps a position through the segment of its line', () => {
+    expect(getOriginalPosition(map, { line: 3, column: 2 })).toEqual({
+      source: '/project/a.ts',
+      line: 4,
+      column: 2,
+    })
+  })
+
+  test('never maps lines without segments before the start of the original file', () => {
+    expect(getOriginalPosition(map, { line: 0, column: 0 })?.line).toBe(0)
+  })
+})
+
+describe('getFirstMappedPosition', () => {
+  test('returns the start of the first mapped line of a range', () => {
+    expect(getFirstMappedPosition(map, { line: 0, column: 4 }, { line: 3, column: 0 })).toEqual({
+      line: 2,
+      column: 0,
+    })
+    expect(getFirstMappedPosition(map, { line: 3, column: 4 }, { line: 3, column: 8 })).toEqual({
+      line: 3,
+      column: 4,
+    })
+  })
+})
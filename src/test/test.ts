@@ -11,12 +11,55 @@ export type TupleType = ['hello', 'world']
  */
 export type TupleTypeWithGeneric<T> = [T]
 
+/**
+ * Tests a tuple with named, optional and rest members.
+ * @tag test-case
+ */
+export type TestNamedTuple = [name: string, age?: number, ...tags: string[]]
+
+/**
+ * Tests a tuple with unnamed optional and rest members.
+ * @tag test-case
+ */
+export type TestOptionalTuple = [string, number?, ...boolean[]]
+
+/**
+ * Tests a mapped type over the keys of a type, with modifiers and key remapping.
+ * @tag test-case
+ */
+export type TestMappedType<T> = {
+  -readonly [K in keyof T as `get${Capitalize<K & string>}`]+?: () => T[K]
+}
+
+/**
+ * Tests a conditional type that infers the element of an array.
+ * @tag test-case
+ */
+export type TestConditionalType<T> = T extends readonly (infer U extends string)[] ? U : never
+
+/**
+ * Tests a template literal type.
+ * @tag test-case
+ */
+export type TestTemplateLiteralType = `readmi-${'start' | 'end'}`
+
+/**
+ * Tests a type query of a value.
+ * @tag test-case
+ */
+export type TestTypeQuery = typeof testSimpleNumericType
+
 /**
  * Tests the parsing of a simple numeric type to ensure basic type annotations are correctly interpreted.
  * @tag test-case
  */
 export const testSimpleNumericType: number = 42
 
+/**
+ * Tests a `const` declaration without a type annotation, whose literal type is resolved by the checker.
+ */
+export const testConstInitializer = 'readmi'
+
 /**
  * Tests object parsing with explicit JSDoc tags for properties. This test checks the extraction and
  * linking of property types and descriptions from JSDoc to TypeScript objects.
@@ -91,6 +134,26 @@ export const testCombinedObjectJSDoc: {
   isActive: true,
 }
 
+/**
+ * Tests `@property` tags with union types, optional and defaulted names, nested paths and comments
+ * without a hyphen.
+ * @tag test-case
+ * @property {string | number} id The identifier of the request.
+ * @prop {number} [retries=3] - How often the request is retried.
+ * @property {Object} options - The options of the request.
+ * @property {number} [options.timeout] - The timeout in milliseconds.
+ */
+export const testPropertyTags: {
+  id: string | number
+  retries?: number
+  options: {
+    timeout?: number
+  }
+} = {
+  id: 1,
+  options: {},
+}
+
 const testObjectDestructuring = {
   /** The property that is being destructured. */
   destructuringProperty: 'John',
@@ -102,6 +165,16 @@ const testObjectDestructuring = {
  */
 export let { destructuringProperty } = testObjectDestructuring
 
+/**
+ * Tests array destructuring, where every bound identifier is documented as its own declaration.
+ */
+export const [testDestructuredGetter, testDestructuredSetter] = [
+  () => testObjectDestructuring.destructuringProperty,
+  (value: string) => {
+    testObjectDestructuring.destructuringProperty = value
+  },
+] as const
+
 type Product = {
   /** Documents a product's name within a type alias */
   name: string
@@ -119,6 +192,19 @@ export const testProductTypeAlias: Product = {
   price: 99.99,
 }
 
+/**
+ * Tests constructing a type alias from a `@typedef` tag and its `@property` tags.
+ * @typedef {Object} SimpleObject
+ * @property {string} property - The property of the simple object.
+ */
+
+/**
+ * Tests constructing a function type alias from a `@callback` tag.
+ * @callback TestCallback
+ * @param {string} value - The value passed to the callback.
+ * @returns {boolean} Whether the value was accepted.
+ */
+
 /**
  * Tests defining and returning a custom object type using a function with a JSDoc `@returns` tag.
  * This case checks the correct application of typedefs in function return types.
@@ -189,6 +275,61 @@ export function testTraditionalFunctionSyntax(
   console.log(config, settings)
 }
 
+/**
+ * Tests function overloads: parses a string into a number.
+ * @tag test-case
+ */
+export function testOverloadedFunction(value: string): number
+/**
+ * Tests function overloads: formats a number into a string.
+ * @tag test-case
+ */
+export function testOverloadedFunction(value: number): string
+export function testOverloadedFunction(value: string | number) {
+  return typeof value === 'string' ? Number(value) : String(value)
+}
+
+/**
+ * Tests the typed JSDoc tags, linking to {@link testOverloadedFunction} and
+ * {@linkcode TestNamespace.version | the namespace version}.
+ * @tag test-case
+ * @param value - The value to parse, see {@link https://example.com | the spec}.
+ * @param [radix] - The base of the number.
+ * @returns The parsed number.
+ * @example
+ * Parses a hexadecimal value:
+ * ```ts
+ * testTypedJsDocTags('ff', 16)
+ * ```
+ * @throws {RangeError} When the value is not a number.
+ * @deprecated Use {@link testOverloadedFunction} instead.
+ * @since 0.2.0
+ * @see testTraditionalFunctionSyntax
+ */
+export function testTypedJsDocTags(value: string, radix?: number) {
+  const number = parseInt(value, radix)
+  if (Number.isNaN(number)) throw new RangeError(value)
+  return number
+}
+
+/**
+ * Tests a `@see` tag with a name only, followed by another tag.
+ * @see testTypedJsDocTags
+ * @since 0.3.0
+ */
+export function testSeeTagWithoutComment() {}
+
+/**
+ * Tests a type literal consisting of overloaded call signatures.
+ * @tag test-case
+ */
+export type TestOverloadedCallSignatures = {
+  /** Called with a string */
+  (value: string): string
+  /** Called with a number */
+  (value: number): number
+}
+
 /**
  * Tests the documentation of settings using a type alias, emphasizing the detailed property JSDoc within
  * a type structure to ensure types are not only parsed correctly but also thoroughly documented.
@@ -201,6 +342,84 @@ export type Settings = {
   layout: string
 }
 
+/**
+ * Base interface to test the heritage clauses of interface declarations.
+ * @tag test-case
+ */
+export interface TestBaseInterface {
+  /** Timestamp of creation */
+  createdAt: number
+}
+
+/**
+ * Tests interface declarations with generics, heritage clauses and every kind of member:
+ * properties, methods, call signatures, construct signatures and index signatures.
+ * @tag test-case
+ */
+export interface TestInterfaceWithMembers<T> extends TestBaseInterface {
+  /** Readonly identifier of the entry */
+  readonly id: string
+  /** Optional label of the entry */
+  label?: T
+  /**
+   * Method signature returning the label of the entry.
+   * @param fallback - Returned when no label is set.
+   */
+  getLabel(fallback: T): T
+  /** Call signature of the interface */
+  (value: T): void
+  /** Construct signature of the interface */
+  new (value: T): TestInterfaceWithMembers<T>
+  /** Index signature of the interface */
+  [key: string]: unknown
+}
+
+/**
+ * Tests merged interface declarations, which are documented as one interface.
+ */
+export interface TestMergedInterface {
+  /** Declared in the first declaration */
+  first: string
+  /** Formats the value. */
+  format(value: string): string
+}
+
+/**
+ * The docs of the second declaration are added to the docs of the first.
+ */
+export interface TestMergedInterface {
+  /** Declared in the second declaration */
+  second: number
+  /** Formats a number. */
+  format(value: number): string
+}
+
+/**
+ * Tests namespace declarations, verifying that the declarations it contains are extracted
+ * recursively together with their own JSDoc.
+ * @tag test-case
+ */
+export namespace TestNamespace {
+  /** Version of the namespace */
+  export const version: string = '1.0.0'
+
+  /** Options declared inside a namespace */
+  export type Options = {
+    /** Whether the namespace is enabled */
+    enabled: boolean
+  }
+
+  /**
+   * Tests a namespace nested inside another namespace.
+   */
+  export namespace Nested {
+    /** Function declared inside a nested namespace */
+    export function helper(options: Options): string {
+      return String(options.enabled)
+    }
+  }
+}
+
 /**
  * Tests class declaration capabilities with private and public properties, constructor parameters,
  * and method annotations. This test verifies that access modifiers and privacy settings are respected
@@ -228,6 +447,18 @@ export class TestClassWithPropertiesAndMethods {
     return `Hello, ${this.firstName} ${this.#lastName}!`
   }
 
+  /**
+   * Overloaded method formatting a string.
+   */
+  format(value: string): string
+  /**
+   * Overloaded method formatting a number.
+   */
+  format(value: number): string
+  format(value: string | number) {
+    return String(value)
+  }
+
   /**
    * A private method demonstrating privacy within classes.
    * This method logs a private message.
@@ -287,6 +518,99 @@ export class ConcreteUser extends AbstractUser {
   }
 }
 
+/**
+ * Tests a generic base class, whose members are inherited with its type arguments substituted.
+ * @tag test-case
+ */
+export class TestGenericBase<T> {
+  /** The value of the base. */
+  value: T
+  /** Only visible to the base. */
+  private secret = 0
+  #hidden = 0
+
+  constructor(value: T) {
+    this.value = value
+  }
+
+  /** Returns the value. */
+  get(): T {
+    return this.value
+  }
+
+  /**
+   * Transforms the value.
+   * @param transform - The transform.
+   */
+  map(transform: (value: T) => T): T {
+    return transform(this.value)
+  }
+}
+
+/**
+ * Tests inheriting from an instantiated generic base class.
+ * @tag test-case
+ */
+export class TestInstantiatedSubclass extends TestGenericBase<number> {
+  /** Transforms the value, overriding the base. */
+  override map(transform: (value: number) => number): number {
+    return super.map(transform)
+  }
+}
+
+/**
+ * Tests a generic class implementing an interface, with static, readonly, optional and overriding
+ * members, accessors and an index signature.
+ * @tag test-case
+ */
+export class TestGenericClass<T extends string> extends ConcreteUser implements TestBaseInterface {
+  [key: string]: unknown
+
+  /** The number of created instances. */
+  static count = 0
+
+  /** The identifier of the instance. */
+  readonly id: T
+
+  /** An optional label. */
+  label?: string
+
+  /** Timestamp of creation */
+  createdAt = Date.now()
+
+  #value = 0
+
+  static {
+    TestGenericClass.count = 0
+  }
+
+  constructor(id: T) {
+    super(id)
+    this.id = id
+    TestGenericClass.count++
+  }
+
+  /** The current value. */
+  get value() {
+    return this.#value
+  }
+  set value(value: number) {
+    this.#value = value
+  }
+
+  /** The identifier in upper case. */
+  get upperId() {
+    return this.id.toUpperCase()
+  }
+
+  /**
+   * Greets with the identifier.
+   */
+  override greet() {
+    return `Hello, ${this.id}!`
+  }
+}
+
 /**
  * Tests the implementation and documentation of an enumeration with explicit values,
  * ensuring enums are not only declared but also their values are correctly set and utilized in
@@ -303,3 +627,6 @@ enum TestLogLevel {
 export function testFunctionUsingEnum(level: TestLogLevel, message: string) {
   console.log(`[${level}]: ${message}`)
 }
+
+/** Tests a function exported under a second name, which is documented under both. */
+export { testFunctionUsingEnum as testFunctionAlias }
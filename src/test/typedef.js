@@ -0,0 +1,25 @@
+/**
+ * Tests a `@typedef` in a JavaScript file, whose emitted type alias loses the defaults of its
+ * `@property` tags.
+ * @typedef {Object} TestTypedefOptions
+ * @property {number} [retries=3] - How often to retry.
+ * @property {string} name - The name of the client.
+ */
+
+/**
+ * Tests a `@callback` in a JavaScript file, whose emitted type alias loses the descriptions of its
+ * `@param` and `@returns` tags.
+ * @callback TestTypedefCallback
+ * @param {Error | null} error - The error, if any.
+ * @param {string} result - The result.
+ * @returns {boolean} Whether to continue.
+ */
+
+/**
+ * Tests a function of a JavaScript file that references the types declared with JSDoc tags.
+ * @param {TestTypedefOptions} options - The options.
+ * @param {TestTypedefCallback} callback - Called with the result.
+ */
+export function testTypedefFunction(options, callback) {
+  callback(null, options.name)
+}
@@ -1,7 +1,19 @@
+export interface SourcePosition {
+  line: number
+  column: number
+}
+
+export interface SourceLocation {
+  path: string
+  start: SourcePosition
+  end: SourcePosition
+}
+
 export interface Parameter {
   name: string
   typeAnnotation?: TypeAnnotation
   jsdoc?: JSDocInfo
+  source?: SourceLocation
 }
 
 export interface GenericDeclaration {
@@ -10,15 +22,30 @@ export interface GenericDeclaration {
   defaultValue?: string
 }
 
+export interface FunctionSignature {
+  parameters: readonly Parameter[]
+  returnType?: TypeAnnotation
+  returns?: JSDocInfo
+  generics?: readonly GenericDeclaration[]
+  jsdoc?: JSDocInfo
+}
+
 /**********************************************************************************/
 /*                                                                                */
 /*                                 Type Elements                                  */
 /*                                                                                */
 /**********************************************************************************/
 
+export type Visibility = 'exported' | 'default' | 'internal'
+
 export interface TypeElementBase {
   kind: string
+  id?: string
   name: string
+  exportName?: string
+  visibility?: Visibility
+  fileName?: string
+  source?: SourceLocation
   jsdoc?: JSDocInfo
 }
 
@@ -30,17 +57,16 @@ export interface VariableElement extends TypeElementBase {
 
 export interface FunctionElement extends TypeElementBase {
   kind: 'Function'
-  arguments: readonly Parameter[]
-  returnType: TypeAnnotation | undefined
-  generics?: GenericDeclaration[]
+  signatures: readonly FunctionSignature[]
 }
 
 export interface ClassElement extends TypeElementBase {
   kind: 'Class'
   isAbstract: boolean
-  extends?: string
+  extends?: TypeAnnotation
+  implements?: readonly TypeAnnotation[]
   members: readonly ClassMember[]
-  generics?: GenericDeclaration[]
+  generics?: readonly GenericDeclaration[]
 }
 
 export interface EnumElement extends TypeElementBase {
@@ -51,16 +77,32 @@ export interface EnumElement extends TypeElementBase {
 export interface TypeAliasElement extends TypeElementBase {
   kind: 'TypeAlias'
   typeAnnotation?: TypeAnnotation
-  generics?: GenericDeclaration[]
+  generics?: readonly GenericDeclaration[]
   literal: string
 }
 
+export interface InterfaceElement extends TypeElementBase {
+  kind: 'Interface'
+  extends?: readonly TypeAnnotation[]
+  members: readonly InterfaceMember[]
+  generics?: readonly GenericDeclaration[]
+  literal: string
+}
+
+export interface NamespaceElement extends TypeElementBase {
+  kind: 'Namespace'
+  declarationKind: 'namespace' | 'module' | 'global'
+  members: readonly TypeElement[]
+}
+
 export type TypeElement =
   | VariableElement
   | FunctionElement
   | ClassElement
   | EnumElement
   | TypeAliasElement
+  | InterfaceElement
+  | NamespaceElement
 
 /**********************************************************************************/
 /*                                                                                */
@@ -69,8 +111,15 @@ export type TypeElement =
 /**********************************************************************************/
 
 export interface TypeMemberBase {
+  id?: string
   typeAnnotation?: TypeAnnotation
   jsdoc?: JSDocInfo
+  source?: SourceLocation
+}
+
+export interface HeritageReference {
+  name: string
+  targetId?: string
 }
 
 export interface EnumMember extends TypeMemberBase {
@@ -81,16 +130,59 @@ export interface EnumMember extends TypeMemberBase {
 interface ClassMemberBase extends TypeMemberBase {
   name?: string
   accessModifier?: string
-  generics?: GenericDeclaration[]
+  isStatic?: boolean
+  isReadonly?: boolean
+  isAbstract?: boolean
+  isOverride?: boolean
+  isOptional?: boolean
+  generics?: readonly GenericDeclaration[]
+  inheritedFrom?: HeritageReference
+  overrides?: HeritageReference
 }
 export interface ClassPropertyMember extends ClassMemberBase {
   kind: 'Property'
 }
 export interface ClassMethodMember extends ClassMemberBase {
   kind: 'Method' | 'Constructor'
-  parameters?: Parameter[]
+  signatures: readonly FunctionSignature[]
+}
+export interface ClassAccessorMember extends ClassMemberBase {
+  kind: 'Accessor'
+  getter?: FunctionSignature
+  setter?: FunctionSignature
+}
+export interface ClassIndexSignatureMember extends ClassMemberBase {
+  kind: 'IndexSignature'
+  parameters: readonly Parameter[]
 }
-export type ClassMember = ClassPropertyMember | ClassMethodMember
+export type ClassMember =
+  | ClassPropertyMember
+  | ClassMethodMember
+  | ClassAccessorMember
+  | ClassIndexSignatureMember
+
+interface InterfaceMemberBase extends TypeMemberBase {
+  name?: string
+  isOptional?: boolean
+  isReadonly?: boolean
+  inheritedFrom?: HeritageReference
+  overrides?: HeritageReference
+}
+export interface InterfacePropertyMember extends InterfaceMemberBase {
+  kind: 'Property'
+}
+export interface InterfaceMethodMember extends InterfaceMemberBase {
+  kind: 'Method' | 'CallSignature' | 'ConstructSignature'
+  signatures: readonly FunctionSignature[]
+}
+export interface InterfaceIndexSignatureMember extends InterfaceMemberBase {
+  kind: 'IndexSignature'
+  parameters: readonly Parameter[]
+}
+export type InterfaceMember =
+  | InterfacePropertyMember
+  | InterfaceMethodMember
+  | InterfaceIndexSignatureMember
 
 /**********************************************************************************/
 /*                                                                                */
@@ -102,22 +194,25 @@ interface AnnotationBase {
   literal: string
 }
 
-export interface PrimitiveTypeAnnotation {
+export interface PrimitiveTypeAnnotation extends AnnotationBase {
   kind: 'PrimitiveType'
   literal: string
-  generics?: GenericDeclaration[]
+  generics?: readonly GenericDeclaration[]
 }
 
-interface TypeReferenceAnnotation {
+export interface TypeReferenceAnnotation extends AnnotationBase {
   kind: 'TypeReference'
   name: string
-  parameters?: TypeAnnotation[]
+  targetId?: string
+  parameters?: readonly TypeAnnotation[]
+  expanded?: TypeAnnotation
 }
 
 export interface TypeLiteralAnnotation extends AnnotationBase {
   kind: 'TypeLiteral'
   members: readonly TypeLiteralMember[]
-  generics?: GenericDeclaration[]
+  signatures?: readonly FunctionSignature[]
+  generics?: readonly GenericDeclaration[]
   literal: string
 }
 export interface TypeLiteralMember extends TypeMemberBase {
@@ -136,14 +231,92 @@ export interface UnionAnnotation extends AnnotationBase {
 
 export interface TupleAnnotation extends AnnotationBase {
   kind: 'Tuple'
-  types: TypeAnnotation[]
+  types: readonly TypeAnnotation[]
 }
 
 export interface FunctionTypeAnnotation extends AnnotationBase {
   kind: 'FunctionType'
-  generics?: GenericDeclaration[]
-  parameters: readonly Parameter[]
-  returnType: TypeAnnotation | undefined
+  signatures: readonly FunctionSignature[]
+}
+
+export interface ArrayAnnotation extends AnnotationBase {
+  kind: 'Array'
+  elementType: TypeAnnotation
+}
+
+export interface TypeOperatorAnnotation extends AnnotationBase {
+  kind: 'TypeOperator'
+  operator: 'keyof' | 'unique' | 'readonly'
+  type: TypeAnnotation
+}
+
+export interface IndexedAccessAnnotation extends AnnotationBase {
+  kind: 'IndexedAccess'
+  objectType: TypeAnnotation
+  indexType: TypeAnnotation
+}
+
+export interface MappedAnnotation extends AnnotationBase {
+  kind: 'Mapped'
+  typeParameter: string
+  constraint?: TypeAnnotation
+  nameType?: TypeAnnotation
+  type?: TypeAnnotation
+  readonlyModifier?: '+' | '-' | 'readonly'
+  optionalModifier?: '+' | '-' | '?'
+}
+
+export interface ConditionalAnnotation extends AnnotationBase {
+  kind: 'Conditional'
+  checkType: TypeAnnotation
+  extendsType: TypeAnnotation
+  trueType: TypeAnnotation
+  falseType: TypeAnnotation
+}
+
+export interface InferAnnotation extends AnnotationBase {
+  kind: 'Infer'
+  name: string
+  constraint?: TypeAnnotation
+}
+
+export interface TemplateLiteralAnnotation extends AnnotationBase {
+  kind: 'TemplateLiteral'
+  head: string
+  spans: readonly TemplateLiteralSpan[]
+}
+export interface TemplateLiteralSpan {
+  type: TypeAnnotation
+  text: string
+}
+
+export interface TypeQueryAnnotation extends AnnotationBase {
+  kind: 'TypeQuery'
+  name: string
+  parameters?: readonly TypeAnnotation[]
+}
+
+export interface OptionalAnnotation extends AnnotationBase {
+  kind: 'Optional'
+  type: TypeAnnotation
+}
+
+export interface RestAnnotation extends AnnotationBase {
+  kind: 'Rest'
+  type: TypeAnnotation
+}
+
+export interface NamedTupleMemberAnnotation extends AnnotationBase {
+  kind: 'NamedTupleMember'
+  name: string
+  isOptional?: boolean
+  isRest?: boolean
+  type: TypeAnnotation
+}
+
+export interface ParenthesizedAnnotation extends AnnotationBase {
+  kind: 'Parenthesized'
+  type: TypeAnnotation
 }
 
 export type TypeAnnotation =
@@ -154,6 +327,49 @@ export type TypeAnnotation =
   | UnionAnnotation
   | TupleAnnotation
   | FunctionTypeAnnotation
+  | ArrayAnnotation
+  | TypeOperatorAnnotation
+  | IndexedAccessAnnotation
+  | MappedAnnotation
+  | ConditionalAnnotation
+  | InferAnnotation
+  | TemplateLiteralAnnotation
+  | TypeQueryAnnotation
+  | OptionalAnnotation
+  | RestAnnotation
+  | NamedTupleMemberAnnotation
+  | ParenthesizedAnnotation
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                   References                                   */
+/*                                                                                */
+/**********************************************************************************/
+
+export interface ReferenceLocation {
+  id: string
+  name: string
+}
+
+export type ReferenceIndex = Record<string, readonly ReferenceLocation[]>
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                     Search                                     */
+/*                                                                                */
+/**********************************************************************************/
+
+export interface SearchEntry {
+  id: string
+  name: string
+  kind: TypeElement['kind']
+  memberKind?: string
+  parent?: string
+  description?: string
+  tags?: readonly string[]
+}
+
+export type SearchIndex = readonly SearchEntry[]
 
 /**********************************************************************************/
 /*                                                                                */
@@ -164,11 +380,71 @@ export type TypeAnnotation =
 export interface JSDocInfo {
   description?: readonly string[]
   tags?: readonly JSDocTag[]
+  links?: readonly JSDocLink[]
+}
+
+export interface JSDocLink {
+  kind: 'link' | 'linkcode' | 'linkplain'
+  target: string
+  text?: string
+  literal: string
 }
 
-export interface JSDocTag {
+interface JSDocTagBase {
   tagName: string
   comment?: string
+  links?: readonly JSDocLink[]
+}
+
+export interface JSDocParamTag extends JSDocTagBase {
+  tagName: 'param'
+  name: string
+  literal?: string
+  isOptional?: boolean
+}
+
+export interface JSDocReturnsTag extends JSDocTagBase {
+  tagName: 'returns'
+  literal?: string
+}
+
+export interface JSDocThrowsTag extends JSDocTagBase {
+  tagName: 'throws'
+  literal?: string
+}
+
+export interface JSDocDeprecatedTag extends JSDocTagBase {
+  tagName: 'deprecated'
+}
+
+export interface JSDocSinceTag extends JSDocTagBase {
+  tagName: 'since'
+}
+
+export interface JSDocSeeTag extends JSDocTagBase {
+  tagName: 'see'
+  name?: string
+}
+
+export interface JSDocPropertyTag extends JSDocTagBase {
+  tagName: 'property'
+  name: string
+  literal?: string
+  isOptional?: boolean
+  defaultValue?: string
+}
+
+export interface JSDocUnknownTag extends JSDocTagBase {
   name?: string
   literal?: string
 }
+
+export type JSDocTag =
+  | JSDocParamTag
+  | JSDocReturnsTag
+  | JSDocThrowsTag
+  | JSDocDeprecatedTag
+  | JSDocSinceTag
+  | JSDocSeeTag
+  | JSDocPropertyTag
+  | JSDocUnknownTag
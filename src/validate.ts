@@ -0,0 +1,428 @@
+import type { TypeElement } from './types'
+
+/**
+ * Error thrown when extracted data does not match the data model described in `./types`.
+ */
+export class ValidationError extends Error {
+  constructor(
+    message: string,
+    public path: string,
+  ) {
+    super(`${path}: ${message}`)
+    this.name = 'ValidationError'
+  }
+}
+
+type Validator = (value: unknown, path: string) => void
+type Shape = Record<string, Validator>
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                   Validators                                   */
+/*                                                                                */
+/**********************************************************************************/
+
+const describe = (value: unknown) =>
+  value === null ? 'null' : Array.isArray(value) ? 'array' : typeof value
+
+const primitive =
+  (type: 'string' | 'number' | 'boolean'): Validator =>
+  (value, path) => {
+    if (typeof value !== type) {
+      throw new ValidationError(`expected ${type}, got ${describe(value)}`, path)
+    }
+  }
+
+const string = primitive('string')
+const number = primitive('number')
+const boolean = primitive('boolean')
+
+const literal =
+  (...values: readonly string[]): Validator =>
+  (value, path) => {
+    if (typeof value !== 'string' || !values.includes(value)) {
+      throw new ValidationError(
+        `expected one of ${values.map(value => `'${value}'`).join(', ')}, got ${JSON.stringify(
+          value,
+        )}`,
+        path,
+      )
+    }
+  }
+
+const optional =
+  (validator: Validator): Validator =>
+  (value, path) => {
+    if (value !== undefined) validator(value, path)
+  }
+
+const oneOf =
+  (...validators: readonly Validator[]): Validator =>
+  (value, path) => {
+    const errors = validators.flatMap(validator => {
+      try {
+        validator(value, path)
+        return []
+      } catch (error) {
+        return [error]
+      }
+    })
+    if (errors.length === validators.length) {
+      throw errors[0]
+    }
+  }
+
+const array =
+  (validator: Validator): Validator =>
+  (value, path) => {
+    if (!Array.isArray(value)) {
+      throw new ValidationError(`expected array, got ${describe(value)}`, path)
+    }
+    value.forEach((item, index) => validator(item, `${path}[${index}]`))
+  }
+
+const object =
+  (shape: Shape): Validator =>
+  (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new ValidationError(`expected object, got ${describe(value)}`, path)
+    }
+    for (const key in value) {
+      if (!(key in shape)) {
+        throw new ValidationError(`unexpected property '${key}'`, path)
+      }
+    }
+    for (const key in shape) {
+      shape[key]((value as Record<string, unknown>)[key], `${path}.${key}`)
+    }
+  }
+
+/**
+ * Validates a discriminated union of objects by their `kind` property.
+ */
+const kinds =
+  (variants: Record<string, Shape>): Validator =>
+  (value, path) => {
+    const kind = (value as { kind?: unknown } | null)?.kind
+    if (typeof kind !== 'string' || !(kind in variants)) {
+      literal(...Object.keys(variants))(kind, `${path}.kind`)
+    }
+    object({ kind: string, ...variants[kind as string] })(value, path)
+  }
+
+/**
+ * Defers the lookup of a validator, so recursive validators can reference each other.
+ */
+const lazy =
+  (getValidator: () => Validator): Validator =>
+  (value, path) =>
+    getValidator()(value, path)
+
+/**********************************************************************************/
+/*                                                                                */
+/*                                   Data Model                                   */
+/*                                                                                */
+/**********************************************************************************/
+
+const jsDocLink = object({
+  kind: literal('link', 'linkcode', 'linkplain'),
+  target: string,
+  text: optional(string),
+  literal: string,
+})
+
+const jsDocTag = object({
+  tagName: string,
+  comment: optional(string),
+  links: optional(array(jsDocLink)),
+  name: optional(string),
+  literal: optional(string),
+  isOptional: optional(boolean),
+  defaultValue: optional(string),
+})
+
+const jsDocInfo = object({
+  description: optional(array(string)),
+  tags: optional(array(jsDocTag)),
+  links: optional(array(jsDocLink)),
+})
+
+const genericDeclaration = object({
+  name: string,
+  extends: optional(string),
+  defaultValue: optional(string),
+})
+
+const sourcePosition = object({
+  line: number,
+  column: number,
+})
+
+const sourceLocation = object({
+  path: string,
+  start: sourcePosition,
+  end: sourcePosition,
+})
+
+const typeAnnotation = lazy(() => typeAnnotationKinds)
+
+const parameter = object({
+  name: string,
+  typeAnnotation: optional(typeAnnotation),
+  jsdoc: optional(jsDocInfo),
+  source: optional(sourceLocation),
+})
+
+const functionSignature = object({
+  parameters: array(parameter),
+  returnType: optional(typeAnnotation),
+  returns: optional(jsDocInfo),
+  generics: optional(array(genericDeclaration)),
+  jsdoc: optional(jsDocInfo),
+})
+
+const typeMember: Shape = {
+  id: optional(string),
+  typeAnnotation: optional(typeAnnotation),
+  jsdoc: optional(jsDocInfo),
+  source: optional(sourceLocation),
+}
+
+const typeLiteralMember = object({
+  ...typeMember,
+  name: string,
+})
+
+const typeAnnotationKinds = kinds({
+  PrimitiveType: {
+    literal: string,
+    generics: optional(array(genericDeclaration)),
+  },
+  TypeReference: {
+    literal: string,
+    name: string,
+    targetId: optional(string),
+    parameters: optional(array(typeAnnotation)),
+    expanded: optional(typeAnnotation),
+  },
+  TypeLiteral: {
+    literal: string,
+    members: array(typeLiteralMember),
+    signatures: optional(array(functionSignature)),
+    generics: optional(array(genericDeclaration)),
+  },
+  Intersection: {
+    literal: string,
+    types: array(typeAnnotation),
+  },
+  Union: {
+    literal: string,
+    types: array(typeAnnotation),
+  },
+  Tuple: {
+    literal: string,
+    types: array(typeAnnotation),
+  },
+  FunctionType: {
+    literal: string,
+    signatures: array(functionSignature),
+  },
+  Array: {
+    literal: string,
+    elementType: typeAnnotation,
+  },
+  TypeOperator: {
+    literal: string,
+    operator: literal('keyof', 'unique', 'readonly'),
+    type: typeAnnotation,
+  },
+  IndexedAccess: {
+    literal: string,
+    objectType: typeAnnotation,
+    indexType: typeAnnotation,
+  },
+  Mapped: {
+    literal: string,
+    typeParameter: string,
+    constraint: optional(typeAnnotation),
+    nameType: optional(typeAnnotation),
+    type: optional(typeAnnotation),
+    readonlyModifier: optional(literal('+', '-', 'readonly')),
+    optionalModifier: optional(literal('+', '-', '?')),
+  },
+  Conditional: {
+    literal: string,
+    checkType: typeAnnotation,
+    extendsType: typeAnnotation,
+    trueType: typeAnnotation,
+    falseType: typeAnnotation,
+  },
+  Infer: {
+    literal: string,
+    name: string,
+    constraint: optional(typeAnnotation),
+  },
+  TemplateLiteral: {
+    literal: string,
+    head: string,
+    spans: array(object({ type: typeAnnotation, text: string })),
+  },
+  TypeQuery: {
+    literal: string,
+    name: string,
+    parameters: optional(array(typeAnnotation)),
+  },
+  Optional: {
+    literal: string,
+    type: typeAnnotation,
+  },
+  Rest: {
+    literal: string,
+    type: typeAnnotation,
+  },
+  NamedTupleMember: {
+    literal: string,
+    name: string,
+    isOptional: optional(boolean),
+    isRest: optional(boolean),
+    type: typeAnnotation,
+  },
+  Parenthesized: {
+    literal: string,
+    type: typeAnnotation,
+  },
+})
+
+const enumMember = object({
+  ...typeMember,
+  name: string,
+  value: optional(oneOf(string, number)),
+})
+
+const heritageReference = object({
+  name: string,
+  targetId: optional(string),
+})
+
+const classMember: Shape = {
+  ...typeMember,
+  name: optional(string),
+  accessModifier: optional(string),
+  isStatic: optional(boolean),
+  isReadonly: optional(boolean),
+  isAbstract: optional(boolean),
+  isOverride: optional(boolean),
+  isOptional: optional(boolean),
+  generics: optional(array(genericDeclaration)),
+  inheritedFrom: optional(heritageReference),
+  overrides: optional(heritageReference),
+}
+
+const classMethodMember: Shape = {
+  ...classMember,
+  signatures: array(functionSignature),
+}
+
+const classMemberKinds = kinds({
+  Property: classMember,
+  Method: classMethodMember,
+  Constructor: classMethodMember,
+  Accessor: {
+    ...classMember,
+    getter: optional(functionSignature),
+    setter: optional(functionSignature),
+  },
+  IndexSignature: {
+    ...classMember,
+    parameters: array(parameter),
+  },
+})
+
+const interfaceMember: Shape = {
+  ...typeMember,
+  name: optional(string),
+  isOptional: optional(boolean),
+  isReadonly: optional(boolean),
+  inheritedFrom: optional(heritageReference),
+  overrides: optional(heritageReference),
+}
+
+const interfaceMethodMember: Shape = {
+  ...interfaceMember,
+  signatures: array(functionSignature),
+}
+
+const interfaceMemberKinds = kinds({
+  Property: interfaceMember,
+  Method: interfaceMethodMember,
+  CallSignature: interfaceMethodMember,
+  ConstructSignature: interfaceMethodMember,
+  IndexSignature: {
+    ...interfaceMember,
+    parameters: array(parameter),
+  },
+})
+
+const typeElementBase: Shape = {
+  id: optional(string),
+  name: string,
+  exportName: optional(string),
+  visibility: optional(literal('exported', 'default', 'internal')),
+  fileName: optional(string),
+  source: optional(sourceLocation),
+  jsdoc: optional(jsDocInfo),
+}
+
+const typeElement: Validator = lazy(() => typeElementKinds)
+
+const typeElementKinds = kinds({
+  Variable: {
+    ...typeElementBase,
+    literal: optional(string),
+    typeAnnotation: optional(typeAnnotation),
+  },
+  Function: {
+    ...typeElementBase,
+    signatures: array(functionSignature),
+  },
+  Class: {
+    ...typeElementBase,
+    isAbstract: boolean,
+    extends: optional(typeAnnotation),
+    implements: optional(array(typeAnnotation)),
+    members: array(classMemberKinds),
+    generics: optional(array(genericDeclaration)),
+  },
+  Enum: {
+    ...typeElementBase,
+    members: array(enumMember),
+  },
+  TypeAlias: {
+    ...typeElementBase,
+    typeAnnotation: optional(typeAnnotation),
+    generics: optional(array(genericDeclaration)),
+    literal: string,
+  },
+  Interface: {
+    ...typeElementBase,
+    extends: optional(array(typeAnnotation)),
+    members: array(interfaceMemberKinds),
+    generics: optional(array(genericDeclaration)),
+    literal: string,
+  },
+  Namespace: {
+    ...typeElementBase,
+    declarationKind: literal('namespace', 'module', 'global'),
+    members: array(typeElement),
+  },
+})
+
+/**
+ * Validates extracted data against the data model, so changes to the parser that drift from
+ * `./types` are caught before any output is written.
+ * @param data - The data to validate, typically the result of `parseDeclarationFile`.
+ * @throws {ValidationError} When the data does not match the data model.
+ */
+export function validateTypeElements(data: unknown): asserts data is TypeElement[] {
+  array(typeElement)(data, '$')
+}